@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "WeddingInvitation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "timelineRole" TEXT NOT NULL DEFAULT 'VIEW_ONLY',
+    "budgetRole" TEXT NOT NULL DEFAULT 'NONE',
+    "vendorName" TEXT,
+    "vendorType" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "invitedByName" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "acceptedAt" DATETIME,
+    "revokedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WeddingInvitation_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "MembershipAuditEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorName" TEXT NOT NULL,
+    "subjectEmail" TEXT NOT NULL,
+    "timelineRole" TEXT,
+    "budgetRole" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MembershipAuditEntry_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WeddingInvitation_tokenHash_key" ON "WeddingInvitation"("tokenHash");
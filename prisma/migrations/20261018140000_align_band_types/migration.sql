@@ -0,0 +1,3 @@
+-- Align BandType with the app's band types (SQLite stores enums as TEXT)
+UPDATE "TimelineBackgroundBand" SET "bandType" = 'golden_hour' WHERE "bandType" = 'golden';
+UPDATE "TimelineBackgroundBand" SET "bandType" = 'custom' WHERE "bandType" = 'forecast';
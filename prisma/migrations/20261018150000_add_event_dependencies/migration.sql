@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "TimelineEventDependency" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "fromEventId" TEXT NOT NULL,
+    "toEventId" TEXT NOT NULL,
+    "gapMinutes" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TimelineEventDependency_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimelineEventDependency_fromEventId_fkey" FOREIGN KEY ("fromEventId") REFERENCES "TimelineEvent" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimelineEventDependency_toEventId_fkey" FOREIGN KEY ("toEventId") REFERENCES "TimelineEvent" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimelineEventDependency_fromEventId_toEventId_key" ON "TimelineEventDependency"("fromEventId", "toEventId");
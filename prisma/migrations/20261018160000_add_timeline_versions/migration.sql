@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TimelineVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "proposalId" TEXT,
+    "restoredFromVersion" INTEGER,
+    "publishedById" TEXT NOT NULL,
+    "publishedByName" TEXT NOT NULL,
+    "patchOps" TEXT NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TimelineVersion_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimelineVersion_weddingId_version_key" ON "TimelineVersion"("weddingId", "version");
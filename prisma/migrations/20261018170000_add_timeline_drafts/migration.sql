@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "TimelineDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "baseVersion" INTEGER NOT NULL,
+    "patchOps" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TimelineDraft_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimelineDraft_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimelineDraft_weddingId_userId_key" ON "TimelineDraft"("weddingId", "userId");
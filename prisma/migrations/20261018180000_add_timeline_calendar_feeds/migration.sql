@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TimelineCalendarFeed" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "laneId" TEXT,
+    "assignedOwnerName" TEXT,
+    "lastFetchedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TimelineCalendarFeed_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimelineCalendarFeed_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimelineCalendarFeed_laneId_fkey" FOREIGN KEY ("laneId") REFERENCES "TimelineLane" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimelineCalendarFeed_tokenHash_key" ON "TimelineCalendarFeed"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "TimelineCalendarFeed_weddingId_userId_idx" ON "TimelineCalendarFeed"("weddingId", "userId");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "TimelineTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "anchorLabel" TEXT NOT NULL,
+    "lanes" TEXT NOT NULL,
+    "events" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "sourceWeddingId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TimelineTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TimelineTemplate_createdById_idx" ON "TimelineTemplate"("createdById");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "PaymentTransaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "weddingId" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "paidDate" DATETIME NOT NULL,
+    "paymentMethod" TEXT,
+    "confirmationRef" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PaymentTransaction_weddingId_fkey" FOREIGN KEY ("weddingId") REFERENCES "Wedding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PaymentTransaction_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "PaymentMilestone" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_milestoneId_idx" ON "PaymentTransaction"("milestoneId");
+
+-- Carry over milestones already marked paid as a single payment each
+INSERT INTO "PaymentTransaction" ("id", "weddingId", "milestoneId", "amount", "paidDate", "paymentMethod", "confirmationRef")
+SELECT 'migrated-' || "id", "weddingId", "id", COALESCE("paidAmount", "amount"), COALESCE("paidDate", "dueDate"), "paymentMethod", "confirmationRef"
+FROM "PaymentMilestone"
+WHERE "status" = 'paid';
+
+UPDATE "PaymentMilestone" SET "paidAmount" = "amount" WHERE "status" = 'paid' AND "paidAmount" IS NULL;
@@ -1,31 +1,48 @@
 import { PrismaClient } from "@prisma/client";
 import { DateTime } from "luxon";
+import { hashPassword } from "../src/lib/auth/password";
+import { computeSunBands } from "../src/lib/timeline/solar";
 
 const prisma = new PrismaClient();
 
+// Password for every seeded demo account
+const DEMO_PASSWORD = "wedding-demo";
+
 async function main() {
   console.log("Seeding database...");
 
   // Clean up existing data
   await prisma.notification.deleteMany();
+  await prisma.paymentTransaction.deleteMany();
   await prisma.paymentMilestone.deleteMany();
   await prisma.contract.deleteMany();
   await prisma.budgetCategory.deleteMany();
   await prisma.budgetFundingSource.deleteMany();
   await prisma.timelineBackgroundBand.deleteMany();
+  await prisma.timelineTemplate.deleteMany();
+  await prisma.timelineCalendarFeed.deleteMany();
+  await prisma.timelineDraft.deleteMany();
+  await prisma.timelineVersion.deleteMany();
   await prisma.timelineProposal.deleteMany();
+  await prisma.timelineEventDependency.deleteMany();
   await prisma.timelineEvent.deleteMany();
   await prisma.timelineLane.deleteMany();
+  await prisma.membershipAuditEntry.deleteMany();
+  await prisma.weddingInvitation.deleteMany();
   await prisma.weddingMembership.deleteMany();
   await prisma.wedding.deleteMany();
+  await prisma.session.deleteMany();
   await prisma.user.deleteMany();
 
   // Create users
+  const passwordHash = await hashPassword(DEMO_PASSWORD);
+
   const coupleUser = await prisma.user.create({
     data: {
       id: "user-couple-1",
       email: "sarah.john@example.com",
       name: "Sarah & John",
+      passwordHash,
     },
   });
 
@@ -34,6 +51,7 @@ async function main() {
       id: "user-planner-1",
       email: "planner@example.com",
       name: "Emily Planner",
+      passwordHash,
     },
   });
 
@@ -42,6 +60,7 @@ async function main() {
       id: "user-vendor-photo-1",
       email: "photo@example.com",
       name: "Mike Photography",
+      passwordHash,
     },
   });
 
@@ -50,10 +69,11 @@ async function main() {
       id: "user-viewer-1",
       email: "guest@example.com",
       name: "Guest Viewer",
+      passwordHash,
     },
   });
 
-  console.log("Created users");
+  console.log(`Created users (password: ${DEMO_PASSWORD})`);
 
   // Create wedding
   const wedding = await prisma.wedding.create({
@@ -218,6 +238,7 @@ async function main() {
       endUtc: createEventTime(15, 30),
       category: "transport" as const,
       status: "confirmed" as const,
+      locked: true, // Fixed pickup booked with the bus company
     },
     {
       title: "Ceremony",
@@ -286,8 +307,9 @@ async function main() {
     },
   ];
 
+  const eventIds: Record<string, string> = {};
   for (const event of events) {
-    await prisma.timelineEvent.create({
+    const created = await prisma.timelineEvent.create({
       data: {
         weddingId: wedding.id,
         title: event.title,
@@ -299,22 +321,50 @@ async function main() {
         assignedOwnerId: coupleUser.id,
         assignedOwnerName: "Sarah & John",
         status: event.status,
+        locked: (event as { locked?: boolean }).locked ?? false,
         notes: (event as { notes?: string }).notes,
       },
     });
+    eventIds[event.title] = created.id;
   }
 
   console.log("Created timeline events");
 
-  // Create golden hour band (approximate for October 17 in NY)
-  await prisma.timelineBackgroundBand.create({
-    data: {
+  // Link the evening run-of-show so moving the ceremony ripples through it
+  const dependencies = [
+    { from: "Ceremony", to: "Cocktail Hour", gapMinutes: 0 },
+    { from: "Cocktail Hour", to: "Reception Entrance", gapMinutes: 0 },
+    { from: "Reception Entrance", to: "Dinner Service", gapMinutes: 0 },
+    { from: "Dinner Service", to: "First Dance & Toasts", gapMinutes: 0 },
+    { from: "Dinner Service", to: "Cake Cutting", gapMinutes: 90 },
+  ];
+
+  await prisma.timelineEventDependency.createMany({
+    data: dependencies.map((dep) => ({
       weddingId: wedding.id,
-      bandType: "golden",
-      startUtc: createEventTime(17, 50),
-      endUtc: createEventTime(18, 40),
-      label: "Golden Hour",
-    },
+      fromEventId: eventIds[dep.from],
+      toEventId: eventIds[dep.to],
+      gapMinutes: dep.gapMinutes,
+    })),
+  });
+
+  console.log("Created event dependencies");
+
+  // Compute sun bands (golden hour, twilight, night) for the venue
+  const sunBands = computeSunBands(
+    wedding.weddingDate,
+    wedding.venueTimezone,
+    wedding.lat!,
+    wedding.lng!
+  );
+  await prisma.timelineBackgroundBand.createMany({
+    data: sunBands.map((band) => ({
+      weddingId: wedding.id,
+      bandType: band.bandType,
+      startUtc: new Date(band.startUtc),
+      endUtc: new Date(band.endUtc),
+      label: band.label,
+    })),
   });
 
   console.log("Created background bands");
@@ -550,10 +600,24 @@ async function main() {
   ];
 
   for (const milestone of milestones) {
+    // Paid milestones get the payment that paid them off
+    const paid = milestone.status === "paid" && milestone.paidDate;
     await prisma.paymentMilestone.create({
       data: {
         weddingId: wedding.id,
         ...milestone,
+        ...(paid && {
+          paidAmount: milestone.amount,
+          paymentMethod: "Check",
+          payments: {
+            create: {
+              weddingId: wedding.id,
+              amount: milestone.amount,
+              paidDate: milestone.paidDate,
+              paymentMethod: "Check",
+            },
+          },
+        }),
       },
     });
   }
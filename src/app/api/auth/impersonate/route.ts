@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  createSession,
+  deleteSession,
+  isImpersonationEnabled,
+  SESSION_COOKIE,
+  setSessionCookie,
+} from "@/lib/auth/session";
+import { serializeUser } from "@/lib/auth/serialize";
+import type { ImpersonationUser } from "@/types/wedding";
+
+// GET /api/auth/impersonate
+// Dev only: lists the users that can be signed in as
+export async function GET() {
+  if (!isImpersonationEnabled) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const users = await prisma.user.findMany({
+      include: { memberships: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const result: ImpersonationUser[] = users.map((user) => ({
+      ...serializeUser(user),
+      memberships: user.memberships.map((m) => ({
+        weddingId: m.weddingId,
+        timelineRole: m.timelineRole,
+        budgetRole: m.budgetRole,
+      })),
+    }));
+
+    return NextResponse.json({ users: result });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return NextResponse.json(
+      { error: "Failed to list users" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/impersonate
+// Dev only: signs in as any user without a password
+export async function POST(request: NextRequest) {
+  if (!isImpersonationEnabled) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const body = await request.json();
+    const { userId } = body as { userId?: string };
+
+    if (!userId) {
+      return NextResponse.json({ error: "userId is required" }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const previousToken = request.cookies.get(SESSION_COOKIE)?.value;
+    if (previousToken) {
+      await deleteSession(previousToken);
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+
+    const response = NextResponse.json({ user: serializeUser(user) });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error("Error impersonating user:", error);
+    return NextResponse.json(
+      { error: "Failed to switch user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { verifyPassword } from "@/lib/auth/password";
+import { createSession, setSessionCookie } from "@/lib/auth/session";
+import { serializeUser } from "@/lib/auth/serialize";
+
+// POST /api/auth/login
+// Signs in with email and password and sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email, password } = body as { email?: string; password?: string };
+
+    if (!email?.trim() || !password) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    // Same response for unknown email and wrong password
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+
+    const response = NextResponse.json({ user: serializeUser(user) });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
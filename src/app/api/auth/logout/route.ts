@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearSessionCookie, deleteSession, SESSION_COOKIE } from "@/lib/auth/session";
+
+// POST /api/auth/logout
+// Ends the current session and clears the cookie
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error("Error signing out:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getCurrentUser, isImpersonationEnabled } from "@/lib/auth/session";
+import { serializeMembership, serializeUser } from "@/lib/auth/serialize";
+import type { SessionResponse } from "@/types/wedding";
+
+// GET /api/auth/session
+// Returns the signed-in user and their wedding memberships (user is null when signed out)
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      const body: SessionResponse = {
+        user: null,
+        memberships: [],
+        canImpersonate: isImpersonationEnabled,
+      };
+      return NextResponse.json(body);
+    }
+
+    const memberships = await prisma.weddingMembership.findMany({
+      where: { userId: user.id },
+    });
+
+    const body: SessionResponse = {
+      user: serializeUser(user),
+      memberships: memberships.map(serializeMembership),
+      canImpersonate: isImpersonationEnabled,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Error fetching session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { hashToken } from "@/lib/auth/token";
+import { calendarResponse, loadTimelineCalendar } from "@/lib/timeline/server";
+
+type RouteParams = {
+  params: Promise<{ token: string }>;
+};
+
+// GET /api/calendar-feeds/[token]/timeline.ics
+// The subscription URL calendar apps poll. The token stands in for a session;
+// it only works while the member who created it still belongs to the wedding.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    const feed = await prisma.timelineCalendarFeed.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { wedding: true },
+    });
+
+    const membership =
+      feed &&
+      (await prisma.weddingMembership.findUnique({
+        where: { weddingId_userId: { weddingId: feed.weddingId, userId: feed.userId } },
+      }));
+
+    if (!feed || !membership) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    const calendar = await loadTimelineCalendar(feed.wedding, {
+      laneId: feed.laneId,
+      assignedOwnerName: feed.assignedOwnerName,
+    });
+
+    await prisma.timelineCalendarFeed.update({
+      where: { id: feed.id },
+      data: { lastFetchedAt: new Date() },
+    });
+
+    return calendarResponse(calendar, "timeline.ics");
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to load calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { hashPassword } from "@/lib/auth/password";
+import { createSession, getCurrentUser, setSessionCookie } from "@/lib/auth/session";
+import { hashToken } from "@/lib/auth/token";
+import { invitationStatus, recordMembershipAudit } from "@/lib/members/server";
+import type { InvitationAcceptRequest } from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ token: string }>;
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// POST /api/invitations/[token]/accept
+// Joins the wedding with the invited roles. Signed-in users accept as
+// themselves; invitees without an account create one with name + password.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    const body = (await request.json()) as InvitationAcceptRequest;
+
+    const invitation = await prisma.weddingInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    const status = invitationStatus(invitation);
+    if (status !== "pending") {
+      return NextResponse.json(
+        { error: `This invitation has been ${status === "accepted" ? "used" : status}` },
+        { status: 410 }
+      );
+    }
+
+    const currentUser = await getCurrentUser();
+    let user = currentUser;
+
+    if (user && user.email !== invitation.email) {
+      return NextResponse.json(
+        { error: `This invitation was sent to ${invitation.email}` },
+        { status: 403 }
+      );
+    }
+
+    if (!user) {
+      const existing = await prisma.user.findUnique({
+        where: { email: invitation.email },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: `Sign in as ${invitation.email} to accept this invitation` },
+          { status: 401 }
+        );
+      }
+
+      if (!body.name?.trim()) {
+        return NextResponse.json({ error: "Name is required" }, { status: 400 });
+      }
+
+      if (!body.password || body.password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      user = await prisma.user.create({
+        data: {
+          email: invitation.email,
+          name: body.name.trim(),
+          passwordHash: await hashPassword(body.password),
+        },
+      });
+    }
+
+    const acceptingUser = user;
+    await prisma.$transaction(async (tx) => {
+      await tx.weddingMembership.upsert({
+        where: {
+          weddingId_userId: { weddingId: invitation.weddingId, userId: acceptingUser.id },
+        },
+        create: {
+          weddingId: invitation.weddingId,
+          userId: acceptingUser.id,
+          timelineRole: invitation.timelineRole,
+          budgetRole: invitation.budgetRole,
+          vendorName: invitation.vendorName,
+          vendorType: invitation.vendorType,
+        },
+        update: {
+          timelineRole: invitation.timelineRole,
+          budgetRole: invitation.budgetRole,
+          vendorName: invitation.vendorName,
+          vendorType: invitation.vendorType,
+        },
+      });
+
+      await tx.weddingInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      });
+
+      await recordMembershipAudit(
+        invitation.weddingId,
+        acceptingUser,
+        "invitation_accepted",
+        {
+          email: invitation.email,
+          timelineRole: invitation.timelineRole,
+          budgetRole: invitation.budgetRole,
+        },
+        tx
+      );
+    });
+
+    const response = NextResponse.json({ weddingId: invitation.weddingId });
+
+    // New accounts are signed in straight away
+    if (!currentUser) {
+      const session = await createSession(acceptingUser.id);
+      setSessionCookie(response, session.token, session.expiresAt);
+    }
+
+    return response;
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { hashToken } from "@/lib/auth/token";
+import { invitationStatus } from "@/lib/members/server";
+import type { InvitationDetails } from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ token: string }>;
+};
+
+// GET /api/invitations/[token]
+// Returns what an invitation link grants, for the accept page
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    const invitation = await prisma.weddingInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { wedding: true },
+    });
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { email: invitation.email },
+    });
+
+    const body: InvitationDetails = {
+      weddingId: invitation.weddingId,
+      weddingName: invitation.wedding.name,
+      email: invitation.email,
+      timelineRole: invitation.timelineRole,
+      budgetRole: invitation.budgetRole,
+      invitedByName: invitation.invitedByName,
+      status: invitationStatus(invitation),
+      expiresAt: invitation.expiresAt.toISOString(),
+      hasAccount: !!account,
+    };
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Error fetching invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invitation" },
+      { status: 500 }
+    );
+  }
+}
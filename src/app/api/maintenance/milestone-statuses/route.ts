@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { refreshMilestoneStatuses } from "@/lib/cash/status";
+
+// POST /api/maintenance/milestone-statuses
+// Dev only: re-evaluates every wedding's unpaid milestones (planned, due, late)
+// and returns the ones that changed. Reads already do this per wedding; this is
+// for running it across the board, e.g. `curl -X POST` after changing the window.
+export async function POST() {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const changes = await refreshMilestoneStatuses();
+    return NextResponse.json({ updated: changes.length, changes });
+  } catch (error) {
+    console.error("Error refreshing milestone statuses:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh milestone statuses" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializePayment } from "@/lib/cash/server";
+import { getDueWindowDays, refreshMilestoneStatuses } from "@/lib/cash/status";
+import { formatCurrency, formatDate } from "@/types/cash";
+import type { CashAlert, MilestoneWithDetails } from "@/types/cash";
 
 type RouteParams = {
   params: Promise<{ weddingId: string }>;
@@ -11,6 +16,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   const { weddingId } = await params;
 
   try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    // Move milestones along to due or late before reading them
+    await refreshMilestoneStatuses(weddingId);
+
     const wedding = await prisma.wedding.findUnique({
       where: { id: weddingId },
       include: {
@@ -23,6 +34,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             category: true,
             contract: true,
             fundingSource: true,
+            payments: {
+              orderBy: { paidDate: "asc" },
+            },
           },
           orderBy: { dueDate: "asc" },
         },
@@ -54,9 +68,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       0
     );
 
-    const totalPaid = wedding.milestones
-      .filter((m) => m.status === "paid")
-      .reduce((sum, m) => sum + m.amount, 0);
+    // What has actually been paid, including partial payments
+    const paidAmount = (m: (typeof wedding.milestones)[number]) =>
+      m.payments.reduce((sum, p) => sum + p.amount, 0);
+
+    const totalPaid = wedding.milestones.reduce((sum, m) => sum + paidAmount(m), 0);
 
     const unallocatedMilestones = wedding.milestones.filter(
       (m) => !m.fundingSourceId
@@ -93,9 +109,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       const monthKey = milestone.dueDate.toISOString().slice(0, 7); // YYYY-MM
       const current = monthlyMap.get(monthKey) || { total: 0, paid: 0, count: 0 };
       current.total += milestone.amount;
-      if (milestone.status === "paid") {
-        current.paid += milestone.amount;
-      }
+      current.paid += paidAmount(milestone);
       current.count += 1;
       monthlyMap.set(monthKey, current);
     }
@@ -109,29 +123,33 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         milestoneCount: data.count,
       }));
 
+    const milestones: MilestoneWithDetails[] = wedding.milestones.map((m) => ({
+      id: m.id,
+      weddingId: m.weddingId,
+      categoryId: m.categoryId ?? undefined,
+      categoryName: m.category?.name,
+      contractId: m.contractId ?? undefined,
+      vendorName: m.contract?.vendorName,
+      fundingSourceId: m.fundingSourceId ?? undefined,
+      fundingSourceName: m.fundingSource?.name,
+      label: m.label,
+      amount: m.amount,
+      dueDate: m.dueDate.toISOString(),
+      status: m.status,
+      paidDate: m.paidDate?.toISOString(),
+      paidAmount: paidAmount(m),
+      remainingAmount: Math.max(m.amount - paidAmount(m), 0),
+      paymentMethod: m.paymentMethod ?? undefined,
+      confirmationRef: m.confirmationRef ?? undefined,
+      notes: m.notes ?? undefined,
+      payments: m.payments.map(serializePayment),
+    }));
+
     // Get upcoming milestones (not paid, sorted by due date)
-    const upcomingMilestones = wedding.milestones
-      .filter((m) => m.status !== "paid")
-      .slice(0, 10)
-      .map((m) => ({
-        id: m.id,
-        weddingId: m.weddingId,
-        categoryId: m.categoryId,
-        categoryName: m.category?.name,
-        contractId: m.contractId,
-        vendorName: m.contract?.vendorName,
-        fundingSourceId: m.fundingSourceId,
-        fundingSourceName: m.fundingSource?.name,
-        label: m.label,
-        amount: m.amount,
-        dueDate: m.dueDate.toISOString(),
-        status: m.status,
-        paidDate: m.paidDate?.toISOString(),
-        notes: m.notes,
-      }));
+    const upcomingMilestones = milestones.filter((m) => m.status !== "paid").slice(0, 10);
 
     // Generate alerts
-    const alerts = [];
+    const alerts: CashAlert[] = [];
 
     // Check for overfunded plan
     if (totalTargets > totalCommitted) {
@@ -172,18 +190,28 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Check for late payments, one alert each so they can be acted on
+    for (const m of milestones) {
+      if (m.status === "late") {
+        alerts.push({
+          type: "late_payment",
+          severity: "error",
+          title: "Late payment",
+          message: `"${m.label}" was due ${formatDate(m.dueDate, "UTC")} and still has ${formatCurrency(m.remainingAmount)} unpaid`,
+          relatedId: m.id,
+          relatedType: "milestone",
+        });
+      }
+    }
+
     // Check for upcoming payments
-    const fourteenDaysFromNow = new Date();
-    fourteenDaysFromNow.setDate(fourteenDaysFromNow.getDate() + 14);
-    const upcomingDue = wedding.milestones.filter(
-      (m) => m.dueDate <= fourteenDaysFromNow && m.status !== "paid"
-    );
+    const upcomingDue = milestones.filter((m) => m.status === "due");
     if (upcomingDue.length > 0) {
       alerts.push({
         type: "upcoming_due",
         severity: "info",
         title: "Payments due soon",
-        message: `${upcomingDue.length} payment(s) due within the next 2 weeks`,
+        message: `${upcomingDue.length} payment(s) due within the next ${getDueWindowDays()} days`,
       });
     }
 
@@ -205,6 +233,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         notes: cat.notes,
         sortOrder: cat.sortOrder,
       })),
+      contracts: wedding.contracts.map((c) => ({
+        id: c.id,
+        weddingId: c.weddingId,
+        categoryId: c.categoryId ?? undefined,
+        vendorName: c.vendorName,
+        totalAmount: c.totalAmount,
+      })),
+      milestones,
       upcomingMilestones,
       monthlyData,
       alerts,
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { parseDateOnly, serializeContract, validateContract } from "@/lib/cash/server";
+import type { ContractUpdateRequest } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; contractId: string }>;
+};
+
+// Look up a contract and make sure it belongs to this wedding
+async function findContract(weddingId: string, contractId: string) {
+  const contract = await prisma.contract.findUnique({
+    where: { id: contractId },
+  });
+
+  if (!contract) {
+    return {
+      ok: false as const,
+      response: NextResponse.json({ error: "Contract not found" }, { status: 404 }),
+    };
+  }
+
+  if (contract.weddingId !== weddingId) {
+    return {
+      ok: false as const,
+      response: NextResponse.json(
+        { error: "Contract does not belong to this wedding" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true as const, contract };
+}
+
+// PATCH /api/weddings/[weddingId]/contracts/[contractId]
+// Updates vendor details, the total, signed date or category. Moving a contract
+// to another category moves its payments with it.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, contractId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as ContractUpdateRequest;
+
+    const invalid = validateContract(body, true);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const found = await findContract(weddingId, contractId);
+    if (!found.ok) return found.response;
+
+    if (body.categoryId) {
+      const category = await prisma.budgetCategory.findUnique({
+        where: { id: body.categoryId },
+      });
+      if (!category || category.weddingId !== weddingId) {
+        return NextResponse.json({ error: "Budget category not found" }, { status: 400 });
+      }
+    }
+
+    const categoryChanged =
+      body.categoryId !== undefined && (body.categoryId || null) !== found.contract.categoryId;
+
+    const contract = await prisma.$transaction(async (tx) => {
+      if (categoryChanged) {
+        await tx.paymentMilestone.updateMany({
+          where: { contractId, categoryId: found.contract.categoryId },
+          data: { categoryId: body.categoryId || null },
+        });
+      }
+
+      return tx.contract.update({
+        where: { id: contractId },
+        data: {
+          ...(body.vendorName !== undefined && { vendorName: body.vendorName.trim() }),
+          ...(body.vendorContact !== undefined && {
+            vendorContact: body.vendorContact?.trim() || null,
+          }),
+          ...(body.vendorEmail !== undefined && { vendorEmail: body.vendorEmail?.trim() || null }),
+          ...(body.vendorPhone !== undefined && { vendorPhone: body.vendorPhone?.trim() || null }),
+          ...(body.totalAmount !== undefined && { totalAmount: body.totalAmount }),
+          ...(body.signedDate !== undefined && {
+            signedDate: body.signedDate ? parseDateOnly(body.signedDate) : null,
+          }),
+          ...(body.notes !== undefined && { notes: body.notes?.trim() || null }),
+          ...(body.categoryId !== undefined && { categoryId: body.categoryId || null }),
+        },
+        include: { category: true, milestones: true },
+      });
+    });
+
+    return NextResponse.json({ contract: serializeContract(contract) });
+  } catch (error) {
+    console.error("Error updating contract:", error);
+    return NextResponse.json(
+      { error: "Failed to update contract" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/weddings/[weddingId]/contracts/[contractId]
+// Removes a contract and the payments scheduled on it that nothing has been paid
+// toward. Ones with recorded payments, even partial, stay on the books, no
+// longer linked to a contract.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, contractId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const found = await findContract(weddingId, contractId);
+    if (!found.ok) return found.response;
+
+    await prisma.$transaction([
+      prisma.paymentMilestone.deleteMany({
+        where: { contractId, payments: { none: {} } },
+      }),
+      prisma.paymentMilestone.updateMany({
+        where: { contractId },
+        data: { contractId: null },
+      }),
+      prisma.contract.delete({ where: { id: contractId } }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting contract:", error);
+    return NextResponse.json(
+      { error: "Failed to delete contract" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DateTime } from "luxon";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { parseDateOnly, serializeContract, validateContract } from "@/lib/cash/server";
+import { generatePaymentSchedule, validatePaymentSchedule } from "@/lib/cash/schedule";
+import { refreshMilestoneStatuses } from "@/lib/cash/status";
+import type { ContractCreateRequest, ContractsResponse } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/contracts
+// Lists vendor contracts with their payment schedules
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    await refreshMilestoneStatuses(weddingId);
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+      include: {
+        categories: {
+          orderBy: { sortOrder: "asc" },
+        },
+        contracts: {
+          include: { category: true, milestones: true },
+          orderBy: { vendorName: "asc" },
+        },
+      },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const response: ContractsResponse = {
+      contracts: wedding.contracts.map(serializeContract),
+      categories: wedding.categories.map((cat) => ({
+        id: cat.id,
+        weddingId: cat.weddingId,
+        name: cat.name,
+        targetAmount: cat.targetAmount,
+        notes: cat.notes ?? undefined,
+        sortOrder: cat.sortOrder,
+      })),
+      weddingDate: wedding.weddingDate,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching contracts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch contracts" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/weddings/[weddingId]/contracts
+// Adds a vendor contract, and its payment schedule when one is given
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as ContractCreateRequest;
+
+    const invalid =
+      validateContract(body, false) ?? (body.schedule ? validatePaymentSchedule(body.schedule) : null);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+      include: { categories: true },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    if (body.categoryId && !wedding.categories.some((cat) => cat.id === body.categoryId)) {
+      return NextResponse.json({ error: "Budget category not found" }, { status: 400 });
+    }
+
+    const vendorName = body.vendorName.trim();
+    const categoryId = body.categoryId || null;
+
+    // The deposit is due on signing, or today for an unsigned contract
+    const payments = body.schedule
+      ? generatePaymentSchedule(body.totalAmount, body.schedule, {
+          labelPrefix: vendorName,
+          startDate: body.signedDate || DateTime.now().setZone(wedding.venueTimezone).toISODate()!,
+          weddingDate: wedding.weddingDate,
+        })
+      : [];
+
+    const contract = await prisma.$transaction(async (tx) => {
+      const created = await tx.contract.create({
+        data: {
+          weddingId,
+          categoryId,
+          vendorName,
+          vendorContact: body.vendorContact?.trim() || null,
+          vendorEmail: body.vendorEmail?.trim() || null,
+          vendorPhone: body.vendorPhone?.trim() || null,
+          totalAmount: body.totalAmount,
+          signedDate: body.signedDate ? parseDateOnly(body.signedDate) : null,
+          notes: body.notes?.trim() || null,
+        },
+      });
+
+      await tx.paymentMilestone.createMany({
+        data: payments.map((payment) => ({
+          weddingId,
+          categoryId,
+          contractId: created.id,
+          label: payment.label,
+          amount: payment.amount,
+          dueDate: parseDateOnly(payment.dueDate)!,
+        })),
+      });
+
+      return tx.contract.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { category: true, milestones: true },
+      });
+    });
+
+    return NextResponse.json({ contract: serializeContract(contract) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating contract:", error);
+    return NextResponse.json(
+      { error: "Failed to create contract" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeFundingSource, validateFundingSource } from "@/lib/cash/server";
+import type { FundingSourceUpdateRequest } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; fundingSourceId: string }>;
+};
+
+// Look up a funding source and make sure it belongs to this wedding
+async function findFundingSource(weddingId: string, fundingSourceId: string) {
+  const fundingSource = await prisma.budgetFundingSource.findUnique({
+    where: { id: fundingSourceId },
+  });
+
+  if (!fundingSource) {
+    return {
+      ok: false as const,
+      response: NextResponse.json({ error: "Funding source not found" }, { status: 404 }),
+    };
+  }
+
+  if (fundingSource.weddingId !== weddingId) {
+    return {
+      ok: false as const,
+      response: NextResponse.json(
+        { error: "Funding source does not belong to this wedding" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true as const, fundingSource };
+}
+
+// PATCH /api/weddings/[weddingId]/funding-sources/[fundingSourceId]
+// Renames a funding source or changes its committed amount or notes
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, fundingSourceId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as FundingSourceUpdateRequest;
+
+    const invalid = validateFundingSource(body, true);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const found = await findFundingSource(weddingId, fundingSourceId);
+    if (!found.ok) return found.response;
+
+    const fundingSource = await prisma.budgetFundingSource.update({
+      where: { id: fundingSourceId },
+      data: {
+        ...(body.name !== undefined && { name: body.name.trim() }),
+        ...(body.committedAmount !== undefined && { committedAmount: body.committedAmount }),
+        ...(body.notes !== undefined && { notes: body.notes?.trim() || null }),
+      },
+    });
+
+    return NextResponse.json({ fundingSource: serializeFundingSource(fundingSource) });
+  } catch (error) {
+    console.error("Error updating funding source:", error);
+    return NextResponse.json(
+      { error: "Failed to update funding source" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/weddings/[weddingId]/funding-sources/[fundingSourceId]
+// Removes a funding source. Its milestones move to ?reassignTo=<fundingSourceId>,
+// or with ?unallocate=true are left without a funding source. A source that still
+// has milestones needs one of the two, so nothing is unassigned by accident.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, fundingSourceId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const found = await findFundingSource(weddingId, fundingSourceId);
+    if (!found.ok) return found.response;
+
+    const reassignTo = request.nextUrl.searchParams.get("reassignTo");
+    const unallocate = request.nextUrl.searchParams.get("unallocate") === "true";
+
+    if (reassignTo) {
+      if (reassignTo === fundingSourceId) {
+        return NextResponse.json(
+          { error: "Choose a different funding source to move payments to" },
+          { status: 400 }
+        );
+      }
+      const target = await prisma.budgetFundingSource.findUnique({
+        where: { id: reassignTo },
+      });
+      if (!target || target.weddingId !== weddingId) {
+        return NextResponse.json(
+          { error: "Funding source to move payments to not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const milestoneCount = await prisma.paymentMilestone.count({
+      where: { fundingSourceId },
+    });
+
+    if (milestoneCount > 0 && !reassignTo && !unallocate) {
+      return NextResponse.json(
+        {
+          error: `This funding source pays for ${milestoneCount} payment(s). Move them to another source or leave them unallocated.`,
+          milestoneCount,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Deleting the source unallocates its milestones (onDelete: SetNull)
+    await prisma.$transaction(async (tx) => {
+      if (reassignTo) {
+        await tx.paymentMilestone.updateMany({
+          where: { fundingSourceId },
+          data: { fundingSourceId: reassignTo },
+        });
+      }
+      await tx.budgetFundingSource.delete({ where: { id: fundingSourceId } });
+    });
+
+    return NextResponse.json({ success: true, milestoneCount });
+  } catch (error) {
+    console.error("Error deleting funding source:", error);
+    return NextResponse.json(
+      { error: "Failed to delete funding source" },
+      { status: 500 }
+    );
+  }
+}
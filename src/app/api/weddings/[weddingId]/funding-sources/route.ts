@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeFundingSource, validateFundingSource } from "@/lib/cash/server";
+import type { FundingSourceCreateRequest } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/funding-sources
+// Adds a funding source (who is contributing, and how much)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as FundingSourceCreateRequest;
+
+    const invalid = validateFundingSource(body, false);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const fundingSource = await prisma.budgetFundingSource.create({
+      data: {
+        weddingId,
+        name: body.name.trim(),
+        committedAmount: body.committedAmount,
+        notes: body.notes?.trim() || null,
+      },
+    });
+
+    return NextResponse.json(
+      { fundingSource: serializeFundingSource(fundingSource) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating funding source:", error);
+    return NextResponse.json(
+      { error: "Failed to create funding source" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  invitationStatus,
+  recordMembershipAudit,
+  serializeInvitation,
+} from "@/lib/members/server";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; invitationId: string }>;
+};
+
+// DELETE /api/weddings/[weddingId]/invitations/[invitationId]
+// Revokes a pending invitation so its link stops working
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, invitationId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "members:manage");
+    if (!auth.ok) return auth.response;
+
+    const invitation = await prisma.weddingInvitation.findUnique({
+      where: { id: invitationId },
+    });
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    if (invitation.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Invitation does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    const status = invitationStatus(invitation);
+    if (status !== "pending") {
+      return NextResponse.json(
+        { error: `Invitation is already ${status}` },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const result = await tx.weddingInvitation.update({
+        where: { id: invitationId },
+        data: { revokedAt: new Date() },
+      });
+      await recordMembershipAudit(
+        weddingId,
+        auth.access.user,
+        "invitation_revoked",
+        { email: invitation.email },
+        tx
+      );
+      return result;
+    });
+
+    return NextResponse.json(serializeInvitation(revoked));
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke invitation" },
+      { status: 500 }
+    );
+  }
+}
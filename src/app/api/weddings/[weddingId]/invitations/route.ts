@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { isImpersonationEnabled } from "@/lib/auth/session";
+import { generateToken, hashToken } from "@/lib/auth/token";
+import { sendMail } from "@/lib/mail";
+import {
+  INVITATION_TTL_DAYS,
+  isValidEmail,
+  normalizeEmail,
+  recordMembershipAudit,
+  serializeInvitation,
+} from "@/lib/members/server";
+import {
+  BUDGET_ROLE_LABELS,
+  TIMELINE_ROLE_LABELS,
+  canEditBudget,
+  type InvitationCreateRequest,
+  type InvitationCreateResponse,
+} from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/invitations
+// Invites someone by email. Re-inviting replaces any pending invitation.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "members:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as InvitationCreateRequest;
+    const email = normalizeEmail(body.email ?? "");
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+    }
+
+    if (
+      typeof body.timelineRole !== "string" ||
+      !Object.hasOwn(TIMELINE_ROLE_LABELS, body.timelineRole)
+    ) {
+      return NextResponse.json({ error: "Invalid timelineRole" }, { status: 400 });
+    }
+
+    if (typeof body.budgetRole !== "string" || !Object.hasOwn(BUDGET_ROLE_LABELS, body.budgetRole)) {
+      return NextResponse.json({ error: "Invalid budgetRole" }, { status: 400 });
+    }
+
+    if (canEditBudget(body.budgetRole) && !canEditBudget(auth.access.membership.budgetRole)) {
+      return NextResponse.json(
+        { error: "Only a budget admin can grant budget access" },
+        { status: 403 }
+      );
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const existingMember = await prisma.weddingMembership.findFirst({
+      where: { weddingId, user: { email } },
+    });
+
+    if (existingMember) {
+      return NextResponse.json(
+        { error: "This person is already a member of the wedding" },
+        { status: 409 }
+      );
+    }
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invitation = await prisma.$transaction(async (tx) => {
+      // Only the newest link for an email stays valid
+      await tx.weddingInvitation.updateMany({
+        where: { weddingId, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      const created = await tx.weddingInvitation.create({
+        data: {
+          weddingId,
+          email,
+          timelineRole: body.timelineRole,
+          budgetRole: body.budgetRole,
+          vendorName: body.vendorName?.trim() || null,
+          vendorType: body.vendorType?.trim() || null,
+          tokenHash: hashToken(token),
+          invitedById: auth.access.user.id,
+          invitedByName: auth.access.user.name,
+          expiresAt,
+        },
+      });
+
+      await recordMembershipAudit(
+        weddingId,
+        auth.access.user,
+        "invitation_sent",
+        { email, timelineRole: body.timelineRole, budgetRole: body.budgetRole },
+        tx
+      );
+
+      return created;
+    });
+
+    const inviteUrl = `${request.nextUrl.origin}/invitations/${token}`;
+    await sendMail({
+      to: email,
+      subject: `You're invited to ${wedding.name}`,
+      text: [
+        `${auth.access.user.name} invited you to help plan ${wedding.name}.`,
+        `Role: ${TIMELINE_ROLE_LABELS[body.timelineRole]}`,
+        "",
+        `Accept the invitation: ${inviteUrl}`,
+        "",
+        `This link expires on ${expiresAt.toLocaleDateString("en-US")}.`,
+      ].join("\n"),
+    });
+
+    const response: InvitationCreateResponse = {
+      invitation: serializeInvitation(invitation),
+      ...(isImpersonationEnabled && { inviteUrl }),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to create invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeMembership, serializeUser } from "@/lib/auth/serialize";
+import { recordMembershipAudit, wouldRemoveLastAdmin } from "@/lib/members/server";
+import {
+  BUDGET_ROLE_LABELS,
+  TIMELINE_ROLE_LABELS,
+  canEditBudget,
+  type MembershipUpdateRequest,
+} from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; membershipId: string }>;
+};
+
+// PATCH /api/weddings/[weddingId]/members/[membershipId]
+// Changes a member's roles or vendor details
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, membershipId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "members:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as MembershipUpdateRequest;
+
+    if (
+      body.timelineRole !== undefined &&
+      (typeof body.timelineRole !== "string" ||
+        !Object.hasOwn(TIMELINE_ROLE_LABELS, body.timelineRole))
+    ) {
+      return NextResponse.json({ error: "Invalid timelineRole" }, { status: 400 });
+    }
+
+    if (
+      body.budgetRole !== undefined &&
+      (typeof body.budgetRole !== "string" || !Object.hasOwn(BUDGET_ROLE_LABELS, body.budgetRole))
+    ) {
+      return NextResponse.json({ error: "Invalid budgetRole" }, { status: 400 });
+    }
+
+    const membership = await prisma.weddingMembership.findUnique({
+      where: { id: membershipId },
+      include: { user: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    if (membership.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Member does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    const timelineRole = body.timelineRole ?? membership.timelineRole;
+    const budgetRole = body.budgetRole ?? membership.budgetRole;
+
+    // Only budget admins can hand out (or take away) budget access
+    if (budgetRole !== membership.budgetRole && !canEditBudget(auth.access.membership.budgetRole)) {
+      return NextResponse.json(
+        { error: "Only a budget admin can change budget access" },
+        { status: 403 }
+      );
+    }
+
+    if (await wouldRemoveLastAdmin(membership, { timelineRole, budgetRole })) {
+      return NextResponse.json(
+        { error: "A wedding needs at least one timeline admin and one budget admin" },
+        { status: 409 }
+      );
+    }
+
+    const rolesChanged =
+      timelineRole !== membership.timelineRole || budgetRole !== membership.budgetRole;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.weddingMembership.update({
+        where: { id: membershipId },
+        data: {
+          timelineRole,
+          budgetRole,
+          ...(body.vendorName !== undefined && { vendorName: body.vendorName?.trim() || null }),
+          ...(body.vendorType !== undefined && { vendorType: body.vendorType?.trim() || null }),
+        },
+        include: { user: true },
+      });
+
+      if (rolesChanged) {
+        await recordMembershipAudit(
+          weddingId,
+          auth.access.user,
+          "role_changed",
+          { email: membership.user.email, timelineRole, budgetRole },
+          tx
+        );
+      }
+
+      return result;
+    });
+
+    return NextResponse.json({
+      ...serializeMembership(updated),
+      user: serializeUser(updated.user),
+    });
+  } catch (error) {
+    console.error("Error updating member:", error);
+    return NextResponse.json(
+      { error: "Failed to update member" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/weddings/[weddingId]/members/[membershipId]
+// Revokes a member's access to the wedding
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, membershipId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "members:manage");
+    if (!auth.ok) return auth.response;
+
+    const membership = await prisma.weddingMembership.findUnique({
+      where: { id: membershipId },
+      include: { user: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    if (membership.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Member does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    if (canEditBudget(membership.budgetRole) && !canEditBudget(auth.access.membership.budgetRole)) {
+      return NextResponse.json(
+        { error: "Only a budget admin can remove another budget admin" },
+        { status: 403 }
+      );
+    }
+
+    if (await wouldRemoveLastAdmin(membership, null)) {
+      return NextResponse.json(
+        { error: "A wedding needs at least one timeline admin and one budget admin" },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.weddingMembership.delete({ where: { id: membershipId } });
+      await recordMembershipAudit(
+        weddingId,
+        auth.access.user,
+        "access_revoked",
+        { email: membership.user.email },
+        tx
+      );
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking member:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke access" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeMembership, serializeUser } from "@/lib/auth/serialize";
+import {
+  invitationStatus,
+  serializeAuditEntry,
+  serializeInvitation,
+} from "@/lib/members/server";
+import type { PeopleResponse } from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/members
+// Returns members, pending invitations, and the membership audit log
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "members:manage");
+    if (!auth.ok) return auth.response;
+
+    const [memberships, invitations, audit] = await Promise.all([
+      prisma.weddingMembership.findMany({
+        where: { weddingId },
+        include: { user: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.weddingInvitation.findMany({
+        where: { weddingId, acceptedAt: null, revokedAt: null },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.membershipAuditEntry.findMany({
+        where: { weddingId },
+        orderBy: { createdAt: "desc" },
+        take: 100,
+      }),
+    ]);
+
+    const body: PeopleResponse = {
+      members: memberships.map((membership) => ({
+        ...serializeMembership(membership),
+        user: serializeUser(membership.user),
+      })),
+      invitations: invitations
+        .filter((invitation) => invitationStatus(invitation) === "pending")
+        .map(serializeInvitation),
+      audit: audit.map(serializeAuditEntry),
+    };
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Error fetching members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch members" },
+      { status: 500 }
+    );
+  }
+}
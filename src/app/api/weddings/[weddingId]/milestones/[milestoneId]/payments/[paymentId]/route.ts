@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeMilestone, syncMilestonePayments } from "@/lib/cash/server";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; milestoneId: string; paymentId: string }>;
+};
+
+// DELETE /api/weddings/[weddingId]/milestones/[milestoneId]/payments/[paymentId]
+// Removes a recorded payment, e.g. a bounced check
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, milestoneId, paymentId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const payment = await prisma.paymentTransaction.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment || payment.milestoneId !== milestoneId) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    if (payment.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Payment does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.paymentTransaction.delete({ where: { id: paymentId } });
+      return syncMilestonePayments(tx, milestoneId);
+    });
+
+    return NextResponse.json({ success: true, milestone: serializeMilestone(updated) });
+  } catch (error) {
+    console.error("Error deleting payment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete payment" },
+      { status: 500 }
+    );
+  }
+}
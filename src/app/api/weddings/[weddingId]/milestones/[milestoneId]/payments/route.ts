@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  parseDateOnly,
+  serializeMilestone,
+  serializePayment,
+  syncMilestonePayments,
+  validatePayment,
+} from "@/lib/cash/server";
+import type { PaymentTransactionCreateRequest } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; milestoneId: string }>;
+};
+
+// Thrown inside the transaction to roll back a payment that overpays
+class OverpaymentError extends Error {
+  constructor(readonly remaining: number) {
+    super("Payment is more than the remaining balance");
+  }
+}
+
+// POST /api/weddings/[weddingId]/milestones/[milestoneId]/payments
+// Records a payment toward a milestone, up to its remaining balance
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, milestoneId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as PaymentTransactionCreateRequest;
+
+    const invalid = validatePayment(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const milestone = await prisma.paymentMilestone.findUnique({
+      where: { id: milestoneId },
+    });
+
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Payment milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    if (milestone.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Milestone does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    // The balance is checked after the insert, in the same transaction, so two
+    // payments recorded at once can't both fit into the same remaining balance
+    const { payment, updated } = await prisma.$transaction(async (tx) => {
+      const payment = await tx.paymentTransaction.create({
+        data: {
+          weddingId,
+          milestoneId,
+          amount: body.amount,
+          paidDate: parseDateOnly(body.paidDate)!,
+          paymentMethod: body.paymentMethod?.trim() || null,
+          confirmationRef: body.confirmationRef?.trim() || null,
+          notes: body.notes?.trim() || null,
+        },
+      });
+
+      const [{ amount }, paid] = await Promise.all([
+        tx.paymentMilestone.findUniqueOrThrow({ where: { id: milestoneId } }),
+        tx.paymentTransaction.aggregate({ where: { milestoneId }, _sum: { amount: true } }),
+      ]);
+      const paidTotal = paid._sum.amount ?? 0;
+      if (paidTotal > amount) {
+        throw new OverpaymentError(amount - (paidTotal - body.amount));
+      }
+
+      return { payment, updated: await syncMilestonePayments(tx, milestoneId) };
+    });
+
+    return NextResponse.json(
+      { payment: serializePayment(payment), milestone: serializeMilestone(updated) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof OverpaymentError) {
+      return NextResponse.json(
+        {
+          error:
+            error.remaining > 0
+              ? error.message
+              : "This milestone is already paid in full",
+        },
+        { status: 400 }
+      );
+    }
+    console.error("Error recording payment:", error);
+    return NextResponse.json(
+      { error: "Failed to record payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  findMilestoneLinkError,
+  parseDateOnly,
+  serializeMilestone,
+  syncMilestonePayments,
+  validateMilestone,
+} from "@/lib/cash/server";
+import { venueToday } from "@/lib/cash/status";
+import type { Prisma } from "@prisma/client";
+import type { MilestoneUpdateRequest } from "@/types/cash";
 
 type RouteParams = {
   params: Promise<{ weddingId: string; milestoneId: string }>;
 };
 
 // PATCH /api/weddings/[weddingId]/milestones/[milestoneId]
-// Update a payment milestone (mark as paid, assign funding source, etc.)
+// Update a payment milestone (mark as paid, assign funding source, edit details, etc.)
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   const { weddingId, milestoneId } = await params;
 
   try {
-    const body = await request.json();
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as MilestoneUpdateRequest;
+
+    const invalid = validateMilestone(body, true) ?? (await findMilestoneLinkError(weddingId, body));
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
 
     // Verify the milestone belongs to this wedding
     const milestone = await prisma.paymentMilestone.findUnique({
       where: { id: milestoneId },
+      include: { wedding: { select: { venueTimezone: true } } },
     });
 
     if (!milestone) {
@@ -33,69 +53,73 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     // Build update data - handle both setting values and clearing them (null)
-    const updateData: any = {};
+    const updateData: Prisma.PaymentMilestoneUncheckedUpdateInput = {};
 
-    if (body.status !== undefined) {
-      updateData.status = body.status;
+    if (body.label !== undefined) {
+      updateData.label = body.label.trim();
     }
 
-    // Handle paidDate - can be set to a date or cleared with null
-    if (body.paidDate !== undefined) {
-      updateData.paidDate = body.paidDate === null ? null : new Date(body.paidDate);
+    if (body.amount !== undefined) {
+      updateData.amount = body.amount;
     }
 
-    // Handle paidAmount - can be set or cleared
-    if (body.paidAmount !== undefined) {
-      updateData.paidAmount = body.paidAmount;
+    if (body.dueDate !== undefined) {
+      updateData.dueDate = parseDateOnly(body.dueDate)!;
     }
 
-    // Handle paymentMethod - can be set or cleared
-    if (body.paymentMethod !== undefined) {
-      updateData.paymentMethod = body.paymentMethod;
+    if (body.categoryId !== undefined) {
+      updateData.categoryId = body.categoryId || null;
     }
 
-    // Handle confirmationRef - can be set or cleared
-    if (body.confirmationRef !== undefined) {
-      updateData.confirmationRef = body.confirmationRef;
+    if (body.contractId !== undefined) {
+      updateData.contractId = body.contractId || null;
     }
 
     if (body.fundingSourceId !== undefined) {
-      updateData.fundingSourceId = body.fundingSourceId;
+      updateData.fundingSourceId = body.fundingSourceId || null;
     }
 
     if (body.notes !== undefined) {
-      updateData.notes = body.notes;
+      updateData.notes = body.notes?.trim() || null;
     }
 
-    // If marking as paid and no paidAmount specified, use the full amount
-    if (body.status === "paid" && updateData.paidAmount === undefined) {
-      updateData.paidAmount = milestone.amount;
-    }
-
-    // If reverting to unpaid, determine correct status based on due date
-    if (body.status === "planned") {
-      const now = new Date();
-      const dueDate = new Date(milestone.dueDate);
-      // If due date is in the past, set to "due" instead of "planned"
-      if (dueDate < now) {
-        updateData.status = "due";
+    // Paid amounts, dates and methods are derived from the payments, and the
+    // status from those and the due date
+    const updatedMilestone = await prisma.$transaction(async (tx) => {
+      await tx.paymentMilestone.update({
+        where: { id: milestoneId },
+        data: updateData,
+      });
+
+      // Marking as paid records a payment for whatever is still owed
+      if (body.status === "paid") {
+        const paid = await tx.paymentTransaction.aggregate({
+          where: { milestoneId },
+          _sum: { amount: true },
+        });
+        const remaining = (body.amount ?? milestone.amount) - (paid._sum.amount ?? 0);
+        if (remaining > 0) {
+          await tx.paymentTransaction.create({
+            data: {
+              weddingId,
+              milestoneId,
+              amount: remaining,
+              paidDate: parseDateOnly(
+                body.paidDate || venueToday(milestone.wedding.venueTimezone)
+              )!,
+              paymentMethod: body.paymentMethod?.trim() || null,
+              confirmationRef: body.confirmationRef?.trim() || null,
+            },
+          });
+        }
       }
-    }
 
-    // Update the milestone
-    const updatedMilestone = await prisma.paymentMilestone.update({
-      where: { id: milestoneId },
-      data: updateData,
+      return syncMilestonePayments(tx, milestoneId);
     });
 
     return NextResponse.json({
       success: true,
-      milestone: {
-        id: updatedMilestone.id,
-        status: updatedMilestone.status,
-        paidDate: updatedMilestone.paidDate?.toISOString(),
-        paidAmount: updatedMilestone.paidAmount,
-      },
+      milestone: serializeMilestone(updatedMilestone),
     });
   } catch (error) {
     console.error("Error updating payment milestone:", error);
@@ -105,3 +129,53 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
+
+// DELETE /api/weddings/[weddingId]/milestones/[milestoneId]
+// Removes a payment milestone. One with recorded payments is refused until
+// they've been removed, so no money drops off the books.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, milestoneId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const milestone = await prisma.paymentMilestone.findUnique({
+      where: { id: milestoneId },
+    });
+
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Payment milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    if (milestone.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Milestone does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    // Only deleted while it has no payments, even if one is recorded meanwhile
+    const deleted = await prisma.paymentMilestone.deleteMany({
+      where: { id: milestoneId, payments: { none: {} } },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Remove this milestone's recorded payments before deleting it" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting payment milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to delete payment milestone" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  findMilestoneLinkError,
+  parseDateOnly,
+  serializeMilestone,
+  validateMilestone,
+} from "@/lib/cash/server";
+import type { MilestoneCreateRequest } from "@/types/cash";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/milestones
+// Schedules a payment. A payment on a contract defaults to the contract's category.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "budget:manage");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as MilestoneCreateRequest;
+
+    const invalid = validateMilestone(body, false) ?? (await findMilestoneLinkError(weddingId, body));
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    let categoryId = body.categoryId || null;
+    if (!categoryId && body.contractId) {
+      const contract = await prisma.contract.findUnique({ where: { id: body.contractId } });
+      categoryId = contract?.categoryId ?? null;
+    }
+
+    const milestone = await prisma.paymentMilestone.create({
+      data: {
+        weddingId,
+        label: body.label.trim(),
+        amount: body.amount,
+        dueDate: parseDateOnly(body.dueDate)!,
+        categoryId,
+        contractId: body.contractId || null,
+        fundingSourceId: body.fundingSourceId || null,
+        notes: body.notes?.trim() || null,
+      },
+    });
+
+    return NextResponse.json({ milestone: serializeMilestone(milestone) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating payment milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to create payment milestone" },
+      { status: 500 }
+    );
+  }
+}
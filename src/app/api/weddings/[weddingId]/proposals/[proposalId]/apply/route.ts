@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { accessToOwnerRef, requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  getFullTimeline,
+  publishPatchOps,
+  serializeProposal,
+} from "@/lib/timeline/server";
+import type { PatchOp, ProposalApplyRequest } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; proposalId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/proposals/[proposalId]/apply
+// Applies a proposal's patch operations to the official timeline
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, proposalId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as ProposalApplyRequest;
+
+    const proposal = await prisma.timelineProposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+
+    if (proposal.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Proposal does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    if (proposal.status === "applied" || proposal.status === "rejected") {
+      return NextResponse.json(
+        { error: `Proposal has already been ${proposal.status}` },
+        { status: 409 }
+      );
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    // The timeline moved on since the proposal was made - require an explicit review
+    const isStale = proposal.baseVersion !== wedding.timelineVersion;
+    if ((isStale || proposal.status === "needs_review") && !body.force) {
+      const flagged = await prisma.timelineProposal.update({
+        where: { id: proposalId },
+        data: { status: "needs_review" },
+      });
+      const currentTimeline = await getFullTimeline(weddingId, wedding);
+      return NextResponse.json(
+        {
+          error: "Proposal was made against an older timeline version and needs review",
+          proposal: serializeProposal(flagged),
+          currentVersion: wedding.timelineVersion,
+          ...currentTimeline,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Reviewers may accept a subset of the proposed ops
+    const proposedOps = JSON.parse(proposal.patchOps) as PatchOp[];
+    if (
+      body.opIndexes &&
+      body.opIndexes.some(
+        (index) => !Number.isInteger(index) || index < 0 || index >= proposedOps.length
+      )
+    ) {
+      return NextResponse.json({ error: "Invalid op index" }, { status: 400 });
+    }
+
+    const selectedIndexes = proposedOps
+      .map((_, index) => index)
+      .filter((index) => !body.opIndexes || body.opIndexes.includes(index));
+    const patchOps = selectedIndexes.map((index) => proposedOps[index]);
+
+    if (patchOps.length === 0) {
+      return NextResponse.json(
+        { error: "No operations selected - reject the proposal instead" },
+        { status: 400 }
+      );
+    }
+
+    const result = await publishPatchOps(
+      weddingId,
+      wedding,
+      patchOps,
+      { publishedBy: accessToOwnerRef(auth.access), source: "proposal", proposalId },
+      body.overrideLocks === true
+    );
+
+    if (!result.ok && result.reason === "conflict") {
+      return NextResponse.json(
+        { error: "The timeline changed while applying - please try again" },
+        { status: 409 }
+      );
+    }
+
+    if (!result.ok) {
+      // Report indexes relative to the full proposal, not the accepted subset
+      const opErrors = result.opErrors.map((opError) => ({
+        ...opError,
+        index: selectedIndexes[opError.index],
+      }));
+      return NextResponse.json(
+        { error: "Proposal contains invalid operations", opErrors },
+        { status: 422 }
+      );
+    }
+
+    const appliedProposal = await prisma.timelineProposal.update({
+      where: { id: proposalId },
+      data: {
+        status: "applied",
+        appliedAt: new Date(),
+        appliedById: auth.access.user.id,
+      },
+    });
+
+    const timeline = await getFullTimeline(weddingId, {
+      ...wedding,
+      timelineVersion: result.version,
+    });
+
+    return NextResponse.json({
+      proposal: serializeProposal(appliedProposal),
+      timeline,
+    });
+  } catch (error) {
+    console.error("Error applying proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to apply proposal" },
+      { status: 500 }
+    );
+  }
+}
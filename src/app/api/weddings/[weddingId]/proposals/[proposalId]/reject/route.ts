@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeProposal } from "@/lib/timeline/server";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; proposalId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/proposals/[proposalId]/reject
+// Rejects a proposal without touching the official timeline
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, proposalId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const proposal = await prisma.timelineProposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+
+    if (proposal.weddingId !== weddingId) {
+      return NextResponse.json(
+        { error: "Proposal does not belong to this wedding" },
+        { status: 403 }
+      );
+    }
+
+    if (proposal.status === "applied" || proposal.status === "rejected") {
+      return NextResponse.json(
+        { error: `Proposal has already been ${proposal.status}` },
+        { status: 409 }
+      );
+    }
+
+    const rejectedProposal = await prisma.timelineProposal.update({
+      where: { id: proposalId },
+      data: { status: "rejected" },
+    });
+
+    return NextResponse.json(serializeProposal(rejectedProposal));
+  } catch (error) {
+    console.error("Error rejecting proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to reject proposal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { accessToOwnerRef, requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeProposal } from "@/lib/timeline/server";
+import { canEditTimeline } from "@/types/wedding";
+import type { ProposalCreateRequest, ProposalStatus } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+const PROPOSAL_STATUSES: ProposalStatus[] = ["pending", "applied", "rejected", "needs_review"];
+
+// GET /api/weddings/[weddingId]/proposals
+// Lists timeline proposals, newest first. Optional ?status= filter.
+// Vendors only see their own proposals.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const { user, membership } = auth.access;
+    const isAdmin = canEditTimeline(membership.timelineRole);
+
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !PROPOSAL_STATUSES.includes(status as ProposalStatus)) {
+      return NextResponse.json({ error: "Invalid status filter" }, { status: 400 });
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const proposals = await prisma.timelineProposal.findMany({
+      where: {
+        weddingId,
+        ...(status && { status: status as ProposalStatus }),
+        ...(!isAdmin && { createdById: user.id }),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      currentVersion: wedding.timelineVersion,
+      proposals: proposals.map(serializeProposal),
+    });
+  } catch (error) {
+    console.error("Error fetching proposals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch proposals" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/weddings/[weddingId]/proposals
+// Submits a set of patch operations for review by a timeline admin
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:propose");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as ProposalCreateRequest;
+    const { baseVersion, patchOps, message } = body;
+
+    if (typeof baseVersion !== "number") {
+      return NextResponse.json({ error: "baseVersion is required" }, { status: 400 });
+    }
+
+    if (!Array.isArray(patchOps) || patchOps.length === 0) {
+      return NextResponse.json(
+        { error: "A proposal must contain at least one patch operation" },
+        { status: 400 }
+      );
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    // A proposal made against an older version can't be applied blindly
+    const status: ProposalStatus =
+      baseVersion === wedding.timelineVersion ? "pending" : "needs_review";
+
+    const createdBy = accessToOwnerRef(auth.access);
+    const proposal = await prisma.timelineProposal.create({
+      data: {
+        weddingId,
+        createdByType: createdBy.type,
+        createdById: createdBy.id,
+        createdByName: createdBy.displayName,
+        baseVersion,
+        patchOps: JSON.stringify(patchOps),
+        message: message?.trim() || null,
+        status,
+      },
+    });
+
+    return NextResponse.json(serializeProposal(proposal), { status: 201 });
+  } catch (error) {
+    console.error("Error creating proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to create proposal" },
+      { status: 500 }
+    );
+  }
+}
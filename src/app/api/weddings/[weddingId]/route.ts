@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DateTime } from "luxon";
+import type { Wedding as WeddingRecord } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { regenerateSunBands } from "@/lib/timeline/server";
+import type { Wedding, WeddingUpdateRequest } from "@/types/wedding";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+function serializeWedding(wedding: WeddingRecord): Wedding {
+  return {
+    id: wedding.id,
+    name: wedding.name,
+    weddingDate: wedding.weddingDate,
+    venueName: wedding.venueName ?? undefined,
+    venueAddress: wedding.venueAddress ?? undefined,
+    venueTimezone: wedding.venueTimezone,
+    lat: wedding.lat ?? undefined,
+    lng: wedding.lng ?? undefined,
+    timelineVersion: wedding.timelineVersion,
+    createdAt: wedding.createdAt.toISOString(),
+    updatedAt: wedding.updatedAt.toISOString(),
+  };
+}
+
+// Returns an error message, or null if the update is valid
+function validateWeddingUpdate(body: WeddingUpdateRequest): string | null {
+  if (body.name !== undefined && !body.name.trim()) {
+    return "Name cannot be empty";
+  }
+  if (
+    body.weddingDate !== undefined &&
+    !/^\d{4}-\d{2}-\d{2}$/.test(body.weddingDate)
+  ) {
+    return "weddingDate must be YYYY-MM-DD";
+  }
+  if (body.weddingDate !== undefined && !DateTime.fromISO(body.weddingDate).isValid) {
+    return "weddingDate is not a valid date";
+  }
+  if (
+    body.venueTimezone !== undefined &&
+    !DateTime.now().setZone(body.venueTimezone).isValid
+  ) {
+    return "venueTimezone must be an IANA timezone";
+  }
+  if (body.lat != null && (typeof body.lat !== "number" || Math.abs(body.lat) > 90)) {
+    return "lat must be between -90 and 90";
+  }
+  if (body.lng != null && (typeof body.lng !== "number" || Math.abs(body.lng) > 180)) {
+    return "lng must be between -180 and 180";
+  }
+  return null;
+}
+
+// GET /api/weddings/[weddingId]
+// Returns wedding details (date, venue, timezone, coordinates)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeWedding(wedding));
+  } catch (error) {
+    console.error("Error fetching wedding:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch wedding" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/weddings/[weddingId]
+// Updates wedding details. Sun bands are recomputed when the date or venue location changes.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "wedding:edit");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as WeddingUpdateRequest;
+
+    const validationError = validateWeddingUpdate(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.wedding.update({
+        where: { id: weddingId },
+        data: {
+          ...(body.name !== undefined && { name: body.name.trim() }),
+          ...(body.weddingDate !== undefined && { weddingDate: body.weddingDate }),
+          ...(body.venueName !== undefined && { venueName: body.venueName?.trim() || null }),
+          ...(body.venueAddress !== undefined && {
+            venueAddress: body.venueAddress?.trim() || null,
+          }),
+          ...(body.venueTimezone !== undefined && { venueTimezone: body.venueTimezone }),
+          ...(body.lat !== undefined && { lat: body.lat }),
+          ...(body.lng !== undefined && { lng: body.lng }),
+        },
+      });
+
+      const sunChanged =
+        result.weddingDate !== wedding.weddingDate ||
+        result.venueTimezone !== wedding.venueTimezone ||
+        result.lat !== wedding.lat ||
+        result.lng !== wedding.lng;
+
+      if (sunChanged) {
+        await regenerateSunBands(weddingId, result, tx);
+      }
+
+      return result;
+    });
+
+    return NextResponse.json(serializeWedding(updated));
+  } catch (error) {
+    console.error("Error updating wedding:", error);
+    return NextResponse.json(
+      { error: "Failed to update wedding" },
+      { status: 500 }
+    );
+  }
+}
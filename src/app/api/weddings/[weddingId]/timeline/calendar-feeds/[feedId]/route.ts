@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; feedId: string }>;
+};
+
+// DELETE /api/weddings/[weddingId]/timeline/calendar-feeds/[feedId]
+// Revokes one of the caller's calendar subscriptions; its URL stops working
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, feedId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const { count } = await prisma.timelineCalendarFeed.deleteMany({
+      where: { id: feedId, weddingId, userId: auth.access.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to delete calendar feed" },
+      { status: 500 }
+    );
+  }
+}
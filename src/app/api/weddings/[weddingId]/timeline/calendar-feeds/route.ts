@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { generateToken, hashToken } from "@/lib/auth/token";
+import { serializeCalendarFeed } from "@/lib/timeline/server";
+import type {
+  TimelineCalendarFeedCreateRequest,
+  TimelineCalendarFeedCreateResponse,
+  TimelineCalendarFeedsResponse,
+} from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/calendar-feeds
+// Lists the calendar subscriptions the caller has created
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const feeds = await prisma.timelineCalendarFeed.findMany({
+      where: { weddingId, userId: auth.access.user.id },
+      include: { lane: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const response: TimelineCalendarFeedsResponse = {
+      feeds: feeds.map(serializeCalendarFeed),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching calendar feeds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar feeds" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/weddings/[weddingId]/timeline/calendar-feeds
+// Creates a secret subscription URL, optionally for one lane and/or one assignee.
+// The URL is only returned here - only the token's hash is stored.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as TimelineCalendarFeedCreateRequest;
+    const laneId = body.laneId || null;
+    const assignedOwnerName =
+      typeof body.assignedOwnerName === "string" ? body.assignedOwnerName.trim() || null : null;
+
+    if (laneId) {
+      const lane = await prisma.timelineLane.findFirst({
+        where: { id: laneId, weddingId },
+      });
+      if (!lane) {
+        return NextResponse.json({ error: "Lane not found" }, { status: 400 });
+      }
+    }
+
+    const token = generateToken();
+    const feed = await prisma.timelineCalendarFeed.create({
+      data: {
+        weddingId,
+        userId: auth.access.user.id,
+        tokenHash: hashToken(token),
+        laneId,
+        assignedOwnerName,
+      },
+      include: { lane: { select: { name: true } } },
+    });
+
+    const response: TimelineCalendarFeedCreateResponse = {
+      feed: serializeCalendarFeed(feed),
+      feedUrl: `${request.nextUrl.origin}/api/calendar-feeds/${token}/timeline.ics`,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error creating calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to create calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { calendarResponse, loadTimelineCalendar } from "@/lib/timeline/server";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/calendar.ics
+// Downloads the official timeline as an ICS calendar for the signed-in member.
+// ?lane=<laneId> and ?owner=<assignedOwnerName> narrow it down. Calendar apps
+// can't send the session cookie - they subscribe through a calendar feed URL.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const calendar = await loadTimelineCalendar(wedding, {
+      laneId: searchParams.get("lane"),
+      assignedOwnerName: searchParams.get("owner"),
+    });
+
+    return calendarResponse(calendar, "timeline.ics");
+  } catch (error) {
+    console.error("Error exporting timeline calendar:", error);
+    return NextResponse.json(
+      { error: "Failed to export timeline calendar" },
+      { status: 500 }
+    );
+  }
+}
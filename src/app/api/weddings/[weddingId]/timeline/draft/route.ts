@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import type {
+  PatchOp,
+  TimelineDraftResponse,
+  TimelineDraftSaveRequest,
+  TimelineSnapshot,
+} from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/draft
+// Returns the caller's unpublished draft, with the timeline it was based on when
+// that version is in the history (so a stale draft can be rebased)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const draft = await prisma.timelineDraft.findUnique({
+      where: { weddingId_userId: { weddingId, userId: auth.access.user.id } },
+    });
+
+    if (!draft) {
+      const response: TimelineDraftResponse = { draft: null };
+      return NextResponse.json(response);
+    }
+
+    const baseVersion = await prisma.timelineVersion.findUnique({
+      where: { weddingId_version: { weddingId, version: draft.baseVersion } },
+      select: { snapshot: true },
+    });
+
+    const response: TimelineDraftResponse = {
+      draft: {
+        baseVersion: draft.baseVersion,
+        patchOps: JSON.parse(draft.patchOps) as PatchOp[],
+        updatedAt: draft.updatedAt.toISOString(),
+        base: baseVersion ? (JSON.parse(baseVersion.snapshot) as TimelineSnapshot) : null,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching timeline draft:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timeline draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/weddings/[weddingId]/timeline/draft
+// Saves (replaces) the caller's draft
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const { baseVersion, patchOps } = (await request.json()) as TimelineDraftSaveRequest;
+
+    if (!Number.isInteger(baseVersion) || baseVersion < 0) {
+      return NextResponse.json({ error: "baseVersion must be a version number" }, { status: 400 });
+    }
+
+    if (!Array.isArray(patchOps)) {
+      return NextResponse.json({ error: "patchOps must be an array" }, { status: 400 });
+    }
+
+    const userId = auth.access.user.id;
+    const draft = await prisma.timelineDraft.upsert({
+      where: { weddingId_userId: { weddingId, userId } },
+      create: { weddingId, userId, baseVersion, patchOps: JSON.stringify(patchOps) },
+      update: { baseVersion, patchOps: JSON.stringify(patchOps) },
+    });
+
+    return NextResponse.json({ updatedAt: draft.updatedAt.toISOString() });
+  } catch (error) {
+    console.error("Error saving timeline draft:", error);
+    return NextResponse.json(
+      { error: "Failed to save timeline draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/weddings/[weddingId]/timeline/draft
+// Throws away the caller's draft
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    await prisma.timelineDraft.deleteMany({
+      where: { weddingId, userId: auth.access.user.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting timeline draft:", error);
+    return NextResponse.json(
+      { error: "Failed to delete timeline draft" },
+      { status: 500 }
+    );
+  }
+}
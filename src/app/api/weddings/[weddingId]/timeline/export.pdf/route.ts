@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { loadTimelineSnapshot } from "@/lib/timeline/server";
+import { renderRunOfShowPdf } from "@/lib/timeline/run-of-show";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/export.pdf
+// Printable run-of-show of the official timeline.
+// ?pageBreak=lane puts each lane on its own page; ?vendor=<ownerId> keeps only
+// the lanes that vendor owns.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const pageBreak = searchParams.get("pageBreak");
+    const vendorId = searchParams.get("vendor");
+
+    if (pageBreak !== null && pageBreak !== "lane") {
+      return NextResponse.json(
+        { error: "pageBreak must be \"lane\" if given" },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await loadTimelineSnapshot(weddingId);
+
+    let laneIds: string[] | undefined;
+    let subtitle: string | undefined;
+    if (vendorId) {
+      const vendorLanes = snapshot.lanes.filter(
+        (lane) => lane.owner?.type === "vendor" && lane.owner.id === vendorId
+      );
+      if (vendorLanes.length === 0) {
+        return NextResponse.json(
+          { error: "No timeline lanes belong to that vendor" },
+          { status: 404 }
+        );
+      }
+      laneIds = vendorLanes.map((lane) => lane.id);
+      subtitle = `For ${vendorLanes[0].owner!.displayName}`;
+    }
+
+    const pdf = renderRunOfShowPdf(wedding, snapshot, {
+      pageBreakPerLane: pageBreak === "lane",
+      laneIds,
+      subtitle,
+    });
+
+    const filename = `${slugify(wedding.name) || "wedding"}-run-of-show.pdf`;
+    return new Response(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting timeline PDF:", error);
+    return NextResponse.json(
+      { error: "Failed to export timeline" },
+      { status: 500 }
+    );
+  }
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { selectTimelineEvent } from "@/lib/timeline/presence";
+import type { TimelinePresenceUpdateRequest } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// POST /api/weddings/[weddingId]/timeline/presence
+// Sets (or clears) the event the caller is editing, shown to others as a soft lock.
+// Calling again while still editing keeps the lock from timing out.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const { selectedEventId } = (await request.json()) as TimelinePresenceUpdateRequest;
+
+    if (selectedEventId !== null && typeof selectedEventId !== "string") {
+      return NextResponse.json(
+        { error: "selectedEventId must be an event id or null" },
+        { status: 400 }
+      );
+    }
+
+    const viewing = selectTimelineEvent(weddingId, auth.access.user.id, selectedEventId);
+    if (!viewing) {
+      return NextResponse.json(
+        { error: "Open the timeline stream before selecting events" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating timeline presence:", error);
+    return NextResponse.json(
+      { error: "Failed to update timeline presence" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { accessToOwnerRef, requireWeddingAccess } from "@/lib/auth/guard";
+import { subscribeToTimeline } from "@/lib/timeline/live";
+import { joinTimeline } from "@/lib/timeline/presence";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export const dynamic = "force-dynamic";
+
+// GET /api/weddings/[weddingId]/timeline/stream
+// Server-Sent Events: a "version" event with the applied ops after every publish,
+// and a "presence" event whenever viewers or their selected events change.
+// Keeping the stream open is what counts as viewing the timeline.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth.access;
+    const viewer = {
+      userId: user.id,
+      displayName: accessToOwnerRef(auth.access).displayName,
+      avatarUrl: user.avatarUrl,
+    };
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        const unsubscribe = subscribeToTimeline(weddingId, (event) => {
+          send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+        const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+        // Joining announces us to everyone, this connection included
+        const leave = joinTimeline(weddingId, viewer);
+
+        close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          leave();
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client
+          }
+        };
+        request.signal.addEventListener("abort", () => close());
+
+        // Reconnect a few seconds after a dropped connection
+        send("retry: 5000\n\n");
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error opening timeline stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open timeline stream" },
+      { status: 500 }
+    );
+  }
+}
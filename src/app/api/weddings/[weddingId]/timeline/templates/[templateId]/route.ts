@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; templateId: string }>;
+};
+
+// DELETE /api/weddings/[weddingId]/timeline/templates/[templateId]
+// Deletes one of the caller's saved templates (built-in ones can't be deleted)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, templateId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const { count } = await prisma.timelineTemplate.deleteMany({
+      where: { id: templateId, createdById: auth.access.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting timeline template:", error);
+    return NextResponse.json(
+      { error: "Failed to delete timeline template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { loadTimelineSnapshot, serializeTemplate } from "@/lib/timeline/server";
+import { BUILT_IN_TEMPLATES, templateFromTimeline } from "@/lib/timeline/templates";
+import type {
+  TimelineTemplate,
+  TimelineTemplateSaveRequest,
+  TimelineTemplatesResponse,
+} from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/templates
+// Lists the built-in templates and the ones the caller has saved
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const saved = await prisma.timelineTemplate.findMany({
+      where: { createdById: auth.access.user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const response: TimelineTemplatesResponse = {
+      templates: [...BUILT_IN_TEMPLATES, ...saved.map(serializeTemplate)],
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching timeline templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timeline templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/weddings/[weddingId]/timeline/templates
+// Saves the official timeline as a template, measured from the chosen anchor event
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const body = (await request.json()) as TimelineTemplateSaveRequest;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "Template name is required" }, { status: 400 });
+    }
+
+    const { lanes, events } = await loadTimelineSnapshot(weddingId);
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: "The timeline has no published events to save" },
+        { status: 400 }
+      );
+    }
+
+    const template = templateFromTimeline(lanes, events, body.anchorEventId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Anchor event not found on the published timeline" },
+        { status: 400 }
+      );
+    }
+
+    const anchorEvent = events.find((e) => e.id === body.anchorEventId)!;
+    const record = await prisma.timelineTemplate.create({
+      data: {
+        name,
+        description: body.description?.trim() || null,
+        anchorLabel: `${anchorEvent.title} start`,
+        lanes: JSON.stringify(template.lanes),
+        events: JSON.stringify(template.events),
+        createdById: auth.access.user.id,
+        sourceWeddingId: weddingId,
+      },
+    });
+
+    const saved: TimelineTemplate = serializeTemplate(record);
+    return NextResponse.json({ template: saved }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving timeline template:", error);
+    return NextResponse.json(
+      { error: "Failed to save timeline template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { accessToOwnerRef, requireWeddingAccess } from "@/lib/auth/guard";
+import {
+  getFullTimeline,
+  loadTimelineSnapshot,
+  publishPatchOps,
+} from "@/lib/timeline/server";
+import { diffTimelines } from "@/lib/timeline/diff";
+import type { TimelineRestoreRequest, TimelineSnapshot } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string; version: string }>;
+};
+
+// POST /api/weddings/[weddingId]/timeline/versions/[version]/restore
+// Publishes a new version that puts the timeline back the way it was at [version]
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { weddingId, version } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:publish");
+    if (!auth.ok) return auth.response;
+
+    const { baseVersion, overrideLocks } = (await request.json()) as TimelineRestoreRequest;
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const versionNumber = Number(version);
+    const target =
+      Number.isInteger(versionNumber) && versionNumber >= 0
+        ? await prisma.timelineVersion.findUnique({
+            where: { weddingId_version: { weddingId, version: versionNumber } },
+          })
+        : null;
+
+    if (!target) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    // Restoring from a stale screen could undo changes the user has not seen
+    if (wedding.timelineVersion !== baseVersion) {
+      return NextResponse.json(
+        {
+          error: "The timeline has changed since you opened the history - review it and try again",
+          currentVersion: wedding.timelineVersion,
+        },
+        { status: 409 }
+      );
+    }
+
+    const current = await loadTimelineSnapshot(weddingId);
+    const patchOps = diffTimelines(current, JSON.parse(target.snapshot) as TimelineSnapshot);
+
+    if (patchOps.length === 0) {
+      return NextResponse.json(
+        { error: `The timeline already matches version ${target.version}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await publishPatchOps(
+      weddingId,
+      wedding,
+      patchOps,
+      {
+        publishedBy: accessToOwnerRef(auth.access),
+        source: "restore",
+        restoredFromVersion: target.version,
+      },
+      overrideLocks === true
+    );
+
+    if (!result.ok && result.reason === "conflict") {
+      return NextResponse.json(
+        { error: "The timeline changed while restoring - please try again" },
+        { status: 409 }
+      );
+    }
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: "This version can no longer be restored", opErrors: result.opErrors },
+        { status: 422 }
+      );
+    }
+
+    const timeline = await getFullTimeline(weddingId, {
+      ...wedding,
+      timelineVersion: result.version,
+    });
+
+    return NextResponse.json(timeline);
+  } catch (error) {
+    console.error("Error restoring timeline version:", error);
+    return NextResponse.json(
+      { error: "Failed to restore timeline version" },
+      { status: 500 }
+    );
+  }
+}
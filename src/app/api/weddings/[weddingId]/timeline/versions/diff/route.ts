@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { diffTimelines } from "@/lib/timeline/diff";
+import type { TimelineSnapshot, TimelineVersionDiffResponse } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/versions/diff?from=14&to=15
+// Returns the patch ops that turn one recorded version into another
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const searchParams = request.nextUrl.searchParams;
+    const fromVersion = Number(searchParams.get("from"));
+    const toVersion = Number(searchParams.get("to"));
+
+    if (
+      !searchParams.has("from") ||
+      !searchParams.has("to") ||
+      !Number.isInteger(fromVersion) ||
+      !Number.isInteger(toVersion)
+    ) {
+      return NextResponse.json(
+        { error: "from and to must be version numbers" },
+        { status: 400 }
+      );
+    }
+
+    const versions = await prisma.timelineVersion.findMany({
+      where: { weddingId, version: { in: [fromVersion, toVersion] } },
+    });
+    const from = versions.find((v) => v.version === fromVersion);
+    const to = versions.find((v) => v.version === toVersion);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Version ${from ? toVersion : fromVersion} is not in the history` },
+        { status: 404 }
+      );
+    }
+
+    const before = JSON.parse(from.snapshot) as TimelineSnapshot;
+    const after = JSON.parse(to.snapshot) as TimelineSnapshot;
+
+    const response: TimelineVersionDiffResponse = {
+      fromVersion,
+      toVersion,
+      patchOps: diffTimelines(before, after),
+      before,
+      after,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error comparing timeline versions:", error);
+    return NextResponse.json(
+      { error: "Failed to compare timeline versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireWeddingAccess } from "@/lib/auth/guard";
+import { serializeTimelineVersion, VERSION_SUMMARY_SELECT } from "@/lib/timeline/server";
+import type { TimelineVersionsResponse } from "@/types/timeline";
+
+type RouteParams = {
+  params: Promise<{ weddingId: string }>;
+};
+
+// GET /api/weddings/[weddingId]/timeline/versions
+// Lists published timeline versions, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { weddingId } = await params;
+
+  try {
+    const auth = await requireWeddingAccess(weddingId, "timeline:read");
+    if (!auth.ok) return auth.response;
+
+    const wedding = await prisma.wedding.findUnique({
+      where: { id: weddingId },
+    });
+
+    if (!wedding) {
+      return NextResponse.json({ error: "Wedding not found" }, { status: 404 });
+    }
+
+    const versions = await prisma.timelineVersion.findMany({
+      where: { weddingId },
+      select: VERSION_SUMMARY_SELECT,
+      orderBy: { version: "desc" },
+    });
+
+    const response: TimelineVersionsResponse = {
+      currentVersion: wedding.timelineVersion,
+      versions: versions.map(serializeTimelineVersion),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching timeline versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timeline versions" },
+      { status: 500 }
+    );
+  }
+}
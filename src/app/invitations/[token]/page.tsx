@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/lib/auth/context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { TIMELINE_ROLE_LABELS, type InvitationDetails } from "@/types/wedding";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+export default function InvitationPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const router = useRouter();
+  const { user, isLoading: isAuthLoading, refreshSession } = useAuth();
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadInvitation = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/invitations/${token}`);
+      if (!res.ok) {
+        throw new Error(
+          res.status === 404 ? "This invitation link is not valid" : "Failed to load invitation"
+        );
+      }
+      setInvitation(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadInvitation();
+  }, [loadInvitation]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/invitations/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(user ? {} : { name, password }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error ?? "Failed to accept invitation");
+      }
+
+      await refreshSession();
+      router.replace(`/weddings/${data.weddingId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invitation");
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const signedInAsSomeoneElse = !!user && !!invitation && user.email !== invitation.email;
+  const needsSignIn = !user && !!invitation?.hasAccount;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>
+            {invitation ? `Join ${invitation.weddingName}` : "Invitation"}
+          </CardTitle>
+          {invitation && (
+            <CardDescription>
+              {invitation.invitedByName} invited {invitation.email} as{" "}
+              {TIMELINE_ROLE_LABELS[invitation.timelineRole].toLowerCase()}.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {invitation && invitation.status !== "pending" && (
+            <p className="text-sm text-muted-foreground">
+              This invitation is {invitation.status === "accepted" ? "already used" : invitation.status}.
+              Ask whoever invited you to send a new one.
+            </p>
+          )}
+
+          {invitation?.status === "pending" && signedInAsSomeoneElse && (
+            <p className="text-sm text-muted-foreground">
+              You&apos;re signed in as {user.email}. Sign in as {invitation.email} to accept.
+            </p>
+          )}
+
+          {invitation?.status === "pending" && needsSignIn && (
+            <Link href={`/login?next=${encodeURIComponent(`/invitations/${token}`)}`} prefetch={false}>
+              <Button className="w-full">Sign in to accept</Button>
+            </Link>
+          )}
+
+          {invitation?.status === "pending" && !signedInAsSomeoneElse && !needsSignIn && (
+            <form onSubmit={handleAccept} className="space-y-4">
+              {!user && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-name">Your Name</Label>
+                    <Input
+                      id="invite-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-password">Choose a Password</Label>
+                    <Input
+                      id="invite-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      minLength={8}
+                      required
+                    />
+                  </div>
+                </>
+              )}
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Accept Invitation
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
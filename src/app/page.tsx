@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { useAuth } from "@/lib/mock-auth";
+import { useAuth } from "@/lib/auth/context";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
@@ -15,9 +15,15 @@ export default function HomePage() {
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold">Wedding Planner</h1>
           <div className="flex items-center gap-4">
-            <span className="text-sm text-muted-foreground">
-              Signed in as: {user?.name}
-            </span>
+            {user ? (
+              <span className="text-sm text-muted-foreground">
+                Signed in as: {user.name}
+              </span>
+            ) : (
+              <Link href="/login" prefetch={false}>
+                <Button variant="outline" size="sm">Sign in</Button>
+              </Link>
+            )}
           </div>
         </div>
       </header>
@@ -1,7 +1,7 @@
 "use client";
 
 import { ReactNode, useEffect } from "react";
-import { AuthProvider } from "@/lib/mock-auth";
+import { AuthProvider } from "@/lib/auth/context";
 import { SidebarProvider } from "@/components/ui/sidebar";
 
 export function Providers({ children }: { children: ReactNode }) {
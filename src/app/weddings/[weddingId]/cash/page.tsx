@@ -1,15 +1,25 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useParams } from "next/navigation";
-import { useCanEditBudget } from "@/lib/mock-auth";
+import { useCanEditBudget } from "@/lib/auth/context";
 import { useCashManagement } from "@/hooks/useCashManagement";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { PaymentTable } from "@/components/cash/PaymentTable";
+import { FundingSourceDialog } from "@/components/cash/FundingSourceDialog";
+import { DeleteFundingSourceDialog } from "@/components/cash/DeleteFundingSourceDialog";
+import { MilestoneDialog } from "@/components/cash/MilestoneDialog";
+import { PaymentsDialog } from "@/components/cash/PaymentsDialog";
 import { formatCurrency } from "@/types/cash";
-import { Loader2, AlertCircle, AlertTriangle, Info } from "lucide-react";
+import type {
+  FundingSourceCreateRequest,
+  FundingSourceWithUsage,
+  MilestoneCreateRequest,
+  MilestoneWithDetails,
+} from "@/types/cash";
+import { Loader2, AlertCircle, AlertTriangle, Info, Pencil, Trash2 } from "lucide-react";
 
 export default function CashManagementPage() {
   const params = useParams();
@@ -22,12 +32,28 @@ export default function CashManagementPage() {
     error,
     refresh,
     markMilestonePaid,
-    markMilestoneUnpaid,
+    createFundingSource,
+    updateFundingSource,
+    deleteFundingSource,
+    createMilestone,
+    updateMilestone,
+    deleteMilestone,
+    addPayment,
+    deletePayment,
   } = useCashManagement(weddingId);
 
+  // null = closed, "new" = adding a source, otherwise the source being edited
+  const [fundingDialog, setFundingDialog] = useState<"new" | FundingSourceWithUsage | null>(null);
+  const [deletingSource, setDeletingSource] = useState<FundingSourceWithUsage | null>(null);
+  // Same for the payment dialog
+  const [milestoneDialog, setMilestoneDialog] = useState<"new" | MilestoneWithDetails | null>(null);
+  // Looked up by id so the dialog shows payments as they're recorded
+  const [paymentsForId, setPaymentsForId] = useState<string | null>(null);
+
   // Separate payments into unpaid and paid, and calculate totals
+  const milestones = data?.milestones;
   const { unpaidPayments, paidPayments, totalPaid, totalScheduled, totalRemaining } = useMemo(() => {
-    if (!data?.upcomingMilestones) {
+    if (!milestones) {
       return {
         unpaidPayments: [],
         paidPayments: [],
@@ -37,13 +63,13 @@ export default function CashManagementPage() {
       };
     }
 
-    const unpaid = data.upcomingMilestones.filter((p) => p.status !== "paid");
-    const paid = data.upcomingMilestones.filter((p) => p.status === "paid");
+    const unpaid = milestones.filter((p) => p.status !== "paid");
+    const paid = milestones.filter((p) => p.status === "paid");
 
-    // Calculate totals from actual payment data
-    const paidSum = paid.reduce((sum, p) => sum + p.amount, 0);
-    const unpaidSum = unpaid.reduce((sum, p) => sum + p.amount, 0);
-    const scheduledSum = paidSum + unpaidSum;
+    // Calculate totals from what has actually been paid, including partial payments
+    const paidSum = milestones.reduce((sum, p) => sum + (p.paidAmount ?? 0), 0);
+    const unpaidSum = unpaid.reduce((sum, p) => sum + p.remainingAmount, 0);
+    const scheduledSum = milestones.reduce((sum, p) => sum + p.amount, 0);
 
     return {
       unpaidPayments: unpaid,
@@ -52,20 +78,27 @@ export default function CashManagementPage() {
       totalScheduled: scheduledSum,
       totalRemaining: unpaidSum
     };
-  }, [data?.upcomingMilestones]);
+  }, [milestones]);
 
   // Count overdue payments
-  const overdueCount = useMemo(() => {
-    const now = new Date();
-    now.setHours(0, 0, 0, 0);
-    return unpaidPayments.filter((p) => {
-      const due = new Date(p.dueDate);
-      due.setHours(0, 0, 0, 0);
-      return due < now;
-    }).length;
-  }, [unpaidPayments]);
-
-  if (isLoading) {
+  const overdueCount = useMemo(
+    () => unpaidPayments.filter((p) => p.status === "late").length,
+    [unpaidPayments]
+  );
+
+  if (!canEdit) {
+    return (
+      <Card className="bg-muted/50">
+        <CardContent className="pt-6">
+          <p className="text-sm text-muted-foreground text-center">
+            Only the couple can access cash management.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading && !data) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -74,7 +107,7 @@ export default function CashManagementPage() {
     );
   }
 
-  if (error) {
+  if (error && !data) {
     return (
       <div className="p-4">
         <Alert variant="destructive">
@@ -117,6 +150,20 @@ export default function CashManagementPage() {
     return severity === "error" ? "destructive" : "default";
   };
 
+  const handleSaveFundingSource = async (values: FundingSourceCreateRequest) => {
+    if (fundingDialog === "new") return createFundingSource(values);
+    if (fundingDialog) return updateFundingSource(fundingDialog.id, values);
+    return false;
+  };
+
+  const paymentsFor = data.milestones.find((m) => m.id === paymentsForId) ?? null;
+
+  const handleSaveMilestone = async (values: MilestoneCreateRequest) => {
+    if (milestoneDialog === "new") return createMilestone(values);
+    if (milestoneDialog) return updateMilestone(milestoneDialog.id, values);
+    return false;
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -129,12 +176,23 @@ export default function CashManagementPage() {
         </div>
         {canEdit && (
           <div className="flex gap-2">
-            <Button variant="outline">Add Funding Source</Button>
-            <Button>Add Payment</Button>
+            <Button variant="outline" onClick={() => setFundingDialog("new")}>
+              Add Funding Source
+            </Button>
+            <Button onClick={() => setMilestoneDialog("new")}>Add Payment</Button>
           </div>
         )}
       </div>
 
+      {/* Errors from saving changes; load errors replace the page above */}
+      {error && !fundingDialog && !deletingSource && !milestoneDialog && !paymentsFor && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Alerts */}
       {data.alerts.length > 0 && (
         <div className="space-y-2">
@@ -142,7 +200,19 @@ export default function CashManagementPage() {
             <Alert key={index} variant={getAlertVariant(alert.severity)}>
               {getAlertIcon(alert.severity)}
               <AlertTitle>{alert.title}</AlertTitle>
-              <AlertDescription>{alert.message}</AlertDescription>
+              <AlertDescription>
+                {alert.message}
+                {alert.relatedType === "milestone" && alert.relatedId && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto justify-self-start p-0"
+                    onClick={() => setPaymentsForId(alert.relatedId!)}
+                  >
+                    Record a payment
+                  </Button>
+                )}
+              </AlertDescription>
             </Alert>
           ))}
         </div>
@@ -231,9 +301,31 @@ export default function CashManagementPage() {
                   <div key={source.id} className="space-y-2">
                     <div className="flex items-center justify-between">
                       <span className="font-medium">{source.name}</span>
-                      <span className="text-sm text-muted-foreground">
-                        {formatCurrency(source.assignedAmount)} / {formatCurrency(source.committedAmount)}
-                      </span>
+                      <div className="flex items-center gap-1">
+                        <span className="text-sm text-muted-foreground">
+                          {formatCurrency(source.assignedAmount)} / {formatCurrency(source.committedAmount)}
+                        </span>
+                        {canEdit && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setFundingDialog(source)}
+                              title="Edit funding source"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingSource(source)}
+                              title="Delete funding source"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
                     </div>
                     <div className="h-2 bg-muted rounded-full overflow-hidden">
                       <div
@@ -274,7 +366,7 @@ export default function CashManagementPage() {
             </div>
             <div className="text-right">
               <p className="text-2xl font-bold">
-                {formatCurrency(unpaidPayments.reduce((sum, p) => sum + p.amount, 0))}
+                {formatCurrency(totalRemaining)}
               </p>
               <p className="text-xs text-muted-foreground">
                 {unpaidPayments.length} payment{unpaidPayments.length !== 1 ? "s" : ""}
@@ -288,6 +380,8 @@ export default function CashManagementPage() {
             variant="unpaid"
             canEdit={canEdit}
             onToggleStatus={markMilestonePaid}
+            onEdit={setMilestoneDialog}
+            onRecordPayment={(payment) => setPaymentsForId(payment.id)}
           />
         </CardContent>
       </Card>
@@ -304,7 +398,7 @@ export default function CashManagementPage() {
                 </span>
               </CardTitle>
               <CardDescription>
-                Completed payments - click to revert if needed
+                Completed payments - remove a payment to reopen one
               </CardDescription>
             </div>
             <div className="text-right">
@@ -322,7 +416,13 @@ export default function CashManagementPage() {
             payments={paidPayments}
             variant="paid"
             canEdit={canEdit}
-            onToggleStatus={markMilestoneUnpaid}
+            onToggleStatus={async (milestoneId) => {
+              // Unpaying means removing specific payments, from the payment history
+              setPaymentsForId(milestoneId);
+              return true;
+            }}
+            onEdit={setMilestoneDialog}
+            onRecordPayment={(payment) => setPaymentsForId(payment.id)}
           />
         </CardContent>
       </Card>
@@ -366,16 +466,48 @@ export default function CashManagementPage() {
         </CardContent>
       </Card>
 
-      {/* Permissions Info */}
-      {!canEdit && (
-        <Card className="bg-muted/50">
-          <CardContent className="pt-6">
-            <p className="text-sm text-muted-foreground text-center">
-              You have view-only access to cash management.
-              Only the couple can edit budget information.
-            </p>
-          </CardContent>
-        </Card>
+      {fundingDialog && (
+        <FundingSourceDialog
+          fundingSource={fundingDialog === "new" ? undefined : fundingDialog}
+          error={error}
+          onClose={() => setFundingDialog(null)}
+          onSave={handleSaveFundingSource}
+        />
+      )}
+
+      {paymentsFor && (
+        <PaymentsDialog
+          milestone={paymentsFor}
+          error={error}
+          onClose={() => setPaymentsForId(null)}
+          onAdd={(payment) => addPayment(paymentsFor.id, payment)}
+          onDelete={(paymentId) => deletePayment(paymentsFor.id, paymentId)}
+        />
+      )}
+
+      {milestoneDialog && (
+        <MilestoneDialog
+          milestone={milestoneDialog === "new" ? undefined : milestoneDialog}
+          categories={data.categories}
+          contracts={data.contracts}
+          fundingSources={data.fundingSources}
+          error={error}
+          onClose={() => setMilestoneDialog(null)}
+          onSave={handleSaveMilestone}
+          onDelete={
+            milestoneDialog === "new" ? undefined : () => deleteMilestone(milestoneDialog.id)
+          }
+        />
+      )}
+
+      {deletingSource && (
+        <DeleteFundingSourceDialog
+          fundingSource={deletingSource}
+          otherSources={data.fundingSources.filter((fs) => fs.id !== deletingSource.id)}
+          error={error}
+          onClose={() => setDeletingSource(null)}
+          onDelete={(reassignTo) => deleteFundingSource(deletingSource.id, reassignTo)}
+        />
       )}
     </div>
   );
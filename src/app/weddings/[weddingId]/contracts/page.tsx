@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import { useCanEditBudget } from "@/lib/auth/context";
+import { useContracts } from "@/hooks/useContracts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ContractDialog } from "@/components/cash/ContractDialog";
+import { formatCurrency, formatDate } from "@/types/cash";
+import type { ContractCreateRequest, ContractWithSchedule } from "@/types/cash";
+import { Loader2, AlertCircle, AlertTriangle, Pencil, Trash2 } from "lucide-react";
+
+export default function ContractsPage() {
+  const params = useParams();
+  const weddingId = params.weddingId as string;
+  const canEdit = useCanEditBudget();
+
+  const { data, isLoading, error, refresh, createContract, updateContract, deleteContract } =
+    useContracts(weddingId);
+
+  // null = closed, "new" = adding a contract, otherwise the contract being edited
+  const [dialog, setDialog] = useState<"new" | ContractWithSchedule | null>(null);
+
+  if (!canEdit) {
+    return (
+      <Card className="bg-muted/50">
+        <CardContent className="pt-6">
+          <p className="text-sm text-muted-foreground text-center">
+            Only the couple can access vendor contracts.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Loading contracts...</span>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="p-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {error ?? "No contract data available"}
+            <button
+              onClick={refresh}
+              className="ml-2 underline hover:no-underline"
+            >
+              Try again
+            </button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const mismatched = data.contracts.filter((c) => c.scheduleMismatch);
+  const totalContracted = data.contracts.reduce((sum, c) => sum + c.totalAmount, 0);
+
+  const handleSave = async (values: ContractCreateRequest) => {
+    if (dialog === "new") return createContract(values);
+    // The dialog only asks for a schedule when adding, so it's null here
+    if (dialog) return updateContract(dialog.id, values);
+    return false;
+  };
+
+  const handleDelete = async (contract: ContractWithSchedule) => {
+    // Matches the API: only payments with nothing paid toward them are removed
+    const unpaid = contract.milestones.filter((m) => !m.paidAmount).length;
+    const message =
+      unpaid > 0
+        ? `Delete the ${contract.vendorName} contract and its ${unpaid} unpaid payment${unpaid !== 1 ? "s" : ""}? Payments with money recorded against them are kept.`
+        : `Delete the ${contract.vendorName} contract?`;
+    if (!confirm(message)) return;
+    await deleteContract(contract.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Contracts</h1>
+          <p className="text-muted-foreground">
+            {data.contracts.length} vendor contract{data.contracts.length !== 1 ? "s" : ""} ·{" "}
+            {formatCurrency(totalContracted)} total
+          </p>
+        </div>
+        <Button onClick={() => setDialog("new")}>Add Contract</Button>
+      </div>
+
+      {error && !dialog && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {mismatched.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Payment schedules don&apos;t match</AlertTitle>
+          <AlertDescription>
+            {mismatched.length} contract{mismatched.length !== 1 ? "s have" : " has"} payments
+            that don&apos;t add up to the contract total:{" "}
+            {mismatched.map((c) => c.vendorName).join(", ")}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data.contracts.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground text-center py-4">
+              No contracts added yet
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        data.contracts.map((contract) => {
+          const difference = contract.scheduledAmount - contract.totalAmount;
+
+          return (
+            <Card key={contract.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {contract.vendorName}
+                      {contract.categoryName && (
+                        <Badge variant="secondary">{contract.categoryName}</Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {[contract.vendorContact, contract.vendorEmail, contract.vendorPhone]
+                        .filter(Boolean)
+                        .join(" · ") || "No contact details"}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-start gap-1">
+                    <div className="text-right mr-2">
+                      <p className="text-2xl font-bold">{formatCurrency(contract.totalAmount)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {contract.signedDate
+                          ? `Signed ${formatDate(contract.signedDate, "UTC")}`
+                          : "Not signed"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDialog(contract)}
+                      title="Edit contract"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(contract)}
+                      title="Delete contract"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {contract.scheduleMismatch && (
+                  <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 p-2 rounded">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    Payments add up to {formatCurrency(contract.scheduledAmount)},{" "}
+                    {formatCurrency(Math.abs(difference))} {difference < 0 ? "short of" : "over"} the
+                    contract total
+                  </div>
+                )}
+
+                {contract.milestones.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No payments scheduled</p>
+                ) : (
+                  <ul className="text-sm divide-y rounded border">
+                    {contract.milestones.map((milestone) => (
+                      <li key={milestone.id} className="flex items-center justify-between px-3 py-2">
+                        <span>{milestone.label}</span>
+                        <span className="flex items-center gap-3">
+                          <span className="text-muted-foreground">
+                            Due {formatDate(milestone.dueDate, "UTC")}
+                          </span>
+                          <span className="font-medium w-24 text-right">
+                            {formatCurrency(milestone.amount)}
+                          </span>
+                          <Badge
+                            variant={
+                              milestone.status === "paid"
+                                ? "default"
+                                : milestone.status === "late"
+                                  ? "destructive"
+                                  : "outline"
+                            }
+                          >
+                            {milestone.status}
+                          </Badge>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {contract.notes && (
+                  <p className="text-sm text-muted-foreground">{contract.notes}</p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {dialog && (
+        <ContractDialog
+          contract={dialog === "new" ? undefined : dialog}
+          categories={data.categories}
+          weddingDate={data.weddingDate}
+          error={error}
+          onClose={() => setDialog(null)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
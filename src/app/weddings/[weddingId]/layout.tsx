@@ -1,8 +1,9 @@
 "use client";
 
+import { useEffect } from "react";
 import { useParams, usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
-import { useAuth, MOCK_USERS } from "@/lib/mock-auth";
+import { useAuth } from "@/lib/auth/context";
 import {
   Sidebar,
   SidebarContent,
@@ -33,6 +34,8 @@ const NAV_ITEMS = [
   { title: "Overview", href: "", icon: "home" },
   { title: "Day-of Timeline", href: "/timeline", icon: "calendar" },
   { title: "Cash Management", href: "/cash", icon: "dollar" },
+  { title: "Contracts", href: "/contracts", icon: "document" },
+  { title: "People", href: "/people", icon: "users" },
 ];
 
 // Simple icon components
@@ -60,6 +63,22 @@ function DollarIcon() {
   );
 }
 
+function DocumentIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  );
+}
+
+function UsersIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+    </svg>
+  );
+}
+
 function UserIcon() {
   return (
     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -72,6 +91,8 @@ const ICONS: Record<string, () => React.ReactElement> = {
   home: HomeIcon,
   calendar: CalendarIcon,
   dollar: DollarIcon,
+  document: DocumentIcon,
+  users: UsersIcon,
 };
 
 export default function WeddingLayout({
@@ -82,10 +103,32 @@ export default function WeddingLayout({
   const params = useParams();
   const pathname = usePathname();
   const weddingId = params.weddingId as string;
-  const { user, timelineRole, budgetRole, switchUser } = useAuth();
+  const router = useRouter();
+  const {
+    user,
+    timelineRole,
+    budgetRole,
+    isLoading,
+    canImpersonate,
+    impersonationUsers,
+    switchUser,
+    signOut,
+  } = useAuth();
 
   const basePath = `/weddings/${weddingId}`;
 
+  // Send signed-out visitors to the login page, then back here
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [isLoading, user, pathname, router]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.replace("/login");
+  };
+
   return (
     <>
       <Sidebar>
@@ -159,21 +202,32 @@ export default function WeddingLayout({
                   </SidebarMenuButton>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="start" className="w-56">
-                  <DropdownMenuLabel>Switch User (Dev)</DropdownMenuLabel>
-                  <DropdownMenuSeparator />
-                  {Object.entries(MOCK_USERS).map(([key, mockUser]) => (
-                    <DropdownMenuItem
-                      key={key}
-                      onClick={() => switchUser(key as keyof typeof MOCK_USERS)}
-                    >
-                      <div className="flex flex-col">
-                        <span>{mockUser.name}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {mockUser.timelineRole.replace(/_/g, " ")}
-                        </span>
-                      </div>
-                    </DropdownMenuItem>
-                  ))}
+                  {canImpersonate && (
+                    <>
+                      <DropdownMenuLabel>Switch User (Dev)</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {impersonationUsers.map((devUser) => {
+                        const devMembership = devUser.memberships.find(
+                          (m) => m.weddingId === weddingId
+                        );
+                        return (
+                          <DropdownMenuItem
+                            key={devUser.id}
+                            onClick={() => switchUser(devUser.id)}
+                          >
+                            <div className="flex flex-col">
+                              <span>{devUser.name}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {devMembership?.timelineRole.replace(/_/g, " ") ?? "Not a member"}
+                              </span>
+                            </div>
+                          </DropdownMenuItem>
+                        );
+                      })}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  <DropdownMenuItem onClick={handleSignOut}>Sign out</DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </SidebarMenuItem>
@@ -198,7 +252,10 @@ export default function WeddingLayout({
             All times: America/New_York (Venue)
           </div>
         </header>
-        <main className="flex-1 overflow-auto p-6">{children}</main>
+        {/* Remount on user switch so pages refetch with the new identity */}
+        <main key={user?.id} className="flex-1 overflow-auto p-6">
+          {user ? children : null}
+        </main>
       </SidebarInset>
     </>
   );
@@ -1,23 +1,22 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
+import { useCanEditTimeline } from "@/lib/auth/context";
+import { useWedding } from "@/hooks/useWedding";
+import { VenueDialog } from "@/components/wedding/VenueDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Loader2, Pencil } from "lucide-react";
 
 export default function WeddingOverviewPage() {
   const params = useParams();
   const weddingId = params.weddingId as string;
-
-  // Demo data - will be replaced with real data from database
-  const wedding = {
-    name: "Sarah & John's Wedding",
-    weddingDate: "2026-10-17",
-    venueName: "The Grand Estate",
-    venueAddress: "123 Wedding Lane, New York, NY",
-    venueTimezone: "America/New_York",
-  };
+  const canEdit = useCanEditTimeline();
+  const { wedding, isLoading, error, updateWedding } = useWedding(weddingId);
+  const [isEditingVenue, setIsEditingVenue] = useState(false);
 
   const stats = {
     timelineEvents: 12,
@@ -27,6 +26,23 @@ export default function WeddingOverviewPage() {
     daysUntilWedding: 289,
   };
 
+  if (isLoading && !wedding) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Loading wedding...</span>
+      </div>
+    );
+  }
+
+  if (!wedding) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">{error ?? "Wedding not found"}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Wedding Header */}
@@ -49,8 +65,19 @@ export default function WeddingOverviewPage() {
 
       {/* Venue Info */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Venue</CardTitle>
+          {canEdit && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setIsEditingVenue(true)}
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
@@ -59,6 +86,11 @@ export default function WeddingOverviewPage() {
             <p className="text-sm text-muted-foreground">
               Timezone: {wedding.venueTimezone}
             </p>
+            <p className="text-sm text-muted-foreground">
+              {wedding.lat !== undefined && wedding.lng !== undefined
+                ? `Coordinates: ${wedding.lat.toFixed(4)}, ${wedding.lng.toFixed(4)}`
+                : "Add coordinates to show golden hour and sunset on the timeline"}
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -154,6 +186,15 @@ export default function WeddingOverviewPage() {
           </CardContent>
         </Card>
       </div>
+
+      {isEditingVenue && (
+        <VenueDialog
+          wedding={wedding}
+          error={error}
+          onClose={() => setIsEditingVenue(false)}
+          onSave={updateWedding}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import { useAuth, useCanEditBudget, useCanEditTimeline } from "@/lib/auth/context";
+import { usePeople } from "@/hooks/usePeople";
+import { MemberDialog, type MemberFormValues } from "@/components/people/MemberDialog";
+import { MemberTable } from "@/components/people/MemberTable";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  BUDGET_ROLE_LABELS,
+  TIMELINE_ROLE_LABELS,
+  type MembershipAuditAction,
+  type MembershipAuditEntry,
+  type User,
+  type WeddingMembership,
+} from "@/types/wedding";
+import { Loader2, AlertCircle, Mail, UserPlus, X } from "lucide-react";
+
+type Member = WeddingMembership & { user: User };
+
+const AUDIT_VERBS: Record<MembershipAuditAction, string> = {
+  invitation_sent: "invited",
+  invitation_revoked: "cancelled the invitation for",
+  invitation_accepted: "accepted an invitation as",
+  role_changed: "changed the roles of",
+  access_revoked: "revoked access for",
+};
+
+// Format date for display
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function describeAuditEntry(entry: MembershipAuditEntry): string {
+  const roles = [
+    entry.timelineRole && TIMELINE_ROLE_LABELS[entry.timelineRole],
+    entry.budgetRole && entry.budgetRole !== "NONE" && BUDGET_ROLE_LABELS[entry.budgetRole],
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  if (entry.action === "invitation_accepted") {
+    return `${entry.subjectEmail} joined${roles ? ` as ${roles}` : ""}`;
+  }
+  return `${entry.actor.name} ${AUDIT_VERBS[entry.action]} ${entry.subjectEmail}${
+    roles ? ` (${roles})` : ""
+  }`;
+}
+
+export default function PeoplePage() {
+  const params = useParams();
+  const weddingId = params.weddingId as string;
+  const { user } = useAuth();
+  const canManage = useCanEditTimeline();
+  const canGrantBudget = useCanEditBudget();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refresh,
+    invite,
+    updateMember,
+    revokeMember,
+    revokeInvitation,
+  } = usePeople(weddingId);
+
+  // null = closed, "invite" = new invitation, otherwise the member being edited
+  const [dialog, setDialog] = useState<"invite" | Member | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  if (!canManage) {
+    return (
+      <Card className="bg-muted/50">
+        <CardContent className="pt-6">
+          <p className="text-sm text-muted-foreground text-center">
+            Only the couple and planner can manage who has access to this wedding.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Loading people...</span>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (values: MemberFormValues): Promise<boolean> => {
+    if (dialog === "invite") {
+      const result = await invite({
+        email: values.email,
+        timelineRole: values.timelineRole,
+        budgetRole: values.budgetRole,
+        vendorName: values.vendorName || undefined,
+        vendorType: values.vendorType || undefined,
+      });
+      setInviteUrl(result?.inviteUrl ?? null);
+      return !!result;
+    }
+
+    if (dialog) {
+      return updateMember(dialog.id, {
+        timelineRole: values.timelineRole,
+        budgetRole: values.budgetRole,
+        vendorName: values.vendorName || null,
+        vendorType: values.vendorType || null,
+      });
+    }
+
+    return false;
+  };
+
+  const handleRevokeMember = async (member: Member) => {
+    if (!confirm(`Remove ${member.user.name} from this wedding?`)) return;
+    await revokeMember(member.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">People</h1>
+          <p className="text-muted-foreground">
+            Invite planners, vendors and family, and control what they can do
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => setDialog("invite")}>
+          <UserPlus className="h-4 w-4" />
+          Invite
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {error}
+            <button onClick={refresh} className="ml-2 underline hover:no-underline">
+              Reload
+            </button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {inviteUrl && (
+        <Alert>
+          <Mail className="h-4 w-4" />
+          <AlertTitle>Invitation sent</AlertTitle>
+          <AlertDescription>
+            <span className="break-all">
+              Dev mail delivered this link: <code>{inviteUrl}</code>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            {data?.members.length ?? 0} people have access to this wedding
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MemberTable
+            members={data?.members ?? []}
+            currentUserId={user?.id}
+            onEdit={(member) => setDialog(member)}
+            onRevoke={handleRevokeMember}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Pending invitations */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Invitations</CardTitle>
+          <CardDescription>Invitations that haven&apos;t been accepted yet</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!data?.invitations.length ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No pending invitations
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-4 rounded border p-3"
+                >
+                  <div>
+                    <p className="text-sm font-medium">{invitation.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {TIMELINE_ROLE_LABELS[invitation.timelineRole]} · invited by{" "}
+                      {invitation.invitedBy.name} · expires {formatDate(invitation.expiresAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => revokeInvitation(invitation.id)}
+                  >
+                    <X className="h-4 w-4" />
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit log */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Access History</CardTitle>
+          <CardDescription>Who granted or removed which roles</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!data?.audit.length ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No changes recorded yet
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.audit.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between gap-4 text-sm border-b pb-2 last:border-0"
+                >
+                  <span>{describeAuditEntry(entry)}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {formatDate(entry.createdAt)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dialog && (
+        <MemberDialog
+          member={dialog === "invite" ? undefined : dialog}
+          canGrantBudget={canGrantBudget}
+          onClose={() => setDialog(null)}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </div>
+  );
+}
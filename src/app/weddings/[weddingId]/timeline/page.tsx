@@ -1,7 +1,7 @@
 "use client";
 
 import { useParams } from "next/navigation";
-import { useCanEditTimeline } from "@/lib/mock-auth";
+import { useCanEditTimeline } from "@/lib/auth/context";
 import { TimelineView } from "@/components/timeline/TimelineView";
 
 export default function TimelinePage() {
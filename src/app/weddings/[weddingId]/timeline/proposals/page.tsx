@@ -0,0 +1,30 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useCanEditTimeline } from "@/lib/auth/context";
+import { ProposalReviewView } from "@/components/timeline/ProposalReviewView";
+import { Card, CardContent } from "@/components/ui/card";
+
+export default function ProposalReviewPage() {
+  const params = useParams();
+  const weddingId = params.weddingId as string;
+  const canEdit = useCanEditTimeline();
+
+  if (!canEdit) {
+    return (
+      <Card className="bg-muted/50">
+        <CardContent className="pt-6">
+          <p className="text-sm text-muted-foreground text-center">
+            Only the couple and planner can review timeline proposals.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="h-[calc(100vh-120px)]">
+      <ProposalReviewView weddingId={weddingId} />
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useState } from "react";
+import { DateTime } from "luxon";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { generatePaymentSchedule, validatePaymentSchedule, MAX_INSTALLMENTS } from "@/lib/cash/schedule";
+import { DEFAULT_PAYMENT_SCHEDULE, formatCurrency, formatDate } from "@/types/cash";
+import type { BudgetCategory, Contract, ContractCreateRequest } from "@/types/cash";
+import { Loader2 } from "lucide-react";
+
+// Select items can't have an empty value
+const NO_CATEGORY = "none";
+
+type ContractDialogProps = {
+  // Editing an existing contract when set, otherwise adding a new one
+  contract?: Contract;
+  categories: BudgetCategory[];
+  weddingDate: string;
+  error: string | null;
+  onClose: () => void;
+  onSave: (values: ContractCreateRequest) => Promise<boolean>;
+};
+
+export function ContractDialog({
+  contract,
+  categories,
+  weddingDate,
+  error,
+  onClose,
+  onSave,
+}: ContractDialogProps) {
+  const [vendorName, setVendorName] = useState(contract?.vendorName ?? "");
+  const [vendorContact, setVendorContact] = useState(contract?.vendorContact ?? "");
+  const [vendorEmail, setVendorEmail] = useState(contract?.vendorEmail ?? "");
+  const [vendorPhone, setVendorPhone] = useState(contract?.vendorPhone ?? "");
+  const [categoryId, setCategoryId] = useState(contract?.categoryId ?? NO_CATEGORY);
+  const [total, setTotal] = useState(
+    contract ? (contract.totalAmount / 100).toFixed(2) : ""
+  );
+  const [signedDate, setSignedDate] = useState(contract?.signedDate ?? "");
+  const [notes, setNotes] = useState(contract?.notes ?? "");
+
+  // Payment schedule, only when adding a contract
+  const [generateSchedule, setGenerateSchedule] = useState(!contract);
+  const [depositPercent, setDepositPercent] = useState(
+    String(DEFAULT_PAYMENT_SCHEDULE.depositPercent)
+  );
+  const [installmentCount, setInstallmentCount] = useState(
+    String(DEFAULT_PAYMENT_SCHEDULE.installmentCount)
+  );
+  const [balanceDaysBefore, setBalanceDaysBefore] = useState(
+    String(DEFAULT_PAYMENT_SCHEDULE.balanceDaysBefore)
+  );
+
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totalAmount = Math.round(Number(total) * 100);
+  const totalValid = total.trim() !== "" && Number.isFinite(totalAmount) && totalAmount >= 0;
+
+  const schedule = {
+    depositPercent: Number(depositPercent),
+    installmentCount: Number(installmentCount),
+    balanceDaysBefore: Number(balanceDaysBefore),
+  };
+  const scheduleError = generateSchedule ? validatePaymentSchedule(schedule) : null;
+
+  // Same schedule the API will save; the deposit is due on signing, or today
+  const preview =
+    !contract && generateSchedule && totalValid && !scheduleError
+      ? generatePaymentSchedule(totalAmount, schedule, {
+          labelPrefix: vendorName.trim() || "Vendor",
+          startDate: signedDate || DateTime.now().toISODate()!,
+          weddingDate,
+        })
+      : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!totalValid) {
+      setFormError("Enter the contract total in dollars");
+      return;
+    }
+    if (scheduleError) {
+      setFormError(scheduleError);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave({
+      vendorName: vendorName.trim(),
+      vendorContact: vendorContact.trim(),
+      vendorEmail: vendorEmail.trim(),
+      vendorPhone: vendorPhone.trim(),
+      categoryId: categoryId === NO_CATEGORY ? null : categoryId,
+      totalAmount,
+      signedDate: signedDate || null,
+      notes: notes.trim(),
+      schedule: !contract && generateSchedule ? schedule : null,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{contract ? `Edit ${contract.vendorName}` : "Add Contract"}</DialogTitle>
+            <DialogDescription>
+              {contract
+                ? "Changing the total doesn't change the payment schedule - edit the payments to match."
+                : "Vendor details, the contract total and how the payments are spread out."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {(formError || error) && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {formError || error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="contract-vendor">Vendor *</Label>
+                <Input
+                  id="contract-vendor"
+                  value={vendorName}
+                  onChange={(e) => setVendorName(e.target.value)}
+                  placeholder="e.g., Bloom & Petal"
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contract-category">Budget Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger id="contract-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="contract-contact">Contact</Label>
+                <Input
+                  id="contract-contact"
+                  value={vendorContact}
+                  onChange={(e) => setVendorContact(e.target.value)}
+                  placeholder="Name"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contract-email">Email</Label>
+                <Input
+                  id="contract-email"
+                  type="email"
+                  value={vendorEmail}
+                  onChange={(e) => setVendorEmail(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contract-phone">Phone</Label>
+                <Input
+                  id="contract-phone"
+                  type="tel"
+                  value={vendorPhone}
+                  onChange={(e) => setVendorPhone(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="contract-total">Contract Total ($) *</Label>
+                <Input
+                  id="contract-total"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={total}
+                  onChange={(e) => setTotal(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="contract-signed">Signed</Label>
+                <Input
+                  id="contract-signed"
+                  type="date"
+                  value={signedDate}
+                  onChange={(e) => setSignedDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="contract-notes">Notes</Label>
+              <Textarea
+                id="contract-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            {/* Payment schedule */}
+            {!contract && (
+              <div className="grid gap-3 border-t pt-4">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={generateSchedule}
+                    onChange={(e) => setGenerateSchedule(e.target.checked)}
+                  />
+                  Create a payment schedule
+                </label>
+
+                {generateSchedule && (
+                  <>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="grid gap-2">
+                        <Label htmlFor="schedule-deposit">Deposit (%)</Label>
+                        <Input
+                          id="schedule-deposit"
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={depositPercent}
+                          onChange={(e) => setDepositPercent(e.target.value)}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="schedule-installments">Installments</Label>
+                        <Input
+                          id="schedule-installments"
+                          type="number"
+                          min="0"
+                          max={MAX_INSTALLMENTS}
+                          value={installmentCount}
+                          onChange={(e) => setInstallmentCount(e.target.value)}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="schedule-balance">Balance due (days before)</Label>
+                        <Input
+                          id="schedule-balance"
+                          type="number"
+                          min="0"
+                          value={balanceDaysBefore}
+                          onChange={(e) => setBalanceDaysBefore(e.target.value)}
+                        />
+                      </div>
+                    </div>
+
+                    {preview.length > 0 && (
+                      <ul className="rounded border text-sm">
+                        {preview.map((payment) => (
+                          <li
+                            key={payment.label}
+                            className="flex justify-between border-b px-2 py-1 last:border-b-0"
+                          >
+                            <span>{payment.label}</span>
+                            <span className="text-muted-foreground">
+                              {formatCurrency(payment.amount)} ·{" "}
+                              {formatDate(payment.dueDate, "UTC")}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !vendorName.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {contract ? "Save Changes" : "Add Contract"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatCurrency } from "@/types/cash";
+import type { FundingSourceWithUsage } from "@/types/cash";
+import { Loader2 } from "lucide-react";
+
+// Select items can't have an empty value
+const UNALLOCATED = "unallocated";
+
+type DeleteFundingSourceDialogProps = {
+  fundingSource: FundingSourceWithUsage;
+  otherSources: FundingSourceWithUsage[]; // Where its payments can move to
+  error: string | null;
+  onClose: () => void;
+  onDelete: (reassignTo: string | null) => Promise<boolean>;
+};
+
+export function DeleteFundingSourceDialog({
+  fundingSource,
+  otherSources,
+  error,
+  onClose,
+  onDelete,
+}: DeleteFundingSourceDialogProps) {
+  const [reassignTo, setReassignTo] = useState(UNALLOCATED);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const { milestoneCount } = fundingSource;
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const deleted = await onDelete(reassignTo === UNALLOCATED ? null : reassignTo);
+    setIsDeleting(false);
+    if (deleted) onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delete {fundingSource.name}?</DialogTitle>
+          <DialogDescription>
+            {milestoneCount === 0
+              ? "No payments are assigned to this funding source."
+              : `${milestoneCount} payment${milestoneCount !== 1 ? "s" : ""} totalling ${formatCurrency(fundingSource.assignedAmount)} ${milestoneCount !== 1 ? "are" : "is"} assigned to this funding source.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          {milestoneCount > 0 && (
+            <div className="grid gap-2">
+              <Label htmlFor="funding-reassign">Move its payments to</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger id="funding-reassign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNALLOCATED}>Leave unallocated</SelectItem>
+                  {otherSources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>
+                      {source.name} ({formatCurrency(source.availableAmount)} available)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {reassignTo === UNALLOCATED && (
+                <p className="text-xs text-muted-foreground">
+                  Unallocated payments stay on the schedule until you assign them to a source.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+            {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Delete Funding Source
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FUNDING_SOURCE_PRESETS } from "@/types/cash";
+import type { FundingSource, FundingSourceCreateRequest } from "@/types/cash";
+import { Loader2 } from "lucide-react";
+
+type FundingSourceDialogProps = {
+  // Editing an existing source when set, otherwise adding a new one
+  fundingSource?: FundingSource;
+  error: string | null;
+  onClose: () => void;
+  onSave: (values: FundingSourceCreateRequest) => Promise<boolean>;
+};
+
+export function FundingSourceDialog({
+  fundingSource,
+  error,
+  onClose,
+  onSave,
+}: FundingSourceDialogProps) {
+  const [name, setName] = useState(fundingSource?.name ?? "");
+  const [amount, setAmount] = useState(
+    fundingSource ? (fundingSource.committedAmount / 100).toFixed(2) : ""
+  );
+  const [notes, setNotes] = useState(fundingSource?.notes ?? "");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const dollars = Number(amount);
+    if (!amount.trim() || !Number.isFinite(dollars) || dollars < 0) {
+      setFormError("Enter the committed amount in dollars");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      committedAmount: Math.round(dollars * 100),
+      notes: notes.trim(),
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {fundingSource ? `Edit ${fundingSource.name}` : "Add Funding Source"}
+            </DialogTitle>
+            <DialogDescription>
+              Who is contributing to the wedding, and how much they have committed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {(formError || error) && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {formError || error}
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="funding-name">Name *</Label>
+              <Input
+                id="funding-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Bride's Parents"
+                required
+                autoFocus
+              />
+              <div className="flex flex-wrap gap-1">
+                {FUNDING_SOURCE_PRESETS.map((preset) => (
+                  <Button
+                    key={preset}
+                    type="button"
+                    variant={name === preset ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setName(preset)}
+                  >
+                    {preset}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="funding-amount">Committed Amount ($) *</Label>
+              <Input
+                id="funding-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="e.g., 15000"
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="funding-notes">Notes</Label>
+              <Textarea
+                id="funding-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g., Paid in two installments"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {fundingSource ? "Save Changes" : "Add Funding Source"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
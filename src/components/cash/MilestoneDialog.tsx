@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  BudgetCategory,
+  Contract,
+  FundingSource,
+  MilestoneCreateRequest,
+  MilestoneWithDetails,
+} from "@/types/cash";
+import { Loader2, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value
+const NONE = "none";
+
+type MilestoneDialogProps = {
+  // Editing an existing payment when set, otherwise adding a new one
+  milestone?: MilestoneWithDetails;
+  categories: BudgetCategory[];
+  contracts: Contract[];
+  fundingSources: FundingSource[];
+  error: string | null;
+  onClose: () => void;
+  onSave: (values: MilestoneCreateRequest) => Promise<boolean>;
+  onDelete?: () => Promise<boolean>;
+};
+
+export function MilestoneDialog({
+  milestone,
+  categories,
+  contracts,
+  fundingSources,
+  error,
+  onClose,
+  onSave,
+  onDelete,
+}: MilestoneDialogProps) {
+  const [label, setLabel] = useState(milestone?.label ?? "");
+  const [amount, setAmount] = useState(milestone ? (milestone.amount / 100).toFixed(2) : "");
+  const [dueDate, setDueDate] = useState(milestone?.dueDate.slice(0, 10) ?? "");
+  const [categoryId, setCategoryId] = useState(milestone?.categoryId ?? NONE);
+  const [contractId, setContractId] = useState(milestone?.contractId ?? NONE);
+  const [fundingSourceId, setFundingSourceId] = useState(milestone?.fundingSourceId ?? NONE);
+  const [notes, setNotes] = useState(milestone?.notes ?? "");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Picking a contract fills in its category if none is chosen yet
+  const handleContractChange = (value: string) => {
+    setContractId(value);
+    const contract = contracts.find((c) => c.id === value);
+    if (categoryId === NONE && contract?.categoryId) {
+      setCategoryId(contract.categoryId);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const cents = Math.round(Number(amount) * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      setFormError("Enter an amount more than $0");
+      return;
+    }
+    if (!dueDate) {
+      setFormError("Choose a due date");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave({
+      label: label.trim(),
+      amount: cents,
+      dueDate,
+      categoryId: categoryId === NONE ? null : categoryId,
+      contractId: contractId === NONE ? null : contractId,
+      fundingSourceId: fundingSourceId === NONE ? null : fundingSourceId,
+      notes: notes.trim() || null,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !milestone) return;
+    if (!confirm(`Delete "${milestone.label}"?`)) return;
+    setIsSaving(true);
+    const deleted = await onDelete();
+    setIsSaving(false);
+    if (deleted) onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{milestone ? "Edit Payment" : "Add Payment"}</DialogTitle>
+            <DialogDescription>
+              A scheduled payment, optionally tied to a vendor contract and the funding
+              source paying for it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {(formError || error) && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {formError || error}
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="milestone-label">Description *</Label>
+              <Input
+                id="milestone-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g., Florist - Deposit"
+                required
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="milestone-amount">Amount ($) *</Label>
+                <Input
+                  id="milestone-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="milestone-due">Due Date *</Label>
+                <Input
+                  id="milestone-due"
+                  type="date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="milestone-contract">Contract</Label>
+                <Select value={contractId} onValueChange={handleContractChange}>
+                  <SelectTrigger id="milestone-contract">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No contract</SelectItem>
+                    {contracts.map((contract) => (
+                      <SelectItem key={contract.id} value={contract.id}>
+                        {contract.vendorName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="milestone-category">Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger id="milestone-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No category</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="milestone-funding">Paid From</Label>
+              <Select value={fundingSourceId} onValueChange={setFundingSourceId}>
+                <SelectTrigger id="milestone-funding">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Unallocated</SelectItem>
+                  {fundingSources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>
+                      {source.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="milestone-notes">Notes</Label>
+              <Textarea
+                id="milestone-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            {milestone && onDelete && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="mr-auto text-destructive"
+                onClick={handleDelete}
+                disabled={isSaving || milestone.payments.length > 0}
+                title={
+                  milestone.payments.length > 0
+                    ? "Remove its recorded payments first"
+                    : undefined
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !label.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {milestone ? "Save Changes" : "Add Payment"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,25 +12,17 @@ import {
 } from "@/components/ui/table";
 import { formatCurrency } from "@/types/cash";
 import type { MilestoneWithDetails } from "@/types/cash";
-import { Loader2, Check, X, ArrowRight, ArrowLeft } from "lucide-react";
+import { Loader2, Check, X, ArrowRight, ArrowLeft, Pencil, Receipt } from "lucide-react";
 
 type PaymentTableProps = {
   payments: MilestoneWithDetails[];
   variant: "unpaid" | "paid";
   canEdit: boolean;
   onToggleStatus: (milestoneId: string) => Promise<boolean>;
+  onEdit?: (payment: MilestoneWithDetails) => void;
+  onRecordPayment?: (payment: MilestoneWithDetails) => void;
 };
 
-// Check if a date is overdue (in the past)
-function isOverdue(dueDate: string): boolean {
-  const due = new Date(dueDate);
-  const now = new Date();
-  // Set time to start of day for comparison
-  due.setHours(0, 0, 0, 0);
-  now.setHours(0, 0, 0, 0);
-  return due < now;
-}
-
 // Format date for display
 function formatDate(isoDate: string): string {
   const date = new Date(isoDate);
@@ -46,6 +38,8 @@ export function PaymentTable({
   variant,
   canEdit,
   onToggleStatus,
+  onEdit,
+  onRecordPayment,
 }: PaymentTableProps) {
   const [loadingId, setLoadingId] = useState<string | null>(null);
 
@@ -65,7 +59,7 @@ export function PaymentTable({
       return "bg-green-500 hover:bg-green-600 text-white border-green-600";
     } else {
       // Check if overdue
-      if (isOverdue(payment.dueDate)) {
+      if (payment.status === "late") {
         // Red for overdue
         return "bg-red-500 hover:bg-red-600 text-white border-red-600";
       } else {
@@ -93,8 +87,8 @@ export function PaymentTable({
   const sortedPayments = [...payments].sort((a, b) => {
     if (variant === "unpaid") {
       // Sort overdue items first
-      const aOverdue = isOverdue(a.dueDate);
-      const bOverdue = isOverdue(b.dueDate);
+      const aOverdue = a.status === "late";
+      const bOverdue = b.status === "late";
       if (aOverdue && !bOverdue) return -1;
       if (!aOverdue && bOverdue) return 1;
     }
@@ -122,13 +116,15 @@ export function PaymentTable({
             <TableHead>Category / Vendor</TableHead>
             <TableHead className="text-right">Amount</TableHead>
             {variant === "paid" && <TableHead>Paid Date</TableHead>}
-            {canEdit && <TableHead className="w-32 text-center">Action</TableHead>}
+            {canEdit && <TableHead className="w-52 text-center">Action</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {sortedPayments.map((payment) => {
-            const overdue = variant === "unpaid" && isOverdue(payment.dueDate);
+            const overdue = variant === "unpaid" && payment.status === "late";
+            const due = variant === "unpaid" && payment.status === "due";
             const isLoading = loadingId === payment.id;
+            const partiallyPaid = variant === "unpaid" && (payment.paidAmount ?? 0) > 0;
 
             return (
               <TableRow
@@ -142,13 +138,28 @@ export function PaymentTable({
                   {overdue && (
                     <span className="block text-xs text-red-500">OVERDUE</span>
                   )}
+                  {due && (
+                    <span className="block text-xs text-amber-600">DUE SOON</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {payment.label}
+                  {partiallyPaid && (
+                    <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">
+                      Partially paid
+                    </span>
+                  )}
                 </TableCell>
-                <TableCell>{payment.label}</TableCell>
                 <TableCell className="text-muted-foreground">
                   {payment.vendorName || payment.categoryName || "—"}
                 </TableCell>
                 <TableCell className="text-right font-medium">
                   {formatCurrency(payment.amount)}
+                  {partiallyPaid && (
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {formatCurrency(payment.remainingAmount)} remaining
+                    </span>
+                  )}
                 </TableCell>
                 {variant === "paid" && (
                   <TableCell className="text-green-600">
@@ -173,6 +184,28 @@ export function PaymentTable({
                         </>
                       )}
                     </Button>
+                    {onRecordPayment && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-1"
+                        onClick={() => onRecordPayment(payment)}
+                        title="Payments"
+                      >
+                        <Receipt className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-1"
+                        onClick={() => onEdit(payment)}
+                        title="Edit payment"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
                   </TableCell>
                 )}
               </TableRow>
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { DateTime } from "luxon";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAYMENT_METHODS, formatCurrency, formatDate } from "@/types/cash";
+import type { MilestoneWithDetails, PaymentTransactionCreateRequest } from "@/types/cash";
+import { Loader2, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value
+const NO_METHOD = "none";
+
+type PaymentsDialogProps = {
+  milestone: MilestoneWithDetails;
+  error: string | null;
+  onClose: () => void;
+  onAdd: (payment: PaymentTransactionCreateRequest) => Promise<boolean>;
+  onDelete: (paymentId: string) => Promise<boolean>;
+};
+
+export function PaymentsDialog({ milestone, error, onClose, onAdd, onDelete }: PaymentsDialogProps) {
+  const [amount, setAmount] = useState((milestone.remainingAmount / 100).toFixed(2));
+  const [paidDate, setPaidDate] = useState(DateTime.now().toISODate()!);
+  const [method, setMethod] = useState(NO_METHOD);
+  const [reference, setReference] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const cents = Math.round(Number(amount) * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      setFormError("Enter an amount more than $0");
+      return;
+    }
+    if (cents > milestone.remainingAmount) {
+      setFormError(`That's more than the ${formatCurrency(milestone.remainingAmount)} still owed`);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onAdd({
+      amount: cents,
+      paidDate,
+      paymentMethod: method === NO_METHOD ? null : method,
+      confirmationRef: reference.trim() || null,
+    });
+    setIsSaving(false);
+    if (saved) {
+      // Ready for the next installment
+      setAmount(((milestone.remainingAmount - cents) / 100).toFixed(2));
+      setReference("");
+    }
+  };
+
+  const handleDelete = async (paymentId: string) => {
+    if (!confirm("Remove this payment?")) return;
+    await onDelete(paymentId);
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Payments: {milestone.label}</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(milestone.paidAmount ?? 0)} of {formatCurrency(milestone.amount)} paid
+            {milestone.remainingAmount > 0 &&
+              ` · ${formatCurrency(milestone.remainingAmount)} remaining`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {(formError || error) && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {formError || error}
+            </div>
+          )}
+
+          {milestone.payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+          ) : (
+            <ul className="text-sm divide-y rounded border">
+              {milestone.payments.map((payment) => (
+                <li key={payment.id} className="flex items-center justify-between px-3 py-2">
+                  <span>
+                    {formatDate(payment.paidDate, "UTC")}
+                    <span className="text-muted-foreground">
+                      {[payment.paymentMethod, payment.confirmationRef]
+                        .filter(Boolean)
+                        .map((detail) => ` · ${detail}`)
+                        .join("")}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(payment.id)}
+                      title="Remove payment"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {milestone.remainingAmount > 0 && (
+            <form onSubmit={handleAdd} className="grid gap-3 border-t pt-4">
+              <h4 className="text-sm font-medium">Record a payment</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="payment-amount">Amount ($)</Label>
+                  <Input
+                    id="payment-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="payment-date">Date Paid</Label>
+                  <Input
+                    id="payment-date"
+                    type="date"
+                    value={paidDate}
+                    onChange={(e) => setPaidDate(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="payment-method">Method</Label>
+                  <Select value={method} onValueChange={setMethod}>
+                    <SelectTrigger id="payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_METHOD}>Not specified</SelectItem>
+                      {PAYMENT_METHODS.map((m) => (
+                        <SelectItem key={m} value={m}>
+                          {m}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="payment-reference">Reference</Label>
+                  <Input
+                    id="payment-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="e.g., Check #1042"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
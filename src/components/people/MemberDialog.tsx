@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BUDGET_ROLE_LABELS,
+  TIMELINE_ROLE_LABELS,
+  type WeddingMembership,
+} from "@/types/wedding";
+import type { TimelineRole } from "@/types/timeline";
+import type { BudgetRole } from "@/types/cash";
+import { Loader2 } from "lucide-react";
+
+export type MemberFormValues = {
+  email: string;
+  timelineRole: TimelineRole;
+  budgetRole: BudgetRole;
+  vendorName: string;
+  vendorType: string;
+};
+
+type MemberDialogProps = {
+  // Editing an existing member when set, otherwise inviting someone new
+  member?: WeddingMembership & { user: { name: string; email: string } };
+  canGrantBudget: boolean;
+  onClose: () => void;
+  onSubmit: (values: MemberFormValues) => Promise<boolean>;
+};
+
+export function MemberDialog({ member, canGrantBudget, onClose, onSubmit }: MemberDialogProps) {
+  const [email, setEmail] = useState(member?.user.email ?? "");
+  const [timelineRole, setTimelineRole] = useState<TimelineRole>(
+    member?.timelineRole ?? "VIEW_ONLY"
+  );
+  const [budgetRole, setBudgetRole] = useState<BudgetRole>(member?.budgetRole ?? "NONE");
+  const [vendorName, setVendorName] = useState(member?.vendorName ?? "");
+  const [vendorType, setVendorType] = useState(member?.vendorType ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isVendor = timelineRole === "VENDOR_TIMELINE_COLLAB";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const saved = await onSubmit({
+      email: email.trim(),
+      timelineRole,
+      budgetRole,
+      // Vendor details only apply to vendor collaborators
+      vendorName: isVendor ? vendorName : "",
+      vendorType: isVendor ? vendorType : "",
+    });
+    setIsSubmitting(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{member ? `Edit ${member.user.name}` : "Invite Someone"}</DialogTitle>
+            <DialogDescription>
+              {member
+                ? "Change what this person can do on the wedding."
+                : "They'll get an email with a link to join. The link expires after 7 days."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {!member && (
+              <div className="grid gap-2">
+                <Label htmlFor="member-email">Email *</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  required
+                  autoFocus
+                />
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="member-timeline-role">Timeline Role</Label>
+              <Select
+                value={timelineRole}
+                onValueChange={(value) => setTimelineRole(value as TimelineRole)}
+              >
+                <SelectTrigger id="member-timeline-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TIMELINE_ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="member-budget-role">Budget Access</Label>
+              <Select
+                value={budgetRole}
+                onValueChange={(value) => setBudgetRole(value as BudgetRole)}
+                disabled={!canGrantBudget}
+              >
+                <SelectTrigger id="member-budget-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BUDGET_ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!canGrantBudget && (
+                <p className="text-xs text-muted-foreground">
+                  Only a budget admin can change budget access.
+                </p>
+              )}
+            </div>
+
+            {isVendor && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="member-vendor-name">Vendor Name</Label>
+                  <Input
+                    id="member-vendor-name"
+                    value={vendorName}
+                    onChange={(e) => setVendorName(e.target.value)}
+                    placeholder="e.g., Mike Photography"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="member-vendor-type">Vendor Type</Label>
+                  <Input
+                    id="member-vendor-type"
+                    value={vendorType}
+                    onChange={(e) => setVendorType(e.target.value)}
+                    placeholder="e.g., photographer"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {member ? "Save Changes" : "Send Invitation"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
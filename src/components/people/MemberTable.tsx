@@ -0,0 +1,90 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  BUDGET_ROLE_LABELS,
+  TIMELINE_ROLE_LABELS,
+  type User,
+  type WeddingMembership,
+} from "@/types/wedding";
+import { Pencil, UserMinus } from "lucide-react";
+
+type Member = WeddingMembership & { user: User };
+
+type MemberTableProps = {
+  members: Member[];
+  currentUserId?: string;
+  onEdit: (member: Member) => void;
+  onRevoke: (member: Member) => void;
+};
+
+export function MemberTable({ members, currentUserId, onEdit, onRevoke }: MemberTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Timeline</TableHead>
+            <TableHead>Budget</TableHead>
+            <TableHead>Vendor</TableHead>
+            <TableHead className="w-24 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {members.map((member) => (
+            <TableRow key={member.id}>
+              <TableCell>
+                <div className="font-medium">
+                  {member.user.name}
+                  {member.userId === currentUserId && (
+                    <span className="ml-1 text-xs text-muted-foreground">(you)</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">{member.user.email}</div>
+              </TableCell>
+              <TableCell>
+                <Badge variant="secondary">{TIMELINE_ROLE_LABELS[member.timelineRole]}</Badge>
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                {BUDGET_ROLE_LABELS[member.budgetRole]}
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                {member.vendorName
+                  ? `${member.vendorName}${member.vendorType ? ` (${member.vendorType})` : ""}`
+                  : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onEdit(member)}
+                  title="Edit roles"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRevoke(member)}
+                  title="Revoke access"
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Download, Loader2, Trash2 } from "lucide-react";
+import { useCalendarFeeds } from "@/hooks/useCalendarFeeds";
+import type { TimelineCalendarFeed, TimelineLane } from "@/types/timeline";
+
+// Select items can't have an empty value
+const ALL = "all";
+
+type CalendarFeedsDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  weddingId: string;
+  lanes: TimelineLane[];
+  owners: string[]; // Assignee names on the published timeline
+};
+
+export function CalendarFeedsDialog({
+  open,
+  onClose,
+  weddingId,
+  lanes,
+  owners,
+}: CalendarFeedsDialogProps) {
+  const { feeds, isLoading, error, createFeed, deleteFeed } = useCalendarFeeds(weddingId);
+  const [laneId, setLaneId] = useState(ALL);
+  const [owner, setOwner] = useState(ALL);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const created = await createFeed({
+      laneId: laneId === ALL ? null : laneId,
+      assignedOwnerName: owner === ALL ? null : owner,
+    });
+    setIsCreating(false);
+    if (created) {
+      setFeedUrl(created.feedUrl);
+      setCopied(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked - the URL is still selectable in the field
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFeedUrl(null);
+      onClose();
+    }
+  };
+
+  const downloadParams = new URLSearchParams();
+  if (laneId !== ALL) downloadParams.set("lane", laneId);
+  if (owner !== ALL) downloadParams.set("owner", owner);
+  const downloadHref = `/api/weddings/${weddingId}/timeline/calendar.ics${
+    downloadParams.size > 0 ? `?${downloadParams}` : ""
+  }`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe in a Calendar</DialogTitle>
+          <DialogDescription>
+            Add the published timeline to Google or Apple Calendar. Subscribed calendars
+            pick up changes after each publish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="feed-lane">Lane</Label>
+              <Select value={laneId} onValueChange={setLaneId}>
+                <SelectTrigger id="feed-lane">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All lanes</SelectItem>
+                  {lanes.map((lane) => (
+                    <SelectItem key={lane.id} value={lane.id}>
+                      {lane.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="feed-owner">Assigned to</Label>
+              <Select value={owner} onValueChange={setOwner}>
+                <SelectTrigger id="feed-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {owners.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {feedUrl && (
+            <div className="grid gap-2">
+              <Label htmlFor="feed-url">Subscription URL</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="feed-url"
+                  value={feedUrl}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button variant="outline" size="sm" onClick={handleCopy} className="gap-1">
+                  <Copy className="h-4 w-4" />
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this link can see these events. It won&apos;t be shown again -
+                create a new one if you lose it.
+              </p>
+            </div>
+          )}
+
+          {/* Existing subscriptions */}
+          <div className="grid gap-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Your subscriptions</h4>
+            {isLoading ? (
+              <div className="flex justify-center py-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : feeds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">None yet</p>
+            ) : (
+              <ul className="space-y-1">
+                {feeds.map((feed) => (
+                  <li
+                    key={feed.id}
+                    className="flex items-center justify-between gap-2 rounded border p-2 text-sm"
+                  >
+                    <span>
+                      <span className="block">{describeFeed(feed)}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {feed.lastFetchedAt
+                          ? `Last synced ${new Date(feed.lastFetchedAt).toLocaleString("en-US")}`
+                          : "Not synced yet"}
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteFeed(feed.id)}
+                      title="Revoke this subscription"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <a href={downloadHref} download>
+            <Button type="button" variant="outline" className="gap-1">
+              <Download className="h-4 w-4" />
+              Download .ics
+            </Button>
+          </a>
+          <Button type="button" onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? "Creating..." : "Create Subscription URL"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function describeFeed(feed: TimelineCalendarFeed): string {
+  const parts = [feed.laneName ?? "All lanes"];
+  if (feed.assignedOwnerName) parts.push(`assigned to ${feed.assignedOwnerName}`);
+  return parts.join(", ");
+}
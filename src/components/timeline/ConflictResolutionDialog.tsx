@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TimelineEventItem, TimelineLane } from "@/types/timeline";
+import type { ConflictChoice, ConflictKind, RebaseConflict } from "@/lib/timeline/rebase";
+import { utcToVenueTime } from "@/lib/time";
+
+type ConflictResolutionDialogProps = {
+  conflicts: RebaseConflict[];
+  lanes: TimelineLane[];
+  venueTimezone: string;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+  isResumingDraft?: boolean; // Merging a saved draft rather than publishing
+};
+
+const CONFLICT_TITLES: Record<ConflictKind, string> = {
+  both_moved: "Moved by both of you",
+  both_edited: "Edited by both of you",
+  event_deleted: "Deleted by someone else",
+  lane_deleted: "Lane deleted by someone else",
+};
+
+export function ConflictResolutionDialog({
+  conflicts,
+  lanes,
+  venueTimezone,
+  onResolve,
+  onCancel,
+  isResumingDraft = false,
+}: ConflictResolutionDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const allChosen = conflicts.every((c) => choices[c.id]);
+
+  const describeEvent = (event?: TimelineEventItem) => {
+    if (!event) return "Deleted";
+    const lane = lanes.find((l) => l.id === event.laneId)?.name ?? "Unknown lane";
+    const owner = event.assignedOwner ? ` · ${event.assignedOwner}` : "";
+    return `${event.title} · ${utcToVenueTime(event.startUtc, venueTimezone)}–${utcToVenueTime(
+      event.endUtc,
+      venueTimezone
+    )} · ${lane}${owner}`;
+  };
+
+  const describeSide = (conflict: RebaseConflict, side: ConflictChoice) => {
+    if (conflict.kind === "lane_deleted") {
+      return side === "mine"
+        ? "Restore the lane and keep your changes in it"
+        : "Keep it deleted and drop your changes in it";
+    }
+    return describeEvent(side === "mine" ? conflict.mineEvent : conflict.theirsEvent);
+  };
+
+  const choose = (conflictId: string, choice: ConflictChoice) => {
+    setChoices((prev) => ({ ...prev, [conflictId]: choice }));
+  };
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Resolve Conflicts</DialogTitle>
+          <DialogDescription>
+            {isResumingDraft
+              ? "Someone published changes since your draft was saved."
+              : "Someone published changes while you were editing."}{" "}
+            Changes that don&apos;t clash were merged automatically. Pick which version
+            to keep for each of the following.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-3 py-2">
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="rounded border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{conflict.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {CONFLICT_TITLES[conflict.kind]}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {(["mine", "theirs"] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => choose(conflict.id, side)}
+                    className={`rounded border p-2 text-left text-xs hover:bg-muted/50 ${
+                      choices[conflict.id] === side ? "border-primary bg-primary/5" : ""
+                    }`}
+                  >
+                    <span className="block font-medium mb-1">
+                      {side === "mine" ? "Keep mine" : "Keep theirs"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {describeSide(conflict, side)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => onResolve(choices)} disabled={!allChosen}>
+            {isResumingDraft ? "Resume Merged Draft" : "Publish Merged Timeline"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, Plus, X } from "lucide-react";
+import type { TimelineEventDependency, TimelineEventItem } from "@/types/timeline";
+import { wouldCreateCycle } from "@/lib/timeline/dependencies";
+
+type EventDependenciesProps = {
+  event: TimelineEventItem;
+  events: TimelineEventItem[];
+  dependencies: TimelineEventDependency[];
+  readOnly: boolean;
+  onAdd: (dependency: TimelineEventDependency) => void;
+  onDelete: (dependencyId: string) => void;
+};
+
+export function EventDependencies({
+  event,
+  events,
+  dependencies,
+  readOnly,
+  onAdd,
+  onDelete,
+}: EventDependenciesProps) {
+  const [fromEventId, setFromEventId] = useState("");
+  const [gapMinutes, setGapMinutes] = useState("0");
+
+  const eventTitle = (eventId: string) =>
+    events.find((e) => e.id === eventId)?.title ?? "Unknown event";
+
+  const upstream = dependencies.filter((d) => d.toEventId === event.id);
+  const downstream = dependencies.filter((d) => d.fromEventId === event.id);
+
+  // Events this one could be made to wait for without creating a loop
+  const candidates = events
+    .filter(
+      (e) =>
+        e.id !== event.id &&
+        !upstream.some((d) => d.fromEventId === e.id) &&
+        !wouldCreateCycle(dependencies, e.id, event.id)
+    )
+    .sort((a, b) => a.startUtc.localeCompare(b.startUtc));
+
+  const gap = Number(gapMinutes);
+  const canAdd = fromEventId !== "" && Number.isInteger(gap) && gap >= 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      id: uuidv4(),
+      weddingId: event.weddingId,
+      fromEventId,
+      toEventId: event.id,
+      gapMinutes: gap,
+    });
+    setFromEventId("");
+    setGapMinutes("0");
+  };
+
+  const renderLink = (dep: TimelineEventDependency, label: string) => (
+    <li key={dep.id} className="flex items-center justify-between gap-2 text-sm">
+      <span className="flex items-center gap-2 min-w-0">
+        <Link2 className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{label}</span>
+        {dep.gapMinutes > 0 && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            +{dep.gapMinutes} min
+          </span>
+        )}
+      </span>
+      {!readOnly && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onDelete(dep.id)}
+          title="Remove this dependency"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Dependencies</Label>
+
+      {upstream.length === 0 && downstream.length === 0 && (
+        <p className="text-sm text-muted-foreground">Not linked to other events</p>
+      )}
+
+      {upstream.length > 0 && (
+        <ul className="space-y-1">
+          {upstream.map((dep) => renderLink(dep, `After "${eventTitle(dep.fromEventId)}"`))}
+        </ul>
+      )}
+
+      {downstream.length > 0 && (
+        <ul className="space-y-1">
+          {downstream.map((dep) => renderLink(dep, `Before "${eventTitle(dep.toEventId)}"`))}
+        </ul>
+      )}
+
+      {!readOnly && candidates.length > 0 && (
+        <div className="flex items-end gap-2 pt-1">
+          <div className="flex-1 min-w-0">
+            <Select value={fromEventId} onValueChange={setFromEventId}>
+              <SelectTrigger id="dependency-from">
+                <SelectValue placeholder="Starts after..." />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            type="number"
+            min={0}
+            step={5}
+            value={gapMinutes}
+            onChange={(e) => setGapMinutes(e.target.value)}
+            className="w-20"
+            aria-label="Gap in minutes"
+            title="Gap in minutes"
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!canAdd}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
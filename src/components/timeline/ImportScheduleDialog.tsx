@@ -0,0 +1,190 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { buildImportOps } from "@/lib/timeline/csv-import";
+import { utcToVenueTime } from "@/lib/time";
+import type { PatchOp, TimelineLane } from "@/types/timeline";
+
+type ImportScheduleDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onImport: (ops: PatchOp[]) => void;
+  lanes: TimelineLane[];
+  venueTimezone: string;
+  windowStartUtc: string;
+  windowEndUtc: string;
+};
+
+export function ImportScheduleDialog({
+  open,
+  onClose,
+  onImport,
+  lanes,
+  venueTimezone,
+  windowStartUtc,
+  windowEndUtc,
+}: ImportScheduleDialogProps) {
+  const [text, setText] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const result = useMemo(
+    () =>
+      text.trim()
+        ? buildImportOps(text, { lanes, venueTimezone, windowStartUtc, windowEndUtc })
+        : null,
+    [text, lanes, venueTimezone, windowStartUtc, windowEndUtc]
+  );
+
+  const readyCount = result ? result.rows.filter((row) => row.errors.length === 0).length : 0;
+  const errorCount = result ? result.rows.length - readyCount : 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFileError(null);
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+    } catch {
+      setFileError("Couldn't read that file");
+    }
+  };
+
+  const handleClose = () => {
+    setText("");
+    setFileError(null);
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (!result || result.ops.length === 0) return;
+    onImport(result.ops);
+    handleClose();
+  };
+
+  const formatTime = (utc: string | null) => (utc ? utcToVenueTime(utc, venueTimezone) : "?");
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Schedule</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or paste rows from a spreadsheet, with a header row naming the
+            columns: time, end or duration (e.g. &quot;45 min&quot;, &quot;1.5 hours&quot;),
+            title, lane, owner and notes. Times are read as{" "}
+            {venueTimezone.replace(/_/g, " ")}. Events are added to your draft - nothing is
+            published until you publish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={handleFile}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="import-text">Or paste the schedule</Label>
+            <Textarea
+              id="import-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={"Time,Duration,Title,Lane,Owner,Notes\n2:00 PM,45 min,First look,Photography,Alex,"}
+              rows={4}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          {(fileError || result?.error) && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {fileError || result?.error}
+            </div>
+          )}
+
+          {/* Preview - what will be added, and rows that will be skipped */}
+          {result && !result.error && (
+            <div className="grid gap-2">
+              <p className="text-sm text-muted-foreground">
+                {readyCount} event{readyCount !== 1 ? "s" : ""} ready
+                {errorCount > 0 && `, ${errorCount} row${errorCount !== 1 ? "s" : ""} skipped`}
+                {result.newLanes.length > 0 &&
+                  ` · new lanes: ${result.newLanes.join(", ")}`}
+              </p>
+              <div className="max-h-64 overflow-y-auto rounded border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-muted text-left">
+                    <tr>
+                      <th className="px-2 py-1 font-medium">Row</th>
+                      <th className="px-2 py-1 font-medium">Time</th>
+                      <th className="px-2 py-1 font-medium">Title</th>
+                      <th className="px-2 py-1 font-medium">Lane</th>
+                      <th className="px-2 py-1 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map((row) => (
+                      <tr key={row.rowNumber} className="border-t align-top">
+                        <td className="px-2 py-1 text-muted-foreground">{row.rowNumber}</td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {row.startUtc && `${formatTime(row.startUtc)} – ${formatTime(row.endUtc)}`}
+                        </td>
+                        <td className="px-2 py-1">{row.title}</td>
+                        <td className="px-2 py-1">
+                          {row.laneName}
+                          {row.newLane && (
+                            <Badge variant="outline" className="ml-1">
+                              new
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="px-2 py-1">
+                          {row.errors.length === 0 ? (
+                            <span className="text-green-700">Ready</span>
+                          ) : (
+                            <span className="text-destructive">{row.errors.join("; ")}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!result || result.ops.length === 0}
+          >
+            Add {readyCount} Event{readyCount !== 1 ? "s" : ""} to Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Check, X, AlertTriangle, MessageSquare } from "lucide-react";
+import type {
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+  TimelineProposal,
+} from "@/types/timeline";
+import { describePatchOp } from "@/lib/timeline/diff";
+import { utcToVenueTime } from "@/lib/time";
+import type { ScheduleConflict } from "@/lib/timeline/conflicts";
+import { ScheduleConflictList } from "./ScheduleConflictList";
+
+type ProposalInspectorProps = {
+  proposal: TimelineProposal | null;
+  currentVersion: number | null;
+  events: TimelineEventItem[];
+  lanes: TimelineLane[];
+  dependencies: TimelineEventDependency[];
+  lockedChanges: ScheduleConflict[];
+  venueTimezone: string;
+  rejectedOpIndexes: number[];
+  isSubmitting: boolean;
+  onToggleOp: (index: number) => void;
+  onApply: () => void;
+  onReject: () => void;
+};
+
+export function ProposalInspector({
+  proposal,
+  currentVersion,
+  events,
+  lanes,
+  dependencies,
+  lockedChanges,
+  venueTimezone,
+  rejectedOpIndexes,
+  isSubmitting,
+  onToggleOp,
+  onApply,
+  onReject,
+}: ProposalInspectorProps) {
+  if (!proposal) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-semibold">Proposal Details</h3>
+        </div>
+        <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
+          <p className="text-center text-sm">No proposals waiting for review</p>
+        </div>
+      </div>
+    );
+  }
+
+  const formatTime = (utc: string) => utcToVenueTime(utc, venueTimezone);
+  const acceptedCount = proposal.patchOps.length - rejectedOpIndexes.length;
+  const needsReview =
+    proposal.status === "needs_review" || proposal.baseVersion !== currentVersion;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <h3 className="font-semibold">Proposal Details</h3>
+        <Badge variant={needsReview ? "destructive" : "secondary"}>
+          {needsReview ? "needs review" : proposal.status}
+        </Badge>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">{proposal.createdBy.displayName}</p>
+          <p className="text-xs text-muted-foreground">
+            Based on version {proposal.baseVersion} ·{" "}
+            {new Date(proposal.createdAt).toLocaleString("en-US")}
+          </p>
+        </div>
+
+        {proposal.message && (
+          <div className="flex gap-2 text-sm text-muted-foreground">
+            <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p className="whitespace-pre-wrap">{proposal.message}</p>
+          </div>
+        )}
+
+        {needsReview && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Timeline has changed</AlertTitle>
+            <AlertDescription>
+              This proposal was made against version {proposal.baseVersion}, but the
+              timeline is now at version {currentVersion}. Check the preview before
+              applying.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {lockedChanges.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Changes locked events</AlertTitle>
+            <AlertDescription>
+              <p>Applying will override the lock on:</p>
+              <ScheduleConflictList conflicts={lockedChanges} />
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Individual operations */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Changes ({acceptedCount} of {proposal.patchOps.length} accepted)
+          </p>
+          {proposal.patchOps.map((op, index) => {
+            const isRejected = rejectedOpIndexes.includes(index);
+            return (
+              <div
+                key={index}
+                className={`flex items-start justify-between gap-2 rounded border p-2 text-sm ${
+                  isRejected ? "bg-muted/50 text-muted-foreground" : ""
+                }`}
+              >
+                <span className={isRejected ? "line-through" : ""}>
+                  {describePatchOp(op, events, lanes, formatTime, dependencies)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onToggleOp(index)}
+                  disabled={isSubmitting}
+                  title={isRejected ? "Accept this change" : "Reject this change"}
+                >
+                  {isRejected ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="border-t p-4 space-y-2">
+        <Button
+          size="sm"
+          className="w-full gap-2"
+          onClick={onApply}
+          disabled={isSubmitting || acceptedCount === 0}
+        >
+          <Check className="h-4 w-4" />
+          {needsReview ? "Apply anyway" : "Apply"} {acceptedCount} change
+          {acceptedCount !== 1 ? "s" : ""}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full gap-2"
+          onClick={onReject}
+          disabled={isSubmitting}
+        >
+          <X className="h-4 w-4" />
+          Reject Proposal
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { useTimeline } from "@/hooks/useTimeline";
+import { useProposals } from "@/hooks/useProposals";
+import { buildTimelinePreview } from "@/lib/timeline/diff";
+import { applyDraftToEvents } from "@/lib/timeline/draft";
+import { findLockedChanges } from "@/lib/timeline/conflicts";
+import { ProposalInspector } from "./ProposalInspector";
+import { TimelineErrorBoundary } from "./TimelineErrorBoundary";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, ArrowLeft, Loader2 } from "lucide-react";
+
+// Dynamically import TimelineCanvas with SSR disabled
+const TimelineCanvas = dynamic(
+  () => import("./TimelineCanvas").then((mod) => mod.TimelineCanvas),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Loading timeline...</span>
+      </div>
+    ),
+  }
+);
+
+type ProposalReviewViewProps = {
+  weddingId: string;
+};
+
+export function ProposalReviewView({ weddingId }: ProposalReviewViewProps) {
+  const { timeline, isLoading: isTimelineLoading, refresh: refreshTimeline } = useTimeline(weddingId);
+  const {
+    proposals,
+    currentVersion,
+    isLoading,
+    error,
+    applyProposal,
+    rejectProposal,
+  } = useProposals(weddingId);
+
+  const [selectedProposalId, setSelectedProposalId] = useState<string | null>(null);
+  // Ops the reviewer has rejected, keyed by proposal id
+  const [rejectedOps, setRejectedOps] = useState<Record<string, number[]>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openProposals = useMemo(
+    () => proposals.filter((p) => p.status === "pending" || p.status === "needs_review"),
+    [proposals]
+  );
+
+  const selectedProposal =
+    openProposals.find((p) => p.id === selectedProposalId) ?? openProposals[0] ?? null;
+  const rejectedOpIndexes = useMemo(
+    () => (selectedProposal ? rejectedOps[selectedProposal.id] ?? [] : []),
+    [selectedProposal, rejectedOps]
+  );
+
+  const acceptedOps = useMemo(
+    () =>
+      selectedProposal
+        ? selectedProposal.patchOps.filter((_, index) => !rejectedOpIndexes.includes(index))
+        : [],
+    [selectedProposal, rejectedOpIndexes]
+  );
+
+  // Preview only the accepted ops over the official timeline
+  const preview = useMemo(() => {
+    if (!timeline) return null;
+    return buildTimelinePreview(timeline.events, timeline.lanes, acceptedOps);
+  }, [timeline, acceptedOps]);
+
+  // Locked events the accepted ops would change
+  const lockedChanges = useMemo(() => {
+    if (!timeline) return [];
+    return findLockedChanges(timeline.events, applyDraftToEvents(timeline.events, acceptedOps));
+  }, [timeline, acceptedOps]);
+
+  const handleToggleOp = useCallback(
+    (index: number) => {
+      if (!selectedProposal) return;
+      setRejectedOps((prev) => {
+        const current = prev[selectedProposal.id] ?? [];
+        return {
+          ...prev,
+          [selectedProposal.id]: current.includes(index)
+            ? current.filter((i) => i !== index)
+            : [...current, index],
+        };
+      });
+    },
+    [selectedProposal]
+  );
+
+  const handleApply = useCallback(async () => {
+    if (!selectedProposal) return;
+    setIsSubmitting(true);
+    const opIndexes = selectedProposal.patchOps
+      .map((_, index) => index)
+      .filter((index) => !rejectedOpIndexes.includes(index));
+    const applied = await applyProposal(selectedProposal.id, {
+      opIndexes,
+      // The reviewer has already seen the stale-version warning in the inspector
+      force:
+        selectedProposal.status === "needs_review" ||
+        selectedProposal.baseVersion !== currentVersion,
+      // ...and the locked-event warning
+      overrideLocks: lockedChanges.length > 0,
+    });
+    if (applied) {
+      setSelectedProposalId(null);
+      await refreshTimeline();
+    }
+    setIsSubmitting(false);
+  }, [
+    selectedProposal,
+    rejectedOpIndexes,
+    currentVersion,
+    lockedChanges,
+    applyProposal,
+    refreshTimeline,
+  ]);
+
+  const handleReject = useCallback(async () => {
+    if (!selectedProposal) return;
+    if (!confirm("Reject this proposal?")) return;
+    setIsSubmitting(true);
+    const rejected = await rejectProposal(selectedProposal.id);
+    if (rejected) {
+      setSelectedProposalId(null);
+    }
+    setIsSubmitting(false);
+  }, [selectedProposal, rejectProposal]);
+
+  if ((isLoading && proposals.length === 0) || (isTimelineLoading && !timeline)) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Loading proposals...</span>
+      </div>
+    );
+  }
+
+  if (!timeline || !preview) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-muted-foreground">No timeline data available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-2">
+        <div className="flex items-center gap-2">
+          <Link href={`/weddings/${weddingId}/timeline`} prefetch={false}>
+            <Button variant="ghost" size="sm" className="gap-1">
+              <ArrowLeft className="h-4 w-4" />
+              Timeline
+            </Button>
+          </Link>
+          <span className="text-sm font-medium">Proposal Review</span>
+          <Badge variant="secondary">{openProposals.length} open</Badge>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="text-green-600">Dashed: added</span>
+          <span className="text-blue-600">Outlined: moved or edited</span>
+          <span className="text-red-600 line-through">Removed</span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-2">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Proposal list */}
+        <div className="w-64 border-r bg-background flex-shrink-0 overflow-y-auto">
+          {openProposals.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">
+              No pending proposals
+            </p>
+          ) : (
+            openProposals.map((proposal) => (
+              <button
+                key={proposal.id}
+                onClick={() => setSelectedProposalId(proposal.id)}
+                className={`w-full text-left border-b px-4 py-3 hover:bg-muted/50 ${
+                  proposal.id === selectedProposal?.id ? "bg-muted" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {proposal.createdBy.displayName}
+                  </span>
+                  {proposal.status === "needs_review" && (
+                    <Badge variant="destructive" className="text-xs">
+                      review
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {proposal.message || `${proposal.patchOps.length} change(s)`}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Before/after preview */}
+        <div className="flex-1">
+          <TimelineErrorBoundary>
+            <TimelineCanvas
+              events={preview.events}
+              lanes={preview.lanes}
+              bands={timeline.bands}
+              windowStartUtc={timeline.windowStartUtc}
+              windowEndUtc={timeline.windowEndUtc}
+              venueTimezone={timeline.venueTimezone}
+              selectedEventId={null}
+              onSelectEvent={() => {}}
+              onUpdateEventTime={() => {}}
+              onUpdateEventLane={() => {}}
+              diffMarks={preview.marks}
+              readOnly
+            />
+          </TimelineErrorBoundary>
+        </div>
+
+        {/* Proposal details */}
+        <div className="w-80 border-l bg-background flex-shrink-0">
+          <ProposalInspector
+            proposal={selectedProposal}
+            currentVersion={currentVersion}
+            events={preview.events}
+            lanes={[...timeline.lanes, ...preview.lanes]}
+            dependencies={timeline.dependencies}
+            lockedChanges={lockedChanges}
+            venueTimezone={timeline.venueTimezone}
+            rejectedOpIndexes={rejectedOpIndexes}
+            isSubmitting={isSubmitting}
+            onToggleOp={handleToggleOp}
+            onApply={handleApply}
+            onReject={handleReject}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
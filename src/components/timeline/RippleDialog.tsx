@@ -0,0 +1,80 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TimelineEventItem } from "@/types/timeline";
+import type { EventTimeChange } from "@/lib/timeline/dependencies";
+import { formatDuration, getDurationMinutes, utcToVenueTime } from "@/lib/time";
+
+type RippleDialogProps = {
+  move: EventTimeChange; // the event the user moved
+  changes: EventTimeChange[]; // where its dependents would land
+  events: TimelineEventItem[];
+  venueTimezone: string;
+  onMoveAll: () => void;
+  onMoveOne: () => void;
+};
+
+export function RippleDialog({
+  move,
+  changes,
+  events,
+  venueTimezone,
+  onMoveAll,
+  onMoveOne,
+}: RippleDialogProps) {
+  const eventsById = new Map(events.map((e) => [e.id, e]));
+  const moved = eventsById.get(move.eventId);
+  const shift = moved ? Math.round(getDurationMinutes(moved.endUtc, move.endUtc)) : 0;
+
+  const formatRange = (startUtc: string, endUtc: string) =>
+    `${utcToVenueTime(startUtc, venueTimezone)}–${utcToVenueTime(endUtc, venueTimezone)}`;
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onMoveOne()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Move Dependent Events?</DialogTitle>
+          <DialogDescription>
+            &ldquo;{moved?.title ?? "This event"}&rdquo; now ends{" "}
+            {formatDuration(Math.abs(shift))} {shift > 0 ? "later" : "earlier"}.{" "}
+            {changes.length === 1 ? "One event depends" : `${changes.length} events depend`} on
+            it and can move with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-[40vh] overflow-y-auto space-y-2 py-2">
+          {changes.map((change) => {
+            const event = eventsById.get(change.eventId);
+            if (!event) return null;
+            return (
+              <li key={change.eventId} className="rounded border p-2 text-sm">
+                <span className="block font-medium truncate">{event.title}</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatRange(event.startUtc, event.endUtc)} →{" "}
+                  {formatRange(change.startUtc, change.endUtc)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onMoveOne}>
+            Only This Event
+          </Button>
+          <Button type="button" onClick={onMoveAll}>
+            Move All {changes.length + 1}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { AlertTriangle, Lock } from "lucide-react";
+import type { ScheduleConflict } from "@/lib/timeline/conflicts";
+
+type ScheduleConflictListProps = {
+  conflicts: ScheduleConflict[];
+  // When set, each entry links to the first of its events that is on the canvas
+  selectableEventIds?: string[];
+  onSelectEvent?: (eventId: string) => void;
+};
+
+export function ScheduleConflictList({
+  conflicts,
+  selectableEventIds = [],
+  onSelectEvent,
+}: ScheduleConflictListProps) {
+  return (
+    <ul className="space-y-1">
+      {conflicts.map((conflict) => {
+        const Icon = conflict.kind === "locked_changed" ? Lock : AlertTriangle;
+        const target = conflict.eventIds.find((id) => selectableEventIds.includes(id));
+        const content = (
+          <>
+            <Icon
+              className={`h-4 w-4 flex-shrink-0 mt-0.5 ${
+                conflict.severity === "error" ? "text-destructive" : "text-amber-500"
+              }`}
+            />
+            <span>{conflict.message}</span>
+          </>
+        );
+
+        return (
+          <li key={conflict.id}>
+            {onSelectEvent && target ? (
+              <button
+                type="button"
+                onClick={() => onSelectEvent(target)}
+                className="flex w-full items-start gap-2 rounded p-1 text-left text-sm hover:bg-muted/50"
+              >
+                {content}
+              </button>
+            ) : (
+              <div className="flex items-start gap-2 p-1 text-sm">{content}</div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Trash2 } from "lucide-react";
+import { useTimelineTemplates } from "@/hooks/useTimelineTemplates";
+import { parseVenueTime } from "@/lib/timeline/csv-import";
+import { applyTemplate, findCeremonyEvent } from "@/lib/timeline/templates";
+import { utcToVenueTime } from "@/lib/time";
+import type { PatchOp, TimelineEventItem, TimelineLane } from "@/types/timeline";
+
+type TemplatesDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onApply: (ops: PatchOp[]) => void;
+  weddingId: string;
+  lanes: TimelineLane[]; // Draft lanes, reused by name
+  publishedLanes: TimelineLane[];
+  publishedEvents: TimelineEventItem[]; // What "save as template" saves
+  venueTimezone: string;
+  windowStartUtc: string;
+  windowEndUtc: string;
+};
+
+export function TemplatesDialog({
+  open,
+  onClose,
+  onApply,
+  weddingId,
+  lanes,
+  publishedLanes,
+  publishedEvents,
+  venueTimezone,
+  windowStartUtc,
+  windowEndUtc,
+}: TemplatesDialogProps) {
+  const { templates, isLoading, error, saveTemplate, deleteTemplate } =
+    useTimelineTemplates(weddingId);
+
+  const ceremony = findCeremonyEvent(publishedEvents, publishedLanes);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [anchorTime, setAnchorTime] = useState(() =>
+    ceremony ? utcToVenueTime(ceremony.startUtc, venueTimezone) : "4:00 PM"
+  );
+
+  // Save-as-template form
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [anchorEventId, setAnchorEventId] = useState(ceremony?.id ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const selected = templates.find((t) => t.id === selectedId) ?? null;
+  const anchorUtc =
+    parseVenueTime(anchorTime, venueTimezone, windowStartUtc)?.toUTC().toISO() ?? null;
+
+  const preview = useMemo(
+    () =>
+      selected && anchorUtc
+        ? applyTemplate(selected, anchorUtc, { lanes, windowStartUtc, windowEndUtc })
+        : null,
+    [selected, anchorUtc, lanes, windowStartUtc, windowEndUtc]
+  );
+
+  const eventCount = preview?.ops.filter((op) => op.op === "create_event").length ?? 0;
+
+  const handleApply = () => {
+    if (!preview || preview.ops.length === 0) return;
+    onApply(preview.ops);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !anchorEventId) return;
+    setIsSaving(true);
+    const template = await saveTemplate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      anchorEventId,
+    });
+    setIsSaving(false);
+    if (template) {
+      setName("");
+      setDescription("");
+      setSaved(true);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Timeline Templates</DialogTitle>
+          <DialogDescription>
+            Start from a common wedding-day format. Events are placed around the ceremony
+            time you choose and added to your draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <ul className="grid max-h-48 gap-1 overflow-y-auto">
+              {templates.map((template) => (
+                <li key={template.id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(template.id)}
+                    className={`flex-1 rounded border p-2 text-left text-sm hover:bg-muted/50 ${
+                      template.id === selectedId ? "border-primary bg-muted/50" : ""
+                    }`}
+                  >
+                    <span className="flex items-center gap-2 font-medium">
+                      {template.name}
+                      {!template.builtIn && <Badge variant="secondary">saved</Badge>}
+                    </span>
+                    {template.description && (
+                      <span className="block text-xs text-muted-foreground">
+                        {template.description}
+                      </span>
+                    )}
+                  </button>
+                  {!template.builtIn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (selectedId === template.id) setSelectedId(null);
+                        deleteTemplate(template.id);
+                      }}
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="grid gap-2 border-t pt-4">
+              <div className="flex items-end gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="template-anchor">{selected.anchorLabel}</Label>
+                  <Input
+                    id="template-anchor"
+                    value={anchorTime}
+                    onChange={(e) => setAnchorTime(e.target.value)}
+                    placeholder="e.g., 4:00 PM"
+                    className="w-32"
+                  />
+                </div>
+                {!anchorUtc && (
+                  <p className="pb-2 text-sm text-destructive">Enter a time like 4:30 PM</p>
+                )}
+              </div>
+
+              {preview && (
+                <>
+                  <ul className="max-h-48 overflow-y-auto rounded border text-sm">
+                    {preview.ops.map((op, index) =>
+                      op.op === "create_event" ? (
+                        <li key={index} className="flex gap-3 border-b px-2 py-1 last:border-b-0">
+                          <span className="w-32 flex-shrink-0 text-muted-foreground">
+                            {utcToVenueTime(op.event.startUtc, venueTimezone)} –{" "}
+                            {utcToVenueTime(op.event.endUtc, venueTimezone)}
+                          </span>
+                          <span>{op.event.title}</span>
+                        </li>
+                      ) : null
+                    )}
+                  </ul>
+                  {preview.skipped.length > 0 && (
+                    <p className="text-sm text-amber-700">
+                      Outside the day-of window, so left out: {preview.skipped.join(", ")}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Save the published timeline for reuse on other weddings */}
+          <div className="grid gap-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Save this timeline as a template</h4>
+            {publishedEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Publish some events first - templates are made from the published timeline.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    value={name}
+                    onChange={(e) => {
+                      setName(e.target.value);
+                      setSaved(false);
+                    }}
+                    placeholder="Template name"
+                  />
+                  <Select value={anchorEventId} onValueChange={setAnchorEventId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Anchor event" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {publishedEvents.map((event) => (
+                        <SelectItem key={event.id} value={event.id}>
+                          {event.title} ({utcToVenueTime(event.startUtc, venueTimezone)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                />
+                <div className="flex items-center justify-end gap-2">
+                  {saved && <span className="text-sm text-muted-foreground">Saved</span>}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={isSaving || !name.trim() || !anchorEventId}
+                  >
+                    {isSaving ? "Saving..." : "Save as Template"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleApply} disabled={eventCount === 0}>
+            Add {eventCount} Event{eventCount !== 1 ? "s" : ""} to Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,22 @@
 "use client";
 
 import { useEffect, useRef, useCallback, useMemo, useState } from "react";
-import type { TimelineEventItem, TimelineLane, TimelineBackgroundBand } from "@/types/timeline";
+import type {
+  TimelineEventItem,
+  TimelineLane,
+  TimelineBackgroundBand,
+  TimelineEventDependency,
+} from "@/types/timeline";
+import type { EventDiffKind } from "@/lib/timeline/diff";
+import { conflictsByEvent } from "@/lib/timeline/conflicts";
+import type { ScheduleConflict } from "@/lib/timeline/conflicts";
 import { DateTime } from "luxon";
 import "./timeline-canvas.css";
 
 type TimelineCanvasProps = {
   events: TimelineEventItem[];
   lanes: TimelineLane[];
+  dependencies?: TimelineEventDependency[];
   bands: TimelineBackgroundBand[];
   windowStartUtc: string;
   windowEndUtc: string;
@@ -17,11 +26,29 @@ type TimelineCanvasProps = {
   onUpdateEventTime: (eventId: string, startUtc: string, endUtc: string) => void;
   onUpdateEventLane: (eventId: string, laneId: string) => void;
   readOnly?: boolean;
+  // Optional per-event diff styling (proposal/version previews)
+  diffMarks?: Record<string, EventDiffKind>;
+  // Scheduling problems to badge on the affected events
+  conflicts?: ScheduleConflict[];
+  // Other people with an event open (eventId -> names), shown as a soft lock
+  editingBy?: Record<string, string[]>;
 };
 
 // Lifecycle states for the timeline component
 type LifecycleState = 'idle' | 'initializing' | 'ready' | 'destroying';
 
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// The parts of vis-timeline's internal item layout the dependency arrows read
+type VisItemLayout = {
+  displayed: boolean;
+  left: number;
+  width: number;
+  top: number;
+  height: number;
+  parent?: { top: number };
+};
+
 // Module cache for vis-timeline (loaded once, reused)
 let visModulesPromise: Promise<{ Timeline: any; DataSet: any }> | null = null;
 
@@ -48,6 +75,7 @@ if (typeof window !== 'undefined') {
 export function TimelineCanvas({
   events,
   lanes,
+  dependencies,
   bands,
   windowStartUtc,
   windowEndUtc,
@@ -57,11 +85,15 @@ export function TimelineCanvas({
   onUpdateEventTime,
   onUpdateEventLane,
   readOnly = false,
+  diffMarks,
+  conflicts,
+  editingBy,
 }: TimelineCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<any>(null);
   const itemsRef = useRef<any>(null);
   const groupsRef = useRef<any>(null);
+  const arrowsRef = useRef<SVGSVGElement | null>(null);
 
   // Lifecycle state machine to prevent race conditions
   const lifecycleRef = useRef<LifecycleState>('idle');
@@ -119,20 +151,45 @@ export function TimelineCanvas({
   // Selection is handled by vis-timeline's setSelection() method
   const items = useMemo(() => {
     const tz = timezoneRef.current;
+    const eventConflicts = conflictsByEvent(conflicts ?? []);
     return events
       .filter((event) => event && event.id && event.startUtc && event.endUtc) // Filter invalid events
       .map((event) => {
         const start = DateTime.fromISO(event.startUtc, { zone: "utc" }).setZone(tz).toJSDate();
         const end = DateTime.fromISO(event.endUtc, { zone: "utc" }).setZone(tz).toJSDate();
+        const mark = diffMarks?.[event.id];
+        const issues = eventConflicts[event.id] ?? [];
+        const severity = issues.some((c) => c.severity === "error")
+          ? "error"
+          : issues.length > 0
+            ? "warning"
+            : null;
+        const editors = editingBy?.[event.id] ?? [];
+        const classNames = [
+          "event-item",
+          mark && `diff-${mark}`,
+          event.locked && "event-locked",
+          severity && `conflict-${severity}`,
+          editors.length > 0 && "event-editing",
+        ];
+        const notes = [
+          ...(editors.length > 0 ? [`Being edited by ${editors.join(", ")}`] : []),
+          ...issues.map((c) => c.message),
+        ];
 
         return {
           id: event.id,
           group: event.laneId,
-          content: event.title || '',
+          content: editors.length > 0
+            ? `${event.title || ''} · ✎ ${editors.join(", ")}`
+            : event.title || '',
+          title: notes.length > 0 ? notes.join("\n") : undefined,
           start,
           end,
-          className: "event-item",
-          editable: !readOnly
+          className: classNames.filter(Boolean).join(" "),
+          selectable: mark !== "ghost",
+          // Locked events stay put on the canvas
+          editable: !readOnly && !mark && !event.locked
             ? {
                 updateTime: true,
                 updateGroup: true,
@@ -141,7 +198,7 @@ export function TimelineCanvas({
             : false,
         };
       });
-  }, [events, readOnly]);
+  }, [events, readOnly, diffMarks, conflicts, editingBy]);
 
   // Transform background bands - only when bands change
   const backgroundItems = useMemo(() => {
@@ -162,6 +219,36 @@ export function TimelineCanvas({
   const eventsRef = useRef(events);
   eventsRef.current = events;
 
+  const dependenciesRef = useRef(dependencies);
+
+  // Draw an arrow from the end of each upstream event to the start of its dependent.
+  // vis-timeline has no public API for item geometry, so this reads its item layout.
+  const drawDependencyArrows = useCallback(() => {
+    const svg = arrowsRef.current;
+    const items: Record<string, VisItemLayout> | undefined = timelineRef.current?.itemSet?.items;
+    if (!svg || !items) return;
+
+    const box = (item: VisItemLayout | undefined) => {
+      if (!item?.displayed || !item.parent) return null;
+      const top = item.parent.top + item.top;
+      return { left: item.left, right: item.left + item.width, mid: top + item.height / 2 };
+    };
+
+    const paths = (dependenciesRef.current ?? []).flatMap((dep) => {
+      const from = box(items[dep.fromEventId]);
+      const to = box(items[dep.toEventId]);
+      if (!from || !to) return [];
+      const bend = Math.max(30, Math.abs(to.left - from.right) / 2);
+      return [
+        `<path d="M ${from.right} ${from.mid} C ${from.right + bend} ${from.mid}, ${to.left - bend} ${to.mid}, ${to.left} ${to.mid}" marker-end="url(#dependency-arrowhead)" />`,
+      ];
+    });
+
+    svg.innerHTML =
+      '<defs><marker id="dependency-arrowhead" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M 0 0 L 10 5 L 0 10 z" /></marker></defs>' +
+      paths.join("");
+  }, []);
+
   // Track previous data for efficient updates
   const prevDataRef = useRef<{
     groups: typeof groups;
@@ -278,6 +365,13 @@ export function TimelineCanvas({
           }
         });
 
+        // Dependency arrows live in the scrolling center panel, above the items
+        const arrows = document.createElementNS(SVG_NS, "svg");
+        arrows.setAttribute("class", "dependency-arrows");
+        timelineInstance.dom.center.appendChild(arrows);
+        arrowsRef.current = arrows;
+        timelineInstance.on("changed", drawDependencyArrows);
+
         timelineRef.current = timelineInstance;
         itemsRef.current = itemsInstance;
         groupsRef.current = groupsInstance;
@@ -310,10 +404,12 @@ export function TimelineCanvas({
       itemsRef.current = null;
       groupsRef.current = null;
       prevDataRef.current = null;
+      arrowsRef.current = null;
 
       if (timeline) {
         try {
           timeline.off("select");
+          timeline.off("changed", drawDependencyArrows);
         } catch (e) {}
       }
 
@@ -335,7 +431,7 @@ export function TimelineCanvas({
         lifecycleRef.current = 'idle';
       }
     };
-  }, [windowStartUtc, windowEndUtc, readOnly, snapToMinute, toUtc]);
+  }, [windowStartUtc, windowEndUtc, readOnly, snapToMinute, toUtc, drawDependencyArrows]);
 
   // EFFECT 2: Sync data efficiently when props change
   useEffect(() => {
@@ -399,6 +495,12 @@ export function TimelineCanvas({
     }
   }, [groups, items, backgroundItems]);
 
+  // Redraw arrows when links change without the timeline itself redrawing
+  useEffect(() => {
+    dependenciesRef.current = dependencies;
+    if (isReady) drawDependencyArrows();
+  }, [dependencies, isReady, drawDependencyArrows]);
+
   // EFFECT 3: Handle selection separately (very cheap operation)
   useEffect(() => {
     if (lifecycleRef.current !== 'ready' || !timelineRef.current) return;
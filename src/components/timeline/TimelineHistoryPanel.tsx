@@ -0,0 +1,299 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, History, Loader2, RotateCcw, X } from "lucide-react";
+import { useTimelineHistory } from "@/hooks/useTimelineHistory";
+import { describePatchOp } from "@/lib/timeline/diff";
+import { utcToVenueTime } from "@/lib/time";
+import type { TimelineVersionDiffResponse, TimelineVersionSummary } from "@/types/timeline";
+
+type TimelineHistoryPanelProps = {
+  weddingId: string;
+  timelineVersion: number; // Refetch the history whenever this changes
+  venueTimezone: string;
+  readOnly: boolean;
+  isDirty: boolean;
+  onRestored: () => void;
+  onClose: () => void;
+};
+
+export function TimelineHistoryPanel({
+  weddingId,
+  timelineVersion,
+  venueTimezone,
+  readOnly,
+  isDirty,
+  onRestored,
+  onClose,
+}: TimelineHistoryPanelProps) {
+  const {
+    versions,
+    currentVersion,
+    isLoading,
+    error,
+    restoreErrors,
+    refresh,
+    compareVersions,
+    restoreVersion,
+  } = useTimelineHistory(weddingId);
+
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<TimelineVersionDiffResponse | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Pick up versions published from the canvas or the proposals page
+  useEffect(() => {
+    refresh();
+  }, [timelineVersion, refresh]);
+
+  const formatTime = (utc: string) => utcToVenueTime(utc, venueTimezone);
+
+  const loadDiff = async (fromVersion: number | null, toVersion: number) => {
+    setDiff(null);
+    if (fromVersion === null) return;
+    setIsComparing(true);
+    setDiff(await compareVersions(fromVersion, toVersion));
+    setIsComparing(false);
+  };
+
+  // Compare with the version before it by default
+  const handleSelect = (version: number) => {
+    const index = versions.findIndex((v) => v.version === version);
+    const previous = versions[index + 1]?.version ?? null;
+    setSelectedVersion(version);
+    setCompareVersion(previous);
+    setConfirmRestore(false);
+    loadDiff(previous, version);
+  };
+
+  const handleCompareChange = (value: string) => {
+    if (selectedVersion === null) return;
+    const version = Number(value);
+    setCompareVersion(version);
+    loadDiff(version, selectedVersion);
+  };
+
+  const handleRestore = async (overrideLocks: boolean) => {
+    if (selectedVersion === null) return;
+    setIsRestoring(true);
+    const restored = await restoreVersion(selectedVersion, { overrideLocks });
+    setIsRestoring(false);
+    if (restored) {
+      setConfirmRestore(false);
+      setSelectedVersion(null);
+      setDiff(null);
+      onRestored();
+    }
+  };
+
+  const onlyLockErrors =
+    restoreErrors.length > 0 && restoreErrors.every((opError) => opError.locked);
+  const canRestore =
+    !readOnly && selectedVersion !== null && selectedVersion !== currentVersion;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <h3 className="font-semibold">Version History</h3>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close history">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              <p>{error}</p>
+              {restoreErrors.length > 0 && (
+                <ul className="mt-1 space-y-1">
+                  {restoreErrors.map((opError) => (
+                    <li key={opError.index}>{opError.reason}</li>
+                  ))}
+                </ul>
+              )}
+              {onlyLockErrors && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-2"
+                  onClick={() => handleRestore(true)}
+                  disabled={isRestoring}
+                >
+                  Override Locks &amp; Restore
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && versions.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+            <History className="h-8 w-8" />
+            <p className="text-sm">Versions appear here once changes are published</p>
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {versions.map((entry) => (
+              <li key={entry.version}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(entry.version)}
+                  className={`w-full rounded border p-2 text-left text-sm hover:bg-muted/50 ${
+                    entry.version === selectedVersion ? "border-primary bg-muted/50" : ""
+                  }`}
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="font-medium">Version {entry.version}</span>
+                    {entry.version === currentVersion && (
+                      <Badge variant="secondary">current</Badge>
+                    )}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {describeVersion(entry)}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {entry.publishedBy.displayName} ·{" "}
+                    {new Date(entry.createdAt).toLocaleString("en-US")}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Changes between the selected version and another */}
+        {selectedVersion !== null && (
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="compare-version">Compare version {selectedVersion} with</Label>
+            <Select
+              value={compareVersion !== null ? String(compareVersion) : ""}
+              onValueChange={handleCompareChange}
+            >
+              <SelectTrigger id="compare-version">
+                <SelectValue placeholder="Select a version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions
+                  .filter((v) => v.version !== selectedVersion)
+                  .map((v) => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      Version {v.version}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+
+            {isComparing ? (
+              <div className="flex items-center justify-center py-4 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : diff ? (
+              diff.patchOps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">These versions are the same</p>
+              ) : (
+                <ul className="space-y-1">
+                  {diff.patchOps.map((op, index) => (
+                    <li key={index} className="rounded border p-2 text-sm">
+                      {describePatchOp(
+                        op,
+                        [...diff.before.events, ...diff.after.events],
+                        [...diff.before.lanes, ...diff.after.lanes],
+                        formatTime,
+                        diff.before.dependencies
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )
+            ) : (
+              compareVersion === null && (
+                <p className="text-sm text-muted-foreground">
+                  This is the earliest recorded version
+                </p>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {canRestore && (
+        <div className="border-t p-4 space-y-2">
+          {confirmRestore ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                This publishes a new version that puts the timeline back the way it was in
+                version {selectedVersion}. Nothing is lost - it can be restored again later.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => setConfirmRestore(false)}
+                  disabled={isRestoring}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => handleRestore(false)}
+                  disabled={isRestoring}
+                >
+                  {isRestoring ? "Restoring..." : "Restore"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => setConfirmRestore(true)}
+              disabled={isDirty}
+              title={isDirty ? "Publish or discard your changes first" : undefined}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Restore Version {selectedVersion}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeVersion(entry: TimelineVersionSummary): string {
+  const changes = `${entry.changeCount} change${entry.changeCount !== 1 ? "s" : ""}`;
+  switch (entry.source) {
+    case "baseline":
+      return "Timeline before history was kept";
+    case "publish":
+      return `Published ${changes}`;
+    case "proposal":
+      return `Applied a proposal (${changes})`;
+    case "restore":
+      return `Restored version ${entry.restoredFromVersion}`;
+  }
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -11,37 +12,79 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { X, Trash2, Clock, MapPin, User } from "lucide-react";
-import type { TimelineEventItem, TimelineLane } from "@/types/timeline";
+import { X, Trash2, Clock, MapPin, User, Lock, LockOpen, Users } from "lucide-react";
+import type {
+  EventStatus,
+  LaneType,
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+} from "@/types/timeline";
+import { LANE_TYPE_LABELS } from "@/types/timeline";
 import { DateTime } from "luxon";
+import type { ScheduleConflict } from "@/lib/timeline/conflicts";
+import { EventDependencies } from "./EventDependencies";
+import { ScheduleConflictList } from "./ScheduleConflictList";
 
 type TimelineInspectorProps = {
   event: TimelineEventItem | null;
+  events: TimelineEventItem[];
   lanes: TimelineLane[];
+  dependencies: TimelineEventDependency[];
+  conflicts: ScheduleConflict[];
+  editingBy: Record<string, string[]>; // eventId -> other people with it open
   venueTimezone: string;
   readOnly: boolean;
   onClose: () => void;
+  onSelectEvent: (eventId: string) => void;
   onUpdateTitle: (eventId: string, title: string) => void;
   onUpdateTime: (eventId: string, startUtc: string, endUtc: string) => void;
   onUpdateLane: (eventId: string, laneId: string) => void;
+  onUpdateStatus: (eventId: string, status: EventStatus) => void;
+  onUpdateLocked: (eventId: string, locked: boolean) => void;
+  onUpdateNotes: (eventId: string, notes: string | null) => void;
+  onUpdateCategory: (eventId: string, category: LaneType) => void;
+  onUpdateLocation: (
+    eventId: string,
+    location: { locationLabel: string | null; locationLat: number | null; locationLng: number | null }
+  ) => void;
   onDelete: (eventId: string) => void;
+  onAddDependency: (dependency: TimelineEventDependency) => void;
+  onDeleteDependency: (dependencyId: string) => void;
 };
 
 export function TimelineInspector({
   event,
+  events,
   lanes,
+  dependencies,
+  conflicts,
+  editingBy,
   venueTimezone,
   readOnly,
   onClose,
+  onSelectEvent,
   onUpdateTitle,
   onUpdateTime,
   onUpdateLane,
+  onUpdateStatus,
+  onUpdateLocked,
+  onUpdateNotes,
+  onUpdateCategory,
+  onUpdateLocation,
   onDelete,
+  onAddDependency,
+  onDeleteDependency,
 }: TimelineInspectorProps) {
   const [title, setTitle] = useState("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
   const [laneId, setLaneId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [locationLabel, setLocationLabel] = useState("");
+  const [locationLat, setLocationLat] = useState("");
+  const [locationLng, setLocationLng] = useState("");
+  const [locationError, setLocationError] = useState<string | null>(null);
 
   // Format time for display in venue timezone
   const formatTimeForInput = (utc: string) => {
@@ -75,6 +118,11 @@ export function TimelineInspector({
       setStartTime(formatTimeForInput(event.startUtc));
       setEndTime(formatTimeForInput(event.endUtc));
       setLaneId(event.laneId);
+      setNotes(event.notes ?? "");
+      setLocationLabel(event.locationLabel ?? "");
+      setLocationLat(event.locationLat?.toString() ?? "");
+      setLocationLng(event.locationLng?.toString() ?? "");
+      setLocationError(null);
     }
   }, [event, venueTimezone]);
 
@@ -84,6 +132,16 @@ export function TimelineInspector({
         <div className="flex items-center justify-between border-b px-4 py-3">
           <h3 className="font-semibold">Event Details</h3>
         </div>
+        {conflicts.length > 0 && (
+          <div className="border-b p-4 space-y-2 max-h-[50%] overflow-y-auto">
+            <Label>Schedule Problems ({conflicts.length})</Label>
+            <ScheduleConflictList
+              conflicts={conflicts}
+              selectableEventIds={events.map((e) => e.id)}
+              onSelectEvent={onSelectEvent}
+            />
+          </div>
+        )}
         <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
           <p className="text-center text-sm">
             Select an event on the timeline to view its details
@@ -117,12 +175,48 @@ export function TimelineInspector({
     }
   };
 
+  const handleNotesBlur = () => {
+    const newNotes = notes.trim() ? notes : null;
+    if (newNotes !== (event.notes ?? null)) {
+      onUpdateNotes(event.id, newNotes);
+    }
+  };
+
+  const handleLocationBlur = () => {
+    const label = locationLabel.trim() || null;
+    const lat = locationLat.trim() ? Number(locationLat) : null;
+    const lng = locationLng.trim() ? Number(locationLng) : null;
+
+    if ((lat === null) !== (lng === null)) {
+      setLocationError("Enter both latitude and longitude, or neither");
+      return;
+    }
+    const inRange = (value: number | null, limit: number) =>
+      value === null || (!isNaN(value) && Math.abs(value) <= limit);
+    if (!inRange(lat, 90) || !inRange(lng, 180)) {
+      setLocationError("Latitude must be -90 to 90 and longitude -180 to 180");
+      return;
+    }
+    setLocationError(null);
+
+    if (
+      label !== (event.locationLabel ?? null) ||
+      lat !== (event.locationLat ?? null) ||
+      lng !== (event.locationLng ?? null)
+    ) {
+      onUpdateLocation(event.id, { locationLabel: label, locationLat: lat, locationLng: lng });
+    }
+  };
+
   const handleDelete = () => {
     if (confirm("Are you sure you want to delete this event?")) {
       onDelete(event.id);
     }
   };
 
+  const eventConflicts = conflicts.filter((c) => c.eventIds.includes(event.id));
+  const otherEditors = editingBy[event.id] ?? [];
+
   // Calculate duration
   const duration = DateTime.fromISO(event.endUtc)
     .diff(DateTime.fromISO(event.startUtc), ["hours", "minutes"])
@@ -142,6 +236,21 @@ export function TimelineInspector({
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Soft lock - someone else has this event open */}
+        {otherEditors.length > 0 && (
+          <div className="flex items-center gap-2 rounded border border-sky-300 bg-sky-50 p-2 text-sm">
+            <Users className="h-4 w-4 flex-shrink-0 text-sky-600" />
+            <span>Being edited by {otherEditors.join(", ")}</span>
+          </div>
+        )}
+
+        {/* Problems involving this event */}
+        {eventConflicts.length > 0 && (
+          <div className="rounded border border-amber-300 bg-amber-50 p-2">
+            <ScheduleConflictList conflicts={eventConflicts} />
+          </div>
+        )}
+
         {/* Title */}
         <div className="space-y-2">
           <Label htmlFor="title">Title</Label>
@@ -220,6 +329,82 @@ export function TimelineInspector({
           )}
         </div>
 
+        {/* Status and lock */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="status">Status</Label>
+            {readOnly ? (
+              <p className="text-sm capitalize">{event.status ?? "tentative"}</p>
+            ) : (
+              <Select
+                value={event.status ?? "tentative"}
+                onValueChange={(value) => onUpdateStatus(event.id, value as EventStatus)}
+              >
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tentative">Tentative</SelectItem>
+                  <SelectItem value="confirmed">Confirmed</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Lock</Label>
+            {readOnly ? (
+              <p className="text-sm">{event.locked ? "Locked" : "Unlocked"}</p>
+            ) : (
+              <Button
+                variant={event.locked ? "secondary" : "outline"}
+                className="w-full gap-2"
+                onClick={() => onUpdateLocked(event.id, !event.locked)}
+                title={event.locked ? "Allow changes to this event" : "Protect this event from changes"}
+              >
+                {event.locked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                {event.locked ? "Locked" : "Unlocked"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Category */}
+        <div className="space-y-2">
+          <Label htmlFor="category">Category</Label>
+          {readOnly ? (
+            <p className="text-sm">
+              {event.category ? LANE_TYPE_LABELS[event.category] : "None"}
+            </p>
+          ) : (
+            <Select
+              value={event.category ?? ""}
+              onValueChange={(value) => onUpdateCategory(event.id, value as LaneType)}
+            >
+              <SelectTrigger id="category">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LANE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {/* Dependencies */}
+        <EventDependencies
+          key={event.id}
+          event={event}
+          events={events}
+          dependencies={dependencies}
+          readOnly={readOnly}
+          onAdd={onAddDependency}
+          onDelete={onDeleteDependency}
+        />
+
         {/* Owner */}
         {event.assignedOwner && (
           <div className="space-y-2">
@@ -232,23 +417,68 @@ export function TimelineInspector({
         )}
 
         {/* Location */}
-        {event.locationLabel && (
-          <div className="space-y-2">
-            <Label>Location</Label>
-            <div className="flex items-center gap-2 text-sm">
-              <MapPin className="h-4 w-4 text-muted-foreground" />
-              <span>{event.locationLabel}</span>
+        {readOnly ? (
+          event.locationLabel && (
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <div className="flex items-center gap-2 text-sm">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span>{event.locationLabel}</span>
+              </div>
             </div>
+          )
+        ) : (
+          <div className="space-y-2" onBlur={handleLocationBlur}>
+            <Label htmlFor="locationLabel">Location</Label>
+            <Input
+              id="locationLabel"
+              value={locationLabel}
+              onChange={(e) => setLocationLabel(e.target.value)}
+              placeholder="e.g. Garden terrace"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                aria-label="Latitude"
+                inputMode="decimal"
+                value={locationLat}
+                onChange={(e) => setLocationLat(e.target.value)}
+                placeholder="Latitude"
+              />
+              <Input
+                aria-label="Longitude"
+                inputMode="decimal"
+                value={locationLng}
+                onChange={(e) => setLocationLng(e.target.value)}
+                placeholder="Longitude"
+              />
+            </div>
+            {locationError && (
+              <p className="text-sm text-destructive">{locationError}</p>
+            )}
           </div>
         )}
 
         {/* Notes */}
-        {event.notes && (
+        {readOnly ? (
+          event.notes && (
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                {event.notes}
+              </p>
+            </div>
+          )
+        ) : (
           <div className="space-y-2">
-            <Label>Notes</Label>
-            <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-              {event.notes}
-            </p>
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={handleNotesBlur}
+              placeholder="Details for the people running this event"
+              rows={3}
+            />
           </div>
         )}
       </div>
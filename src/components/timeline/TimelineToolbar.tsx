@@ -1,6 +1,9 @@
 "use client";
 
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import type { DraftSaveState } from "@/hooks/useTimeline";
+import type { TimelineViewer } from "@/types/timeline";
 import {
   Undo2,
   Redo2,
@@ -9,37 +12,77 @@ import {
   X,
   ZoomIn,
   ZoomOut,
+  Inbox,
+  History,
+  Printer,
+  CalendarPlus,
+  Upload,
+  LayoutTemplate,
 } from "lucide-react";
 
+// Unpublished changes are autosaved as a draft on the server
+const DRAFT_SAVE_LABELS: Record<DraftSaveState, string> = {
+  idle: "Unpublished changes",
+  saving: "Saving draft...",
+  saved: "Draft saved",
+  error: "Draft not saved",
+};
+
+// Avatars shown before the rest collapse into "+N"
+const MAX_VIEWER_AVATARS = 5;
+
 type TimelineToolbarProps = {
   canUndo: boolean;
   canRedo: boolean;
   isDirty: boolean;
+  draftSaveState: DraftSaveState;
   isPublishing: boolean;
   readOnly: boolean;
   onUndo: () => void;
   onRedo: () => void;
   onAddEvent: () => void;
+  onImport: () => void;
+  onOpenTemplates: () => void;
   onPublish: () => void;
   onDiscard: () => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
+  onToggleHistory: () => void;
+  isHistoryOpen: boolean;
+  proposalsHref?: string;
+  exportHref?: string; // Printable run-of-show
+  onOpenCalendarFeeds: () => void;
+  viewers: TimelineViewer[]; // Other people with the timeline open
+  eventTitles: Record<string, string>; // To say what a viewer has selected
 };
 
 export function TimelineToolbar({
   canUndo,
   canRedo,
   isDirty,
+  draftSaveState,
   isPublishing,
   readOnly,
   onUndo,
   onRedo,
   onAddEvent,
+  onImport,
+  onOpenTemplates,
   onPublish,
   onDiscard,
   onZoomIn,
   onZoomOut,
+  onToggleHistory,
+  isHistoryOpen,
+  proposalsHref,
+  exportHref,
+  onOpenCalendarFeeds,
+  viewers,
+  eventTitles,
 }: TimelineToolbarProps) {
+  const shownViewers = viewers.slice(0, MAX_VIEWER_AVATARS);
+  const hiddenViewers = viewers.slice(MAX_VIEWER_AVATARS);
+
   return (
     <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-2">
       <div className="flex items-center gap-2">
@@ -61,6 +104,29 @@ export function TimelineToolbar({
           >
             <ZoomOut className="h-4 w-4" />
           </Button>
+          <Button
+            variant={isHistoryOpen ? "secondary" : "ghost"}
+            size="sm"
+            onClick={onToggleHistory}
+            title="Version History"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          {exportHref && (
+            <a href={exportHref} target="_blank" rel="noopener noreferrer">
+              <Button variant="ghost" size="sm" title="Print Run of Show">
+                <Printer className="h-4 w-4" />
+              </Button>
+            </a>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenCalendarFeeds}
+            title="Subscribe in a Calendar"
+          >
+            <CalendarPlus className="h-4 w-4" />
+          </Button>
         </div>
 
         {/* Edit controls - only show if not read-only */}
@@ -96,38 +162,111 @@ export function TimelineToolbar({
                 Add Event
               </Button>
             </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onImport}
+              className="gap-1"
+              title="Import a schedule from a CSV or spreadsheet"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenTemplates}
+              className="gap-1"
+              title="Start from a template, or save this timeline as one"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              Templates
+            </Button>
+
+            {proposalsHref && (
+              <Link href={proposalsHref} prefetch={false}>
+                <Button variant="ghost" size="sm" className="gap-1">
+                  <Inbox className="h-4 w-4" />
+                  Proposals
+                </Button>
+              </Link>
+            )}
           </>
         )}
       </div>
 
-      {/* Publish/Discard - only show when dirty */}
-      {!readOnly && isDirty && (
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">
-            Unsaved changes
-          </span>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={onDiscard}
-            disabled={isPublishing}
-            className="gap-1"
-          >
-            <X className="h-4 w-4" />
-            Discard
-          </Button>
-          <Button
-            variant="default"
-            size="sm"
-            onClick={onPublish}
-            disabled={isPublishing}
-            className="gap-1"
-          >
-            <Save className="h-4 w-4" />
-            {isPublishing ? "Saving..." : "Publish"}
-          </Button>
-        </div>
-      )}
+      <div className="flex items-center gap-4">
+        {/* Who else is looking at the timeline */}
+        {viewers.length > 0 && (
+          <div className="flex items-center -space-x-2">
+            {shownViewers.map((viewer) => (
+              <ViewerAvatar
+                key={viewer.userId}
+                viewer={viewer}
+                editing={viewer.selectedEventId ? eventTitles[viewer.selectedEventId] : undefined}
+              />
+            ))}
+            {hiddenViewers.length > 0 && (
+              <span
+                className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-xs font-medium"
+                title={hiddenViewers.map((v) => v.displayName).join(", ")}
+              >
+                +{hiddenViewers.length}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Publish/Discard - only show when dirty */}
+        {!readOnly && isDirty && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {DRAFT_SAVE_LABELS[draftSaveState]}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDiscard}
+              disabled={isPublishing}
+              className="gap-1"
+            >
+              <X className="h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              onClick={onPublish}
+              disabled={isPublishing}
+              className="gap-1"
+            >
+              <Save className="h-4 w-4" />
+              {isPublishing ? "Saving..." : "Publish"}
+            </Button>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
+
+function ViewerAvatar({ viewer, editing }: { viewer: TimelineViewer; editing?: string }) {
+  const initials = viewer.displayName
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+  return (
+    <span
+      className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-primary bg-cover bg-center text-xs font-medium text-primary-foreground"
+      style={viewer.avatarUrl ? { backgroundImage: `url(${JSON.stringify(viewer.avatarUrl)})` } : undefined}
+      title={editing ? `${viewer.displayName} - editing "${editing}"` : viewer.displayName}
+    >
+      {!viewer.avatarUrl && initials}
+    </span>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, RefreshCw, X } from "lucide-react";
+import type { RemoteUpdate } from "@/hooks/useTimeline";
+
+// How many changes to spell out before summarising the rest
+const MAX_LISTED_CHANGES = 3;
+
+// Clean merges fade on their own; a clash stays until dismissed
+const AUTO_DISMISS_MS = 8000;
+
+type TimelineUpdateToastProps = {
+  update: RemoteUpdate;
+  onDismiss: () => void;
+};
+
+export function TimelineUpdateToast({ update, onDismiss }: TimelineUpdateToastProps) {
+  useEffect(() => {
+    if (update.clashesWithDraft) return;
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [update, onDismiss]);
+
+  const listed = update.changes.slice(0, MAX_LISTED_CHANGES);
+  const remaining = update.changes.length - listed.length;
+  const Icon = update.clashesWithDraft ? AlertTriangle : RefreshCw;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 w-80 rounded-lg border bg-background p-4 shadow-lg"
+    >
+      <div className="flex items-start gap-3">
+        <Icon
+          className={`h-4 w-4 mt-0.5 flex-shrink-0 ${
+            update.clashesWithDraft ? "text-amber-500" : "text-primary"
+          }`}
+        />
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-sm font-medium">
+            {update.publishedBy} published version {update.version}
+          </p>
+          <ul className="text-sm text-muted-foreground space-y-0.5">
+            {listed.map((change, index) => (
+              <li key={index} className="truncate" title={change}>
+                {change}
+              </li>
+            ))}
+            {remaining > 0 && (
+              <li>
+                and {remaining} more change{remaining !== 1 ? "s" : ""}
+              </li>
+            )}
+          </ul>
+          {update.clashesWithDraft && (
+            <p className="text-sm">
+              This clashes with your unpublished changes. You&apos;ll be asked how to merge
+              them when you publish.
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} title="Dismiss">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,25 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import dynamic from "next/dynamic";
 import { useTimeline } from "@/hooks/useTimeline";
+import { useAuth } from "@/lib/auth/context";
 import { TimelineToolbar } from "./TimelineToolbar";
 import { TimelineInspector } from "./TimelineInspector";
 import { AddEventDialog } from "./AddEventDialog";
 import { TimelineErrorBoundary } from "./TimelineErrorBoundary";
+import { ConflictResolutionDialog } from "./ConflictResolutionDialog";
+import { RippleDialog } from "./RippleDialog";
+import { TimelineHistoryPanel } from "./TimelineHistoryPanel";
+import { TimelineUpdateToast } from "./TimelineUpdateToast";
+import { CalendarFeedsDialog } from "./CalendarFeedsDialog";
+import { ImportScheduleDialog } from "./ImportScheduleDialog";
+import { TemplatesDialog } from "./TemplatesDialog";
+import { computeRipple } from "@/lib/timeline/dependencies";
+import type { EventTimeChange } from "@/lib/timeline/dependencies";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, History, Loader2 } from "lucide-react";
 
 // Dynamically import TimelineCanvas with SSR disabled
 const TimelineCanvas = dynamic(
@@ -24,6 +35,12 @@ const TimelineCanvas = dynamic(
   }
 );
 
+// A move waiting on the user to decide whether its dependents follow
+type PendingRipple = {
+  move: EventTimeChange;
+  changes: EventTimeChange[];
+};
+
 type TimelineViewProps = {
   weddingId: string;
   venueTimezone: string;
@@ -39,34 +56,72 @@ export function TimelineView({
     timeline,
     isLoading,
     error,
+    publishErrors,
     isDirty,
+    savedDraft,
+    draftSaveState,
+    remoteUpdate,
     displayEvents,
     displayLanes,
+    displayDependencies,
+    scheduleConflicts,
     refresh,
     addEvent,
+    importOps,
     updateEventTime,
+    updateEventTimes,
     updateEventLane,
     updateEventTitle,
+    updateEventStatus,
+    updateEventLocked,
+    updateEventNotes,
+    updateEventCategory,
+    updateEventLocation,
     deleteEvent,
+    addDependency,
+    deleteDependency,
     publish,
     discard,
+    resumeDraft,
+    discardSavedDraft,
+    dismissRemoteUpdate,
+    conflicts,
+    isResumingDraft,
+    resolveConflicts,
+    cancelRebase,
     undo,
     redo,
     canUndo,
     canRedo,
     selectedEventId,
     setSelectedEventId,
-  } = useTimeline(weddingId);
+    viewers,
+  } = useTimeline(weddingId, readOnly);
+  const { user } = useAuth();
 
   const [isPublishing, setIsPublishing] = useState(false);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [showInspector, setShowInspector] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalendarFeeds, setShowCalendarFeeds] = useState(false);
+  const [pendingRipple, setPendingRipple] = useState<PendingRipple | null>(null);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (readOnly) return;
 
+      // Leave keys typed into a field (Backspace, native text undo) to the field
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable)
+      ) {
+        return;
+      }
+
       // Ctrl/Cmd + Z for undo
       if ((e.ctrlKey || e.metaKey) && e.key === "z" && !e.shiftKey) {
         e.preventDefault();
@@ -101,12 +156,58 @@ export function TimelineView({
     return () => document.removeEventListener("keydown", handleKeyDown);
   }, [readOnly, undo, redo, deleteEvent, selectedEventId, setSelectedEventId]);
 
+  // Moving an event that others depend on offers to move them along with it
+  const handleMoveEvent = useCallback(
+    (eventId: string, startUtc: string, endUtc: string) => {
+      const changes = computeRipple(displayEvents, displayDependencies, eventId, startUtc, endUtc);
+      if (changes.length === 0) {
+        updateEventTime(eventId, startUtc, endUtc);
+        return;
+      }
+      setPendingRipple({ move: { eventId, startUtc, endUtc }, changes });
+    },
+    [displayEvents, displayDependencies, updateEventTime]
+  );
+
+  const handleRipple = useCallback(
+    (moveDependents: boolean) => {
+      if (!pendingRipple) return;
+      const { move, changes } = pendingRipple;
+      if (moveDependents) {
+        updateEventTimes([move, ...changes]);
+      } else {
+        updateEventTime(move.eventId, move.startUtc, move.endUtc);
+      }
+      setPendingRipple(null);
+    },
+    [pendingRipple, updateEventTime, updateEventTimes]
+  );
+
   const handlePublish = useCallback(async () => {
     setIsPublishing(true);
     await publish();
     setIsPublishing(false);
   }, [publish]);
 
+  // Only offered when locked events are the sole reason the publish was refused
+  const handlePublishOverridingLocks = useCallback(async () => {
+    setIsPublishing(true);
+    await publish({ overrideLocks: true });
+    setIsPublishing(false);
+  }, [publish]);
+
+  const onlyLockErrors =
+    publishErrors.length > 0 && publishErrors.every((opError) => opError.locked);
+
+  const handleResolveConflicts = useCallback(
+    async (choices: Parameters<typeof resolveConflicts>[0]) => {
+      setIsPublishing(true);
+      await resolveConflicts(choices);
+      setIsPublishing(false);
+    },
+    [resolveConflicts]
+  );
+
   const handleZoomIn = useCallback(() => {
     // Zoom is handled directly by vis-timeline
   }, []);
@@ -119,6 +220,34 @@ export function TimelineView({
     ? displayEvents.find((e) => e.id === selectedEventId) || null
     : null;
 
+  // Presence - everyone else with the timeline open, and what they have selected
+  const otherViewers = useMemo(
+    () => viewers.filter((v) => v.userId !== user?.id),
+    [viewers, user?.id]
+  );
+  const editingBy = useMemo(() => {
+    const result: Record<string, string[]> = {};
+    for (const viewer of otherViewers) {
+      if (viewer.selectedEventId) {
+        (result[viewer.selectedEventId] ??= []).push(viewer.displayName);
+      }
+    }
+    return result;
+  }, [otherViewers]);
+  const assignedOwners = useMemo(
+    () =>
+      [
+        ...new Set(
+          (timeline?.events ?? []).flatMap((e) => (e.assignedOwner ? [e.assignedOwner] : []))
+        ),
+      ].sort(),
+    [timeline?.events]
+  );
+  const eventTitles = useMemo(
+    () => Object.fromEntries(displayEvents.map((e) => [e.id, e.title])),
+    [displayEvents]
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -163,17 +292,105 @@ export function TimelineView({
         canUndo={canUndo}
         canRedo={canRedo}
         isDirty={isDirty}
+        draftSaveState={draftSaveState}
         isPublishing={isPublishing}
         readOnly={readOnly}
         onUndo={undo}
         onRedo={redo}
         onAddEvent={() => setShowAddDialog(true)}
+        onImport={() => setShowImportDialog(true)}
+        onOpenTemplates={() => setShowTemplates(true)}
         onPublish={handlePublish}
         onDiscard={discard}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
+        onToggleHistory={() => setShowHistory((open) => !open)}
+        isHistoryOpen={showHistory}
+        proposalsHref={`/weddings/${weddingId}/timeline/proposals`}
+        exportHref={`/api/weddings/${weddingId}/timeline/export.pdf`}
+        onOpenCalendarFeeds={() => setShowCalendarFeeds(true)}
+        viewers={otherViewers}
+        eventTitles={eventTitles}
       />
 
+      {/* Unpublished changes saved from an earlier session */}
+      {savedDraft && (
+        <div className="p-2 border-b">
+          <Alert>
+            <History className="h-4 w-4" />
+            <AlertTitle>Resume your unpublished changes?</AlertTitle>
+            <AlertDescription>
+              <p>
+                You have {savedDraft.patchOps.length} unpublished change
+                {savedDraft.patchOps.length !== 1 ? "s" : ""} saved{" "}
+                {new Date(savedDraft.updatedAt).toLocaleString("en-US")}.
+                {savedDraft.baseVersion !== timeline.version &&
+                  " The timeline has been published since, so they will be merged with the latest version."}
+              </p>
+              <div className="mt-2 flex items-center gap-2">
+                <Button size="sm" onClick={resumeDraft}>
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={discardSavedDraft}>
+                  Discard
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Ops the server rejected on publish */}
+      {publishErrors.length > 0 && (
+        <div className="p-2 border-b">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Some changes could not be published</AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-1">
+                {publishErrors.map((opError) => {
+                  const event = opError.eventId
+                    ? displayEvents.find((e) => e.id === opError.eventId)
+                    : undefined;
+                  return (
+                    <li key={opError.index}>
+                      Change #{opError.index + 1}
+                      {event && (
+                        <>
+                          {" "}
+                          (
+                          <button
+                            onClick={() => setSelectedEventId(event.id)}
+                            className="underline hover:no-underline"
+                          >
+                            {event.title}
+                          </button>
+                          )
+                        </>
+                      )}
+                      : {opError.reason}
+                    </li>
+                  );
+                })}
+              </ul>
+              {onlyLockErrors && (
+                <div className="mt-2 flex items-center gap-2">
+                  <span>These events are locked. Publish the changes anyway?</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handlePublishOverridingLocks}
+                    disabled={isPublishing}
+                  >
+                    Override Locks &amp; Publish
+                  </Button>
+                </div>
+              )}
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Main content area */}
       <div className="flex-1 flex overflow-hidden">
         {/* Timeline canvas */}
@@ -182,32 +399,62 @@ export function TimelineView({
             <TimelineCanvas
               events={displayEvents}
               lanes={displayLanes}
+              dependencies={displayDependencies}
+              conflicts={scheduleConflicts}
+              editingBy={editingBy}
               bands={timeline.bands}
               windowStartUtc={timeline.windowStartUtc}
               windowEndUtc={timeline.windowEndUtc}
               venueTimezone={timeline.venueTimezone}
               selectedEventId={selectedEventId}
               onSelectEvent={setSelectedEventId}
-              onUpdateEventTime={updateEventTime}
+              onUpdateEventTime={handleMoveEvent}
               onUpdateEventLane={updateEventLane}
               readOnly={readOnly}
             />
           </TimelineErrorBoundary>
         </div>
 
+        {/* Version history replaces the inspector while open */}
+        {showHistory && (
+          <div className="w-80 border-l bg-background flex-shrink-0">
+            <TimelineHistoryPanel
+              weddingId={weddingId}
+              timelineVersion={timeline.version}
+              venueTimezone={timeline.venueTimezone}
+              readOnly={readOnly}
+              isDirty={isDirty}
+              onRestored={refresh}
+              onClose={() => setShowHistory(false)}
+            />
+          </div>
+        )}
+
         {/* Inspector panel */}
-        {showInspector && (
+        {showInspector && !showHistory && (
           <div className="w-80 border-l bg-background flex-shrink-0">
             <TimelineInspector
               event={selectedEvent}
+              events={displayEvents}
               lanes={displayLanes}
+              dependencies={displayDependencies}
+              conflicts={scheduleConflicts}
+              editingBy={editingBy}
               venueTimezone={timeline.venueTimezone}
               readOnly={readOnly}
               onClose={() => setSelectedEventId(null)}
+              onSelectEvent={setSelectedEventId}
               onUpdateTitle={updateEventTitle}
-              onUpdateTime={updateEventTime}
+              onUpdateTime={handleMoveEvent}
               onUpdateLane={updateEventLane}
+              onUpdateStatus={updateEventStatus}
+              onUpdateLocked={updateEventLocked}
+              onUpdateNotes={updateEventNotes}
+              onUpdateCategory={updateEventCategory}
+              onUpdateLocation={updateEventLocation}
               onDelete={deleteEvent}
+              onAddDependency={addDependency}
+              onDeleteDependency={deleteDependency}
             />
           </div>
         )}
@@ -223,6 +470,75 @@ export function TimelineView({
         windowStartUtc={timeline.windowStartUtc}
         windowEndUtc={timeline.windowEndUtc}
       />
+
+      <ImportScheduleDialog
+        open={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImport={importOps}
+        lanes={displayLanes}
+        venueTimezone={timeline.venueTimezone}
+        windowStartUtc={timeline.windowStartUtc}
+        windowEndUtc={timeline.windowEndUtc}
+      />
+
+      {/* Templates are applied to the draft and saved from the published timeline */}
+      {showTemplates && (
+        <TemplatesDialog
+          open
+          onClose={() => setShowTemplates(false)}
+          onApply={importOps}
+          weddingId={weddingId}
+          lanes={displayLanes}
+          publishedLanes={timeline.lanes}
+          publishedEvents={timeline.events}
+          venueTimezone={timeline.venueTimezone}
+          windowStartUtc={timeline.windowStartUtc}
+          windowEndUtc={timeline.windowEndUtc}
+        />
+      )}
+
+      {/* Calendar feeds cover the published timeline, not the draft */}
+      {showCalendarFeeds && (
+        <CalendarFeedsDialog
+          open
+          onClose={() => setShowCalendarFeeds(false)}
+          weddingId={weddingId}
+          lanes={timeline.lanes}
+          owners={assignedOwners}
+        />
+      )}
+
+      {/* Offer to ripple a move through dependent events */}
+      {pendingRipple && (
+        <RippleDialog
+          move={pendingRipple.move}
+          changes={pendingRipple.changes}
+          events={displayEvents}
+          venueTimezone={timeline.venueTimezone}
+          onMoveAll={() => handleRipple(true)}
+          onMoveOne={() => handleRipple(false)}
+        />
+      )}
+
+      {/* Another user's publish, merged in live */}
+      {remoteUpdate && (
+        <TimelineUpdateToast
+          key={remoteUpdate.version}
+          update={remoteUpdate}
+          onDismiss={dismissRemoteUpdate}
+        />
+      )}
+
+      {/* Publish conflict resolution */}
+      <ConflictResolutionDialog
+        key={conflicts.map((c) => c.id).join("|")}
+        conflicts={conflicts}
+        lanes={displayLanes}
+        venueTimezone={timeline.venueTimezone}
+        onResolve={handleResolveConflicts}
+        onCancel={cancelRebase}
+        isResumingDraft={isResumingDraft}
+      />
     </div>
   );
 }
@@ -3,3 +3,7 @@ export { TimelineCanvas } from "./TimelineCanvas";
 export { TimelineToolbar } from "./TimelineToolbar";
 export { TimelineInspector } from "./TimelineInspector";
 export { AddEventDialog } from "./AddEventDialog";
+export { ProposalReviewView } from "./ProposalReviewView";
+export { ProposalInspector } from "./ProposalInspector";
+export { ConflictResolutionDialog } from "./ConflictResolutionDialog";
+export { TimelineHistoryPanel } from "./TimelineHistoryPanel";
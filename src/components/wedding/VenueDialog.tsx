@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { COMMON_TIMEZONES, type Wedding, type WeddingUpdateRequest } from "@/types/wedding";
+import { Loader2 } from "lucide-react";
+
+type VenueDialogProps = {
+  wedding: Wedding;
+  error: string | null;
+  onClose: () => void;
+  onSave: (update: WeddingUpdateRequest) => Promise<boolean>;
+};
+
+// Parse an optional coordinate field; blank clears it
+function parseCoordinate(value: string): number | null | "invalid" {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : "invalid";
+}
+
+export function VenueDialog({ wedding, error, onClose, onSave }: VenueDialogProps) {
+  const [weddingDate, setWeddingDate] = useState(wedding.weddingDate);
+  const [venueName, setVenueName] = useState(wedding.venueName ?? "");
+  const [venueAddress, setVenueAddress] = useState(wedding.venueAddress ?? "");
+  const [venueTimezone, setVenueTimezone] = useState(wedding.venueTimezone);
+  const [lat, setLat] = useState(wedding.lat?.toString() ?? "");
+  const [lng, setLng] = useState(wedding.lng?.toString() ?? "");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const parsedLat = parseCoordinate(lat);
+    const parsedLng = parseCoordinate(lng);
+    if (parsedLat === "invalid" || parsedLng === "invalid") {
+      setFormError("Latitude and longitude must be numbers");
+      return;
+    }
+    if ((parsedLat === null) !== (parsedLng === null)) {
+      setFormError("Enter both latitude and longitude, or neither");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave({
+      weddingDate,
+      venueName,
+      venueAddress,
+      venueTimezone,
+      lat: parsedLat,
+      lng: parsedLng,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  // Keep the wedding's timezone selectable even if it isn't a common one
+  const timezones = COMMON_TIMEZONES.some((tz) => tz.value === wedding.venueTimezone)
+    ? COMMON_TIMEZONES
+    : [{ value: wedding.venueTimezone, label: wedding.venueTimezone }, ...COMMON_TIMEZONES];
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Date &amp; Venue</DialogTitle>
+            <DialogDescription>
+              Golden hour, sunset and twilight on the timeline are calculated from
+              the date and the venue&apos;s coordinates.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {(formError || error) && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {formError || error}
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="venue-date">Wedding Date</Label>
+              <Input
+                id="venue-date"
+                type="date"
+                value={weddingDate}
+                onChange={(e) => setWeddingDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="venue-name">Venue Name</Label>
+              <Input
+                id="venue-name"
+                value={venueName}
+                onChange={(e) => setVenueName(e.target.value)}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="venue-address">Address</Label>
+              <Input
+                id="venue-address"
+                value={venueAddress}
+                onChange={(e) => setVenueAddress(e.target.value)}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="venue-timezone">Timezone</Label>
+              <Select value={venueTimezone} onValueChange={setVenueTimezone}>
+                <SelectTrigger id="venue-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezones.map((tz) => (
+                    <SelectItem key={tz.value} value={tz.value}>
+                      {tz.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="venue-lat">Latitude</Label>
+                <Input
+                  id="venue-lat"
+                  inputMode="decimal"
+                  value={lat}
+                  onChange={(e) => setLat(e.target.value)}
+                  placeholder="e.g., 40.7128"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="venue-lng">Longitude</Label>
+                <Input
+                  id="venue-lng"
+                  inputMode="decimal"
+                  value={lng}
+                  onChange={(e) => setLng(e.target.value)}
+                  placeholder="e.g., -74.0060"
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  TimelineCalendarFeed,
+  TimelineCalendarFeedCreateRequest,
+  TimelineCalendarFeedCreateResponse,
+  TimelineCalendarFeedsResponse,
+} from "@/types/timeline";
+
+type UseCalendarFeedsReturn = {
+  // State
+  feeds: TimelineCalendarFeed[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  createFeed: (
+    request: TimelineCalendarFeedCreateRequest
+  ) => Promise<TimelineCalendarFeedCreateResponse | null>;
+  deleteFeed: (feedId: string) => Promise<boolean>;
+};
+
+export function useCalendarFeeds(weddingId: string): UseCalendarFeedsReturn {
+  const [feeds, setFeeds] = useState<TimelineCalendarFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/timeline/calendar-feeds`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch calendar feeds");
+      }
+
+      const data: TimelineCalendarFeedsResponse = await res.json();
+      setFeeds(data.feeds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createFeed = useCallback(
+    async (request: TimelineCalendarFeedCreateRequest) => {
+      setError(null);
+
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/timeline/calendar-feeds`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to create calendar feed");
+        }
+
+        const data: TimelineCalendarFeedCreateResponse = await res.json();
+        setFeeds((prev) => [data.feed, ...prev]);
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create calendar feed");
+        return null;
+      }
+    },
+    [weddingId]
+  );
+
+  const deleteFeed = useCallback(
+    async (feedId: string) => {
+      setError(null);
+
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/timeline/calendar-feeds/${feedId}`,
+          { method: "DELETE" }
+        );
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to delete calendar feed");
+        }
+
+        setFeeds((prev) => prev.filter((feed) => feed.id !== feedId));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete calendar feed");
+        return false;
+      }
+    },
+    [weddingId]
+  );
+
+  return {
+    feeds,
+    isLoading,
+    error,
+    refresh,
+    createFeed,
+    deleteFeed,
+  };
+}
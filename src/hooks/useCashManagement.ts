@@ -1,7 +1,15 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import type { CashOverviewResponse, FundingSourceWithUsage, MilestoneWithDetails } from "@/types/cash";
+import { DateTime } from "luxon";
+import type {
+  CashOverviewResponse,
+  FundingSourceCreateRequest,
+  FundingSourceUpdateRequest,
+  MilestoneCreateRequest,
+  MilestoneUpdateRequest,
+  PaymentTransactionCreateRequest,
+} from "@/types/cash";
 
 type UseCashManagementReturn = {
   // State
@@ -12,10 +20,31 @@ type UseCashManagementReturn = {
   // Actions
   refresh: () => Promise<void>;
   markMilestonePaid: (milestoneId: string) => Promise<boolean>;
-  markMilestoneUnpaid: (milestoneId: string) => Promise<boolean>;
   assignFundingSource: (milestoneId: string, fundingSourceId: string) => Promise<boolean>;
+  createFundingSource: (request: FundingSourceCreateRequest) => Promise<boolean>;
+  updateFundingSource: (
+    fundingSourceId: string,
+    update: FundingSourceUpdateRequest
+  ) => Promise<boolean>;
+  // Milestones move to reassignTo, or are left unallocated when it's null
+  deleteFundingSource: (fundingSourceId: string, reassignTo: string | null) => Promise<boolean>;
+  createMilestone: (request: MilestoneCreateRequest) => Promise<boolean>;
+  updateMilestone: (milestoneId: string, update: MilestoneUpdateRequest) => Promise<boolean>;
+  deleteMilestone: (milestoneId: string) => Promise<boolean>;
+  addPayment: (milestoneId: string, payment: PaymentTransactionCreateRequest) => Promise<boolean>;
+  deletePayment: (milestoneId: string, paymentId: string) => Promise<boolean>;
 };
 
+// Pull the API's error message out of a failed response
+async function readError(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json();
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export function useCashManagement(weddingId: string): UseCashManagementReturn {
   const [data, setData] = useState<CashOverviewResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -53,7 +82,7 @@ export function useCashManagement(weddingId: string): UseCashManagementReturn {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             status: "paid",
-            paidDate: new Date().toISOString(),
+            paidDate: DateTime.now().toISODate(),
           }),
         });
 
@@ -72,23 +101,19 @@ export function useCashManagement(weddingId: string): UseCashManagementReturn {
     [weddingId, refresh]
   );
 
-  const markMilestoneUnpaid = useCallback(
-    async (milestoneId: string): Promise<boolean> => {
+  const assignFundingSource = useCallback(
+    async (milestoneId: string, fundingSourceId: string): Promise<boolean> => {
       try {
         const res = await fetch(`/api/weddings/${weddingId}/milestones/${milestoneId}`, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            status: "planned",
-            paidDate: null,
-            paidAmount: null,
-            paymentMethod: null,
-            confirmationRef: null,
+            fundingSourceId,
           }),
         });
 
         if (!res.ok) {
-          throw new Error("Failed to mark milestone as unpaid");
+          throw new Error("Failed to assign funding source");
         }
 
         // Refresh data
@@ -102,26 +127,190 @@ export function useCashManagement(weddingId: string): UseCashManagementReturn {
     [weddingId, refresh]
   );
 
-  const assignFundingSource = useCallback(
-    async (milestoneId: string, fundingSourceId: string): Promise<boolean> => {
+  const createFundingSource = useCallback(
+    async (request: FundingSourceCreateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/funding-sources`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to add funding source"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to add funding source");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const updateFundingSource = useCallback(
+    async (fundingSourceId: string, update: FundingSourceUpdateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/funding-sources/${fundingSourceId}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(update),
+          }
+        );
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to update funding source"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update funding source");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const deleteFundingSource = useCallback(
+    async (fundingSourceId: string, reassignTo: string | null): Promise<boolean> => {
+      const query = reassignTo
+        ? `reassignTo=${encodeURIComponent(reassignTo)}`
+        : "unallocate=true";
+
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/funding-sources/${fundingSourceId}?${query}`,
+          { method: "DELETE" }
+        );
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to delete funding source"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete funding source");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const createMilestone = useCallback(
+    async (request: MilestoneCreateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/milestones`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to add payment"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to add payment");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const updateMilestone = useCallback(
+    async (milestoneId: string, update: MilestoneUpdateRequest): Promise<boolean> => {
       try {
         const res = await fetch(`/api/weddings/${weddingId}/milestones/${milestoneId}`, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            fundingSourceId,
-          }),
+          body: JSON.stringify(update),
         });
 
         if (!res.ok) {
-          throw new Error("Failed to assign funding source");
+          throw new Error(await readError(res, "Failed to update payment"));
         }
 
-        // Refresh data
         await refresh();
         return true;
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to update");
+        setError(err instanceof Error ? err.message : "Failed to update payment");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const deleteMilestone = useCallback(
+    async (milestoneId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/milestones/${milestoneId}`, {
+          method: "DELETE",
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to delete payment"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete payment");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const addPayment = useCallback(
+    async (milestoneId: string, payment: PaymentTransactionCreateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/milestones/${milestoneId}/payments`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payment),
+          }
+        );
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to record payment"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to record payment");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const deletePayment = useCallback(
+    async (milestoneId: string, paymentId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/milestones/${milestoneId}/payments/${paymentId}`,
+          { method: "DELETE" }
+        );
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to delete payment"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete payment");
         return false;
       }
     },
@@ -134,7 +323,14 @@ export function useCashManagement(weddingId: string): UseCashManagementReturn {
     error,
     refresh,
     markMilestonePaid,
-    markMilestoneUnpaid,
     assignFundingSource,
+    createFundingSource,
+    updateFundingSource,
+    deleteFundingSource,
+    createMilestone,
+    updateMilestone,
+    deleteMilestone,
+    addPayment,
+    deletePayment,
   };
 }
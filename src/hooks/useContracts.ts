@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  ContractCreateRequest,
+  ContractUpdateRequest,
+  ContractsResponse,
+} from "@/types/cash";
+
+type UseContractsReturn = {
+  // State
+  data: ContractsResponse | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  createContract: (request: ContractCreateRequest) => Promise<boolean>;
+  updateContract: (contractId: string, update: ContractUpdateRequest) => Promise<boolean>;
+  deleteContract: (contractId: string) => Promise<boolean>;
+};
+
+// Pull the API's error message out of a failed response
+async function readError(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json();
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function useContracts(weddingId: string): UseContractsReturn {
+  const [data, setData] = useState<ContractsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/contracts`);
+      if (!res.ok) {
+        throw new Error(await readError(res, "Failed to fetch contracts"));
+      }
+
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createContract = useCallback(
+    async (request: ContractCreateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/contracts`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to add contract"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to add contract");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const updateContract = useCallback(
+    async (contractId: string, update: ContractUpdateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/contracts/${contractId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to update contract"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update contract");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const deleteContract = useCallback(
+    async (contractId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/contracts/${contractId}`, {
+          method: "DELETE",
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to delete contract"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete contract");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  return {
+    data,
+    isLoading,
+    error,
+    refresh,
+    createContract,
+    updateContract,
+    deleteContract,
+  };
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  InvitationCreateRequest,
+  InvitationCreateResponse,
+  MembershipUpdateRequest,
+  PeopleResponse,
+} from "@/types/wedding";
+
+type UsePeopleReturn = {
+  // State
+  data: PeopleResponse | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  invite: (request: InvitationCreateRequest) => Promise<InvitationCreateResponse | null>;
+  updateMember: (membershipId: string, update: MembershipUpdateRequest) => Promise<boolean>;
+  revokeMember: (membershipId: string) => Promise<boolean>;
+  revokeInvitation: (invitationId: string) => Promise<boolean>;
+};
+
+// Surface the server's message (last-admin and permission errors are meaningful)
+async function readError(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json();
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function usePeople(weddingId: string): UsePeopleReturn {
+  const [data, setData] = useState<PeopleResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/members`);
+      if (!res.ok) {
+        throw new Error(await readError(res, "Failed to fetch people"));
+      }
+
+      const responseData: PeopleResponse = await res.json();
+      setData(responseData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const invite = useCallback(
+    async (request: InvitationCreateRequest): Promise<InvitationCreateResponse | null> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/invitations`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to send invitation"));
+        }
+
+        const result: InvitationCreateResponse = await res.json();
+        await refresh();
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to send invitation");
+        return null;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const updateMember = useCallback(
+    async (membershipId: string, update: MembershipUpdateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/members/${membershipId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to update member"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update member");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const revokeMember = useCallback(
+    async (membershipId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/members/${membershipId}`, {
+          method: "DELETE",
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to revoke access"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to revoke access");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const revokeInvitation = useCallback(
+    async (invitationId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/invitations/${invitationId}`, {
+          method: "DELETE",
+        });
+
+        if (!res.ok) {
+          throw new Error(await readError(res, "Failed to revoke invitation"));
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to revoke invitation");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  return {
+    data,
+    isLoading,
+    error,
+    refresh,
+    invite,
+    updateMember,
+    revokeMember,
+    revokeInvitation,
+  };
+}
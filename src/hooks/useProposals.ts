@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type { PatchValidationErrorResponse, TimelineProposal } from "@/types/timeline";
+
+type ApplyOptions = {
+  opIndexes?: number[];
+  force?: boolean;
+  overrideLocks?: boolean;
+};
+
+type UseProposalsReturn = {
+  // State
+  proposals: TimelineProposal[];
+  currentVersion: number | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  applyProposal: (proposalId: string, options?: ApplyOptions) => Promise<boolean>;
+  rejectProposal: (proposalId: string) => Promise<boolean>;
+};
+
+export function useProposals(weddingId: string): UseProposalsReturn {
+  const [proposals, setProposals] = useState<TimelineProposal[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/proposals`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch proposals");
+      }
+
+      const data: { currentVersion: number; proposals: TimelineProposal[] } = await res.json();
+      setProposals(data.proposals);
+      setCurrentVersion(data.currentVersion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const applyProposal = useCallback(
+    async (proposalId: string, options: ApplyOptions = {}): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/proposals/${proposalId}/apply`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(options),
+        });
+
+        if (res.status === 409) {
+          // Stale proposal - it is now flagged for review
+          const data = await res.json();
+          await refresh();
+          setError(data.error);
+          return false;
+        }
+
+        if (res.status === 422) {
+          // Some ops no longer apply cleanly - nothing was written
+          const data: PatchValidationErrorResponse = await res.json();
+          setError(
+            `${data.error}: ${data.opErrors
+              .map((opError) => `change #${opError.index + 1} - ${opError.reason}`)
+              .join("; ")}`
+          );
+          return false;
+        }
+
+        if (!res.ok) {
+          throw new Error("Failed to apply proposal");
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to apply proposal");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  const rejectProposal = useCallback(
+    async (proposalId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/proposals/${proposalId}/reject`, {
+          method: "POST",
+        });
+
+        if (!res.ok) {
+          throw new Error("Failed to reject proposal");
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to reject proposal");
+        return false;
+      }
+    },
+    [weddingId, refresh]
+  );
+
+  return {
+    proposals,
+    currentVersion,
+    isLoading,
+    error,
+    refresh,
+    applyProposal,
+    rejectProposal,
+  };
+}
@@ -1,12 +1,21 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type {
+  EventStatus,
+  LaneType,
   TimelineEventItem,
   TimelineLane,
   TimelineBackgroundBand,
+  TimelineEventDependency,
   TimelineResponse,
+  TimelineDraftResponse,
+  TimelineVersionEvent,
+  TimelinePresenceEvent,
+  TimelineViewer,
   PatchOp,
+  PatchOpError,
+  PatchValidationErrorResponse,
 } from "@/types/timeline";
 import {
   DraftState,
@@ -16,7 +25,10 @@ import {
   resetDraft,
   applyDraftToEvents,
   applyDraftToLanes,
+  applyDraftToDependencies,
 } from "@/lib/timeline/draft";
+import type { EventTimeChange } from "@/lib/timeline/dependencies";
+import { ScheduleConflict, detectScheduleConflicts } from "@/lib/timeline/conflicts";
 import {
   HistoryState,
   createHistory,
@@ -25,8 +37,35 @@ import {
   redo as historyRedo,
   canUndo,
   canRedo,
-  clearHistory,
+  endsWith,
+  markPublished,
+  revertToPublished,
+  loadPublishedHistory,
+  savePublishedHistory,
 } from "@/lib/timeline/history";
+import { useAuth } from "@/lib/auth/context";
+import { invertPatchOps } from "@/lib/timeline/inverse";
+import { describePatchOp } from "@/lib/timeline/diff";
+import { utcToVenueTime } from "@/lib/time";
+import {
+  RebasePlan,
+  RebaseConflict,
+  ConflictChoice,
+  planRebase,
+  resolveRebase,
+} from "@/lib/timeline/rebase";
+
+// How many times a conflict-free rebase is retried before giving up
+const MAX_REBASE_ATTEMPTS = 3;
+
+const HISTORY_SIZE = 50;
+
+// Wait for a pause in editing before autosaving the draft
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Re-announce the selected event this often while editing, well inside the
+// server's soft lock timeout
+const SOFT_LOCK_REFRESH_MS = 30_000;
 
 type TimelineState = {
   version: number;
@@ -36,33 +75,88 @@ type TimelineState = {
   windowEndUtc: string;
   lanes: TimelineLane[];
   events: TimelineEventItem[];
+  dependencies: TimelineEventDependency[];
   bands: TimelineBackgroundBand[];
 };
 
+type EventLocation = Pick<
+  Extract<PatchOp, { op: "update_event_location" }>,
+  "locationLabel" | "locationLat" | "locationLng"
+>;
+
+type PublishOptions = {
+  overrideLocks?: boolean; // Admin override for changes to locked events
+};
+
+// A draft saved on the server, waiting on the user to resume or discard it
+export type SavedDraft = NonNullable<TimelineDraftResponse["draft"]>;
+
+export type DraftSaveState = "idle" | "saving" | "saved" | "error";
+
+// Someone else's publish, merged in live
+export type RemoteUpdate = {
+  version: number;
+  publishedBy: string;
+  changes: string[]; // Readable descriptions of the applied ops
+  clashesWithDraft: boolean; // Not merged yet - resolved on the next publish
+};
+
+// A publish (or resumed stale draft) that hit a version conflict and is waiting on the user
+type PendingRebase = {
+  plan: RebasePlan;
+  remote: TimelineState;
+  resuming?: SavedDraft; // Rebasing a saved draft - merge it without publishing
+};
+
 type UseTimelineReturn = {
   // State
   timeline: TimelineState | null;
   isLoading: boolean;
   error: string | null;
+  publishErrors: PatchOpError[];
   isDirty: boolean;
+  savedDraft: SavedDraft | null; // Offered for resuming after a load
+  draftSaveState: DraftSaveState;
+  remoteUpdate: RemoteUpdate | null;
+  viewers: TimelineViewer[]; // Everyone with the timeline open, including us
 
   // Computed (with draft applied)
   displayEvents: TimelineEventItem[];
   displayLanes: TimelineLane[];
+  displayDependencies: TimelineEventDependency[];
+  scheduleConflicts: ScheduleConflict[];
 
   // Actions
   refresh: () => Promise<void>;
   addEvent: (event: TimelineEventItem) => void;
+  importOps: (ops: PatchOp[]) => void; // An imported schedule, undone in one step
   updateEventTime: (eventId: string, startUtc: string, endUtc: string) => void;
+  updateEventTimes: (changes: EventTimeChange[]) => void;
   updateEventLane: (eventId: string, laneId: string) => void;
   updateEventTitle: (eventId: string, title: string) => void;
+  updateEventStatus: (eventId: string, status: EventStatus) => void;
+  updateEventLocked: (eventId: string, locked: boolean) => void;
+  updateEventNotes: (eventId: string, notes: string | null) => void;
+  updateEventCategory: (eventId: string, category: LaneType) => void;
+  updateEventLocation: (eventId: string, location: EventLocation) => void;
   deleteEvent: (eventId: string) => void;
   addLane: (lane: TimelineLane) => void;
   deleteLane: (laneId: string) => void;
+  addDependency: (dependency: TimelineEventDependency) => void;
+  deleteDependency: (dependencyId: string) => void;
 
   // Draft management
-  publish: () => Promise<boolean>;
+  publish: (options?: PublishOptions) => Promise<boolean>;
   discard: () => void;
+  resumeDraft: () => void;
+  discardSavedDraft: () => void;
+  dismissRemoteUpdate: () => void;
+
+  // Conflict resolution (after a 409 on publish, or resuming a stale draft)
+  conflicts: RebaseConflict[];
+  isResumingDraft: boolean;
+  resolveConflicts: (choices: Record<string, ConflictChoice>) => Promise<boolean>;
+  cancelRebase: () => void;
 
   // History
   undo: () => void;
@@ -75,21 +169,47 @@ type UseTimelineReturn = {
   setSelectedEventId: (id: string | null) => void;
 };
 
-export function useTimeline(weddingId: string): UseTimelineReturn {
+export function useTimeline(weddingId: string, readOnly: boolean = false): UseTimelineReturn {
   const [timeline, setTimeline] = useState<TimelineState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [draft, setDraft] = useState<DraftState>(createDraftState(0));
-  const [history, setHistory] = useState<HistoryState>(createHistory(50));
+  const [history, setHistory] = useState<HistoryState>(createHistory(HISTORY_SIZE));
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [pendingRebase, setPendingRebase] = useState<PendingRebase | null>(null);
+  const [publishErrors, setPublishErrors] = useState<PatchOpError[]>([]);
+  const [savedDraft, setSavedDraft] = useState<SavedDraft | null>(null);
+  const [draftSaveState, setDraftSaveState] = useState<DraftSaveState>("idle");
+  // Autosave stays off until any saved draft has been resumed or discarded
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  // The draft as last stored on the server (JSON), null when there is none
+  const serverDraftRef = useRef<string | null>(null);
+  const [remoteUpdate, setRemoteUpdate] = useState<RemoteUpdate | null>(null);
+  const [viewers, setViewers] = useState<TimelineViewer[]>([]);
+  // The selection last announced to others, and when
+  const announcedSelectionRef = useRef<{ eventId: string | null; at: number } | null>(null);
+  // Bumped each time the stream (re)connects - selecting only works while it is open
+  const [streamConnection, setStreamConnection] = useState(0);
+  // Latest state for the stream handler, which outlives renders
+  const latestRef = useRef({ timeline, draft });
+  // Our own publish is in flight - its response, not the stream, updates us
+  const publishingRef = useRef(false);
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  // Whose saved history is loaded, so a user switch never saves it as someone else's
+  const historyUserRef = useRef<string | null>(null);
 
-  // Fetch timeline data
+  // Fetch timeline data, and the user's saved draft
   const refresh = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    setAutosaveReady(false);
 
     try {
-      const res = await fetch(`/api/weddings/${weddingId}/timeline`);
+      const [res, draftRes] = await Promise.all([
+        fetch(`/api/weddings/${weddingId}/timeline`),
+        readOnly ? null : fetch(`/api/weddings/${weddingId}/timeline/draft`),
+      ]);
       if (!res.ok) {
         throw new Error("Failed to fetch timeline");
       }
@@ -97,19 +217,188 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
       const data: TimelineResponse = await res.json();
       setTimeline(data);
       setDraft(createDraftState(data.version));
-      setHistory(clearHistory(history));
+      historyUserRef.current = userId;
+      setHistory(
+        createHistory(
+          HISTORY_SIZE,
+          userId ? loadPublishedHistory(weddingId, userId, data) : undefined
+        )
+      );
+      setPublishErrors([]);
+
+      // A missing draft is nothing to resume, not an error
+      const saved: TimelineDraftResponse =
+        draftRes?.ok ? await draftRes.json() : { draft: null };
+      const offer = saved.draft && saved.draft.patchOps.length > 0 ? saved.draft : null;
+      serverDraftRef.current = offer
+        ? JSON.stringify({ baseVersion: offer.baseVersion, patchOps: offer.patchOps })
+        : null;
+      setSavedDraft(offer);
+      setAutosaveReady(!offer);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
       setIsLoading(false);
     }
-  }, [weddingId]);
+  }, [weddingId, readOnly, userId]);
 
   // Initial fetch
   useEffect(() => {
     refresh();
   }, [refresh]);
 
+  // Autosave the draft to the server once editing pauses (an empty draft deletes it)
+  useEffect(() => {
+    if (readOnly || !autosaveReady) return;
+
+    const payload =
+      draft.patchOps.length > 0
+        ? JSON.stringify({ baseVersion: draft.baseVersion, patchOps: draft.patchOps })
+        : null;
+    if (payload === serverDraftRef.current) return;
+
+    const timer = setTimeout(async () => {
+      setDraftSaveState("saving");
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/timeline/draft`,
+          payload
+            ? { method: "PUT", headers: { "Content-Type": "application/json" }, body: payload }
+            : { method: "DELETE" }
+        );
+        if (!res.ok) {
+          throw new Error("Failed to save draft");
+        }
+        serverDraftRef.current = payload;
+        setDraftSaveState(payload ? "saved" : "idle");
+      } catch {
+        setDraftSaveState("error");
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [weddingId, readOnly, autosaveReady, draft.baseVersion, draft.patchOps]);
+
+  useEffect(() => {
+    latestRef.current = { timeline, draft };
+  }, [timeline, draft]);
+
+  // Merge another user's publish into the official state, keeping the draft on top
+  const applyRemoteVersion = useCallback(
+    async (change: TimelineVersionEvent) => {
+      const current = latestRef.current.timeline;
+      if (!current || publishingRef.current || change.version <= current.version) return;
+
+      let next: TimelineState;
+      if (change.previousVersion === current.version) {
+        const events = applyDraftToEvents(current.events, change.patchOps);
+        const eventIds = new Set(events.map((e) => e.id));
+        next = {
+          ...current,
+          version: change.version,
+          events,
+          lanes: applyDraftToLanes(current.lanes, change.patchOps),
+          dependencies: applyDraftToDependencies(current.dependencies, change.patchOps).filter(
+            (d) => eventIds.has(d.fromEventId) && eventIds.has(d.toEventId)
+          ),
+        };
+      } else {
+        // Missed a version in between - load the whole timeline instead
+        const res = await fetch(`/api/weddings/${weddingId}/timeline`);
+        if (!res.ok) return;
+        next = await res.json();
+      }
+
+      const { draft: currentDraft } = latestRef.current;
+      const plan = planRebase(current, next, currentDraft.patchOps);
+      const clashesWithDraft = plan.conflicts.length > 0;
+
+      // A clashing draft stays on the old version; publishing will ask how to merge
+      if (!clashesWithDraft) {
+        const ops = resolveRebase(plan, {});
+        setTimeline(next);
+        setDraft({ baseVersion: next.version, patchOps: ops, isDirty: ops.length > 0 });
+      }
+
+      const formatTime = (utc: string) => utcToVenueTime(utc, current.venueTimezone);
+      setRemoteUpdate({
+        version: change.version,
+        publishedBy: change.publishedBy.displayName,
+        changes: change.patchOps.map((op) =>
+          describePatchOp(
+            op,
+            current.events,
+            [...current.lanes, ...next.lanes],
+            formatTime,
+            current.dependencies
+          )
+        ),
+        clashesWithDraft,
+      });
+    },
+    [weddingId]
+  );
+
+  // Listen for publishes by other users
+  useEffect(() => {
+    const source = new EventSource(`/api/weddings/${weddingId}/timeline/stream`);
+    source.addEventListener("open", () => {
+      // A new connection starts with no selection on the server, so announce it again
+      announcedSelectionRef.current = null;
+      setStreamConnection((count) => count + 1);
+    });
+    source.addEventListener("version", (event) => {
+      applyRemoteVersion(JSON.parse((event as MessageEvent<string>).data));
+    });
+    source.addEventListener("presence", (event) => {
+      const presence: TimelinePresenceEvent = JSON.parse((event as MessageEvent<string>).data);
+      setViewers(presence.viewers);
+    });
+    return () => source.close();
+  }, [weddingId, applyRemoteVersion]);
+
+  // Tell others which event we're editing. Edits keep the soft lock alive;
+  // the server lets it lapse once we go quiet.
+  useEffect(() => {
+    if (readOnly || streamConnection === 0) return;
+
+    const announced = announcedSelectionRef.current;
+    const unchanged = announced
+      ? announced.eventId === selectedEventId
+      : selectedEventId === null;
+    if (
+      unchanged &&
+      (selectedEventId === null || Date.now() - (announced?.at ?? 0) < SOFT_LOCK_REFRESH_MS)
+    ) {
+      return;
+    }
+
+    const announcement = { eventId: selectedEventId, at: Date.now() };
+    fetch(`/api/weddings/${weddingId}/timeline/presence`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ selectedEventId }),
+    })
+      .then((res) => {
+        // Not counted until the server has it, so a refused one is sent again
+        if (res.ok) announcedSelectionRef.current = announcement;
+      })
+      .catch(() => {
+        // Presence is best effort - editing works without it
+      });
+  }, [weddingId, readOnly, selectedEventId, draft.patchOps, streamConnection]);
+
+  const dismissRemoteUpdate = useCallback(() => {
+    setRemoteUpdate(null);
+  }, []);
+
+  // Keep published history across reloads (only once it has been loaded)
+  useEffect(() => {
+    if (timeline && userId && historyUserRef.current === userId) {
+      savePublishedHistory(weddingId, userId, history);
+    }
+  }, [weddingId, userId, timeline, history]);
+
   // Apply draft to get display state
   const displayEvents = timeline
     ? applyDraftToEvents(timeline.events, draft.patchOps)
@@ -117,16 +406,37 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
   const displayLanes = timeline
     ? applyDraftToLanes(timeline.lanes, draft.patchOps)
     : [];
+  // Hide links whose events are gone (e.g. removed with their lane)
+  const displayEventIds = new Set(displayEvents.map((e) => e.id));
+  const displayDependencies = timeline
+    ? applyDraftToDependencies(timeline.dependencies, draft.patchOps).filter(
+        (d) => displayEventIds.has(d.fromEventId) && displayEventIds.has(d.toEventId)
+      )
+    : [];
+  // Double bookings, overlaps and locked-event edits in the draft
+  const scheduleConflicts = timeline
+    ? detectScheduleConflicts(displayEvents, displayLanes, timeline.events)
+    : [];
 
-  // Helper to add patch op and record history
+  // Helper to add patch op and record history, with the ops that would reverse it
   const applyPatch = useCallback(
     (ops: PatchOp[]) => {
+      if (!timeline) return;
+
+      const inverse = invertPatchOps(
+        {
+          events: applyDraftToEvents(timeline.events, draft.patchOps),
+          lanes: applyDraftToLanes(timeline.lanes, draft.patchOps),
+          dependencies: applyDraftToDependencies(timeline.dependencies, draft.patchOps),
+        },
+        ops
+      );
       for (const op of ops) {
         setDraft((d) => addPatchOp(d, op));
       }
-      setHistory((h) => recordAction(h, ops));
+      setHistory((h) => recordAction(h, ops, inverse));
     },
-    []
+    [timeline, draft.patchOps]
   );
 
   // Actions
@@ -137,6 +447,13 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     [applyPatch]
   );
 
+  const importOps = useCallback(
+    (ops: PatchOp[]) => {
+      if (ops.length > 0) applyPatch(ops);
+    },
+    [applyPatch]
+  );
+
   const updateEventTime = useCallback(
     (eventId: string, startUtc: string, endUtc: string) => {
       applyPatch([{ op: "update_event_time", eventId, startUtc, endUtc }]);
@@ -144,6 +461,22 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     [applyPatch]
   );
 
+  // Move several events as one undoable step (e.g. a ripple through dependents)
+  const updateEventTimes = useCallback(
+    (changes: EventTimeChange[]) => {
+      if (changes.length === 0) return;
+      applyPatch(
+        changes.map(({ eventId, startUtc, endUtc }) => ({
+          op: "update_event_time" as const,
+          eventId,
+          startUtc,
+          endUtc,
+        }))
+      );
+    },
+    [applyPatch]
+  );
+
   const updateEventLane = useCallback(
     (eventId: string, laneId: string) => {
       applyPatch([{ op: "update_event_lane", eventId, laneId }]);
@@ -158,6 +491,41 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     [applyPatch]
   );
 
+  const updateEventStatus = useCallback(
+    (eventId: string, status: EventStatus) => {
+      applyPatch([{ op: "update_event_status", eventId, status }]);
+    },
+    [applyPatch]
+  );
+
+  const updateEventLocked = useCallback(
+    (eventId: string, locked: boolean) => {
+      applyPatch([{ op: "update_event_locked", eventId, locked }]);
+    },
+    [applyPatch]
+  );
+
+  const updateEventNotes = useCallback(
+    (eventId: string, notes: string | null) => {
+      applyPatch([{ op: "update_event_notes", eventId, notes }]);
+    },
+    [applyPatch]
+  );
+
+  const updateEventCategory = useCallback(
+    (eventId: string, category: LaneType) => {
+      applyPatch([{ op: "update_event_category", eventId, category }]);
+    },
+    [applyPatch]
+  );
+
+  const updateEventLocation = useCallback(
+    (eventId: string, location: EventLocation) => {
+      applyPatch([{ op: "update_event_location", eventId, ...location }]);
+    },
+    [applyPatch]
+  );
+
   const deleteEvent = useCallback(
     (eventId: string) => {
       applyPatch([{ op: "delete_event", eventId }]);
@@ -182,76 +550,205 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     [applyPatch]
   );
 
-  // Publish changes to server
-  const publish = useCallback(async (): Promise<boolean> => {
-    if (!draft.isDirty || draft.patchOps.length === 0) {
-      return true;
-    }
+  const addDependency = useCallback(
+    (dependency: TimelineEventDependency) => {
+      applyPatch([{ op: "create_dependency", dependency }]);
+    },
+    [applyPatch]
+  );
 
-    try {
-      const res = await fetch(`/api/weddings/${weddingId}/timeline`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          baseVersion: draft.baseVersion,
-          patchOps: draft.patchOps,
-        }),
-      });
+  const deleteDependency = useCallback(
+    (dependencyId: string) => {
+      applyPatch([{ op: "delete_dependency", dependencyId }]);
+    },
+    [applyPatch]
+  );
 
-      if (res.status === 409) {
-        // Version conflict
-        const data = await res.json();
-        setError(
-          `Timeline was updated by someone else. Your version: ${draft.baseVersion}, Current: ${data.currentVersion}`
-        );
+  // Send ops to the server, replaying them on newer versions when nothing clashes
+  const publishOps = useCallback(
+    async (
+      base: TimelineState,
+      patchOps: PatchOp[],
+      options: PublishOptions = {}
+    ): Promise<boolean> => {
+      let currentBase = base;
+      let ops = patchOps;
+      publishingRef.current = true;
+
+      try {
+        for (let attempt = 0; attempt < MAX_REBASE_ATTEMPTS; attempt++) {
+          if (ops.length === 0) {
+            setTimeline(currentBase);
+            setDraft(resetDraft(currentBase.version));
+            setHistory((h) => markPublished(h));
+            setError(null);
+            setPublishErrors([]);
+            return true;
+          }
+
+          const res = await fetch(`/api/weddings/${weddingId}/timeline`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              baseVersion: currentBase.version,
+              patchOps: ops,
+              overrideLocks: options.overrideLocks,
+            }),
+          });
+
+          if (res.status === 409) {
+            // Version conflict - the body carries the current server timeline
+            const remote: TimelineResponse = await res.json();
+            const plan = planRebase(currentBase, remote, ops);
+
+            if (plan.conflicts.length > 0) {
+              setPendingRebase({ plan, remote });
+              return false;
+            }
+
+            currentBase = remote;
+            ops = resolveRebase(plan, {});
+            // Keep the local draft in step so validation errors line up with it
+            setTimeline(remote);
+            setDraft({ baseVersion: remote.version, patchOps: ops, isDirty: ops.length > 0 });
+            continue;
+          }
+
+          if (res.status === 422) {
+            // Some ops were rejected - nothing was written
+            const data: PatchValidationErrorResponse = await res.json();
+            setPublishErrors(data.opErrors);
+            return false;
+          }
+
+          if (!res.ok) {
+            throw new Error("Failed to publish changes");
+          }
+
+          const data: TimelineResponse = await res.json();
+          // Publishing also deletes the saved draft on the server
+          serverDraftRef.current = null;
+          setDraftSaveState("idle");
+          setTimeline(data);
+          setDraft(resetDraft(data.version));
+          setHistory((h) => markPublished(h));
+          setError(null);
+          setPublishErrors([]);
+          return true;
+        }
+
+        throw new Error("The timeline keeps changing. Please try publishing again.");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to publish");
         return false;
+      } finally {
+        publishingRef.current = false;
       }
+    },
+    [weddingId]
+  );
 
-      if (!res.ok) {
-        throw new Error("Failed to publish changes");
+  // Publish changes to server
+  const publish = useCallback(
+    async (options: PublishOptions = {}): Promise<boolean> => {
+      if (!timeline || !draft.isDirty || draft.patchOps.length === 0) {
+        return true;
       }
 
-      const data: TimelineResponse = await res.json();
-      setTimeline(data);
-      setDraft(resetDraft(data.version));
-      setHistory(clearHistory(history));
-      setError(null);
-      return true;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to publish");
-      return false;
+      return publishOps(timeline, draft.patchOps, options);
+    },
+    [timeline, draft, publishOps]
+  );
+
+  // Start editing from a list of ops on top of `base`, undoable as one step
+  const loadDraft = useCallback((base: TimelineState, ops: PatchOp[]) => {
+    setTimeline(base);
+    setDraft({ baseVersion: base.version, patchOps: ops, isDirty: ops.length > 0 });
+    setHistory((h) => (ops.length > 0 ? recordAction(h, ops, invertPatchOps(base, ops)) : h));
+    setAutosaveReady(true);
+  }, []);
+
+  // Pick up the saved draft. A stale one is rebased like a publish conflict.
+  const resumeDraft = useCallback(() => {
+    if (!timeline || !savedDraft) return;
+    setSavedDraft(null);
+
+    if (savedDraft.baseVersion === timeline.version) {
+      loadDraft(timeline, savedDraft.patchOps);
+      return;
     }
-  }, [weddingId, draft, history]);
+
+    // Without the base version on record, replay as-is and let validation catch problems
+    const plan = planRebase(savedDraft.base ?? timeline, timeline, savedDraft.patchOps);
+    if (plan.conflicts.length > 0) {
+      setPendingRebase({ plan, remote: timeline, resuming: savedDraft });
+      return;
+    }
+    loadDraft(timeline, resolveRebase(plan, {}));
+  }, [timeline, savedDraft, loadDraft]);
+
+  const discardSavedDraft = useCallback(() => {
+    // Autosave deletes it from the server, since the local draft is empty
+    setSavedDraft(null);
+    setAutosaveReady(true);
+  }, []);
+
+  // Apply the user's mine/theirs picks, rebase the draft and publish again
+  const resolveConflicts = useCallback(
+    async (choices: Record<string, ConflictChoice>): Promise<boolean> => {
+      if (!pendingRebase) return false;
+
+      const { plan, remote, resuming } = pendingRebase;
+      const ops = resolveRebase(plan, choices);
+      setPendingRebase(null);
+
+      // A resumed draft is merged for further editing, not published
+      if (resuming) {
+        loadDraft(remote, ops);
+        return true;
+      }
+
+      // Rebase the draft onto the server state first so it survives a failed publish
+      setTimeline(remote);
+      setDraft({ baseVersion: remote.version, patchOps: ops, isDirty: ops.length > 0 });
+      // Picks may have dropped draft ops, so their inverses can't be trusted
+      setHistory((h) => revertToPublished(h));
+
+      return publishOps(remote, ops);
+    },
+    [pendingRebase, publishOps, loadDraft]
+  );
+
+  const cancelRebase = useCallback(() => {
+    // Backing out of resuming a draft offers it again
+    if (pendingRebase?.resuming) {
+      setSavedDraft(pendingRebase.resuming);
+    }
+    setPendingRebase(null);
+  }, [pendingRebase]);
 
   // Discard changes
   const discard = useCallback(() => {
     setDraft(createDraftState(draft.baseVersion));
-    setHistory(clearHistory(history));
-  }, [draft.baseVersion, history]);
+    setHistory((h) => revertToPublished(h));
+    setPublishErrors([]);
+  }, [draft.baseVersion]);
 
-  // Undo
+  // Undo - applies the action's inverse as new ops, so published changes can be
+  // undone too (publishing the result makes a new version)
   const undo = useCallback(() => {
-    const { newHistory, patchOps } = historyUndo(history);
-    if (patchOps) {
-      // Remove the last N operations from draft
-      setDraft((d) => ({
-        ...d,
-        patchOps: d.patchOps.slice(0, d.patchOps.length - patchOps.length),
-        isDirty: d.patchOps.length - patchOps.length > 0,
-      }));
+    const { newHistory, patchOps, entry } = historyUndo(history);
+    if (patchOps && entry) {
+      setDraft((d) => stepDraft(d, entry.ops, patchOps));
       setHistory(newHistory);
     }
   }, [history]);
 
   // Redo
   const redo = useCallback(() => {
-    const { newHistory, patchOps } = historyRedo(history);
-    if (patchOps) {
-      setDraft((d) => ({
-        ...d,
-        patchOps: [...d.patchOps, ...patchOps],
-        isDirty: true,
-      }));
+    const { newHistory, patchOps, entry } = historyRedo(history);
+    if (patchOps && entry) {
+      setDraft((d) => stepDraft(d, entry.inverse, patchOps));
       setHistory(newHistory);
     }
   }, [history]);
@@ -260,19 +757,42 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     timeline,
     isLoading,
     error,
+    publishErrors,
     isDirty: draft.isDirty,
+    savedDraft,
+    draftSaveState,
+    remoteUpdate,
+    viewers,
     displayEvents,
     displayLanes,
+    displayDependencies,
+    scheduleConflicts,
     refresh,
     addEvent,
+    importOps,
     updateEventTime,
+    updateEventTimes,
     updateEventLane,
     updateEventTitle,
+    updateEventStatus,
+    updateEventLocked,
+    updateEventNotes,
+    updateEventCategory,
+    updateEventLocation,
     deleteEvent,
     addLane,
     deleteLane,
+    addDependency,
+    deleteDependency,
     publish,
     discard,
+    resumeDraft,
+    discardSavedDraft,
+    dismissRemoteUpdate,
+    conflicts: pendingRebase?.plan.conflicts ?? [],
+    isResumingDraft: Boolean(pendingRebase?.resuming),
+    resolveConflicts,
+    cancelRebase,
     undo,
     redo,
     canUndo: canUndo(history),
@@ -281,3 +801,13 @@ export function useTimeline(weddingId: string): UseTimelineReturn {
     setSelectedEventId,
   };
 }
+
+// Step the draft through history: when the ops being reversed are still the
+// unpublished tail of the draft, drop them; otherwise append the reversing ops
+function stepDraft(draft: DraftState, reversedOps: PatchOp[], ops: PatchOp[]): DraftState {
+  if (endsWith(draft.patchOps, reversedOps)) {
+    const patchOps = draft.patchOps.slice(0, draft.patchOps.length - reversedOps.length);
+    return { ...draft, patchOps, isDirty: patchOps.length > 0 };
+  }
+  return ops.reduce(addPatchOp, draft);
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  PatchOpError,
+  PatchValidationErrorResponse,
+  TimelineVersionDiffResponse,
+  TimelineVersionSummary,
+  TimelineVersionsResponse,
+} from "@/types/timeline";
+
+type RestoreOptions = {
+  overrideLocks?: boolean;
+};
+
+type UseTimelineHistoryReturn = {
+  // State
+  versions: TimelineVersionSummary[];
+  currentVersion: number | null;
+  isLoading: boolean;
+  error: string | null;
+  restoreErrors: PatchOpError[];
+
+  // Actions
+  refresh: () => Promise<void>;
+  compareVersions: (
+    fromVersion: number,
+    toVersion: number
+  ) => Promise<TimelineVersionDiffResponse | null>;
+  restoreVersion: (version: number, options?: RestoreOptions) => Promise<boolean>;
+};
+
+export function useTimelineHistory(weddingId: string): UseTimelineHistoryReturn {
+  const [versions, setVersions] = useState<TimelineVersionSummary[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreErrors, setRestoreErrors] = useState<PatchOpError[]>([]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/timeline/versions`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch timeline history");
+      }
+
+      const data: TimelineVersionsResponse = await res.json();
+      setVersions(data.versions);
+      setCurrentVersion(data.currentVersion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const compareVersions = useCallback(
+    async (fromVersion: number, toVersion: number) => {
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/timeline/versions/diff?from=${fromVersion}&to=${toVersion}`
+        );
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to compare versions");
+        }
+
+        const data: TimelineVersionDiffResponse = await res.json();
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to compare versions");
+        return null;
+      }
+    },
+    [weddingId]
+  );
+
+  const restoreVersion = useCallback(
+    async (version: number, options: RestoreOptions = {}): Promise<boolean> => {
+      if (currentVersion === null) return false;
+      setError(null);
+      setRestoreErrors([]);
+
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/timeline/versions/${version}/restore`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              baseVersion: currentVersion,
+              overrideLocks: options.overrideLocks,
+            }),
+          }
+        );
+
+        if (res.status === 422) {
+          // Some restoring ops were refused (e.g. locked events) - nothing was written
+          const data: PatchValidationErrorResponse = await res.json();
+          setError(data.error);
+          setRestoreErrors(data.opErrors);
+          return false;
+        }
+
+        if (!res.ok) {
+          const data = await res.json();
+          await refresh();
+          throw new Error(data.error || "Failed to restore version");
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to restore version");
+        return false;
+      }
+    },
+    [weddingId, currentVersion, refresh]
+  );
+
+  return {
+    versions,
+    currentVersion,
+    isLoading,
+    error,
+    restoreErrors,
+    refresh,
+    compareVersions,
+    restoreVersion,
+  };
+}
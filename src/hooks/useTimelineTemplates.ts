@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  TimelineTemplate,
+  TimelineTemplateSaveRequest,
+  TimelineTemplatesResponse,
+} from "@/types/timeline";
+
+type UseTimelineTemplatesReturn = {
+  // State
+  templates: TimelineTemplate[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  saveTemplate: (request: TimelineTemplateSaveRequest) => Promise<TimelineTemplate | null>;
+  deleteTemplate: (templateId: string) => Promise<boolean>;
+};
+
+export function useTimelineTemplates(weddingId: string): UseTimelineTemplatesReturn {
+  const [templates, setTemplates] = useState<TimelineTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}/timeline/templates`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch templates");
+      }
+
+      const data: TimelineTemplatesResponse = await res.json();
+      setTemplates(data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveTemplate = useCallback(
+    async (request: TimelineTemplateSaveRequest) => {
+      setError(null);
+
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}/timeline/templates`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to save template");
+        }
+
+        const data: { template: TimelineTemplate } = await res.json();
+        setTemplates((prev) => [
+          ...prev.filter((t) => t.builtIn),
+          data.template,
+          ...prev.filter((t) => !t.builtIn),
+        ]);
+        return data.template;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save template");
+        return null;
+      }
+    },
+    [weddingId]
+  );
+
+  const deleteTemplate = useCallback(
+    async (templateId: string) => {
+      setError(null);
+
+      try {
+        const res = await fetch(
+          `/api/weddings/${weddingId}/timeline/templates/${templateId}`,
+          { method: "DELETE" }
+        );
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Failed to delete template");
+        }
+
+        setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete template");
+        return false;
+      }
+    },
+    [weddingId]
+  );
+
+  return {
+    templates,
+    isLoading,
+    error,
+    refresh,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type { Wedding, WeddingUpdateRequest } from "@/types/wedding";
+
+type UseWeddingReturn = {
+  // State
+  wedding: Wedding | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  updateWedding: (update: WeddingUpdateRequest) => Promise<boolean>;
+};
+
+export function useWedding(weddingId: string): UseWeddingReturn {
+  const [wedding, setWedding] = useState<Wedding | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/weddings/${weddingId}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch wedding");
+      }
+
+      setWedding(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weddingId]);
+
+  // Initial fetch
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updateWedding = useCallback(
+    async (update: WeddingUpdateRequest): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/weddings/${weddingId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error ?? "Failed to update wedding");
+        }
+
+        setWedding(await res.json());
+        setError(null);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update wedding");
+        return false;
+      }
+    },
+    [weddingId]
+  );
+
+  return {
+    wedding,
+    isLoading,
+    error,
+    refresh,
+    updateWedding,
+  };
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { useParams } from "next/navigation";
+import type {
+  CurrentUser,
+  ImpersonationUser,
+  SessionResponse,
+  User,
+  WeddingMembership,
+} from "@/types/wedding";
+import type { TimelineRole } from "@/types/timeline";
+import type { BudgetRole } from "@/types/cash";
+
+type AuthContextType = {
+  user: CurrentUser | null;
+  timelineRole: TimelineRole | null;
+  budgetRole: BudgetRole | null;
+  currentWeddingId: string | null;
+  setCurrentWeddingId: (id: string | null) => void;
+  signIn: (email: string, password: string) => Promise<string | null>;
+  signOut: () => Promise<void>;
+  refreshSession: () => Promise<void>;
+  // Dev-only impersonation
+  canImpersonate: boolean;
+  impersonationUsers: ImpersonationUser[];
+  switchUser: (userId: string) => Promise<void>;
+  isLoading: boolean;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const params = useParams();
+  const [sessionUser, setSessionUser] = useState<User | null>(null);
+  const [memberships, setMemberships] = useState<WeddingMembership[]>([]);
+  const [canImpersonate, setCanImpersonate] = useState(false);
+  const [impersonationUsers, setImpersonationUsers] = useState<ImpersonationUser[]>([]);
+  const [selectedWeddingId, setCurrentWeddingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Default to the wedding in the current URL
+  const currentWeddingId =
+    selectedWeddingId ?? (typeof params?.weddingId === "string" ? params.weddingId : null);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/session");
+      if (!res.ok) {
+        throw new Error("Failed to fetch session");
+      }
+
+      const data: SessionResponse = await res.json();
+      setSessionUser(data.user);
+      setMemberships(data.memberships);
+      setCanImpersonate(data.canImpersonate);
+
+      if (data.canImpersonate) {
+        const usersRes = await fetch("/api/auth/impersonate");
+        if (usersRes.ok) {
+          const usersData: { users: ImpersonationUser[] } = await usersRes.json();
+          setImpersonationUsers(usersData.users);
+        }
+      }
+    } catch (err) {
+      console.error("Error loading session:", err);
+      setSessionUser(null);
+      setMemberships([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const signIn = useCallback(
+    async (email: string, password: string): Promise<string | null> => {
+      try {
+        const res = await fetch("/api/auth/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password }),
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          return data.error ?? "Failed to sign in";
+        }
+
+        await loadSession();
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : "Failed to sign in";
+      }
+    },
+    [loadSession]
+  );
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setSessionUser(null);
+    setMemberships([]);
+  }, []);
+
+  const switchUser = useCallback(
+    async (userId: string) => {
+      const res = await fetch("/api/auth/impersonate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      });
+      if (res.ok) {
+        await loadSession();
+      }
+    },
+    [loadSession]
+  );
+
+  const membership = memberships.find((m) => m.weddingId === currentWeddingId) ?? null;
+
+  const user: CurrentUser | null = sessionUser
+    ? {
+        ...sessionUser,
+        currentWeddingId: currentWeddingId ?? undefined,
+        timelineRole: membership?.timelineRole,
+        budgetRole: membership?.budgetRole,
+      }
+    : null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        timelineRole: membership?.timelineRole ?? null,
+        budgetRole: membership?.budgetRole ?? null,
+        currentWeddingId,
+        setCurrentWeddingId,
+        signIn,
+        signOut,
+        refreshSession: loadSession,
+        canImpersonate,
+        impersonationUsers,
+        switchUser,
+        isLoading,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+// Role check hooks
+export function useCanEditTimeline() {
+  const { timelineRole } = useAuth();
+  return timelineRole === "COUPLE_TIMELINE_ADMIN" || timelineRole === "PLANNER_TIMELINE_ADMIN";
+}
+
+export function useCanEditBudget() {
+  const { budgetRole } = useAuth();
+  return budgetRole === "COUPLE_BUDGET_ADMIN";
+}
+
+export function useIsVendor() {
+  const { timelineRole } = useAuth();
+  return timelineRole === "VENDOR_TIMELINE_COLLAB";
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import type { User, WeddingMembership } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { canEditBudget, canEditTimeline, isVendor } from "@/types/wedding";
+import type { OwnerRef } from "@/types/timeline";
+import { getCurrentUser } from "./session";
+
+// What a route handler needs the caller to be allowed to do
+export type WeddingPermission =
+  | "timeline:read"
+  | "timeline:propose"
+  | "timeline:publish"
+  | "budget:manage"
+  | "members:manage"
+  | "wedding:edit";
+
+export type WeddingAccess = {
+  user: User;
+  membership: WeddingMembership;
+};
+
+type GuardResult =
+  | { ok: true; access: WeddingAccess }
+  | { ok: false; response: NextResponse };
+
+const PERMISSION_CHECKS: Record<WeddingPermission, (m: WeddingMembership) => boolean> = {
+  // Every member, including VIEW_ONLY, can read the timeline
+  "timeline:read": () => true,
+  "timeline:propose": (m) => canEditTimeline(m.timelineRole) || isVendor(m.timelineRole),
+  "timeline:publish": (m) => canEditTimeline(m.timelineRole),
+  "budget:manage": (m) => canEditBudget(m.budgetRole),
+  "members:manage": (m) => canEditTimeline(m.timelineRole),
+  "wedding:edit": (m) => canEditTimeline(m.timelineRole),
+};
+
+const PERMISSION_DENIED_MESSAGES: Record<WeddingPermission, string> = {
+  "timeline:read": "You do not have access to this timeline",
+  "timeline:propose": "Only timeline admins and vendors can submit proposals",
+  "timeline:publish": "Only the couple or planner can change the official timeline",
+  "budget:manage": "Only the couple can access cash management",
+  "members:manage": "Only the couple or planner can manage people",
+  "wedding:edit": "Only the couple or planner can edit wedding details",
+};
+
+/**
+ * Resolve the caller's membership in a wedding and check a permission.
+ * On failure, `response` is a ready-to-return 401/403 JSON error.
+ */
+export async function requireWeddingAccess(
+  weddingId: string,
+  permission: WeddingPermission
+): Promise<GuardResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
+    };
+  }
+
+  const membership = await prisma.weddingMembership.findUnique({
+    where: { weddingId_userId: { weddingId, userId: user.id } },
+  });
+
+  if (!membership) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "You are not a member of this wedding" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (!PERMISSION_CHECKS[permission](membership)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: PERMISSION_DENIED_MESSAGES[permission] },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, access: { user, membership } };
+}
+
+/**
+ * Describe the caller as a timeline owner (for proposal authorship)
+ */
+export function accessToOwnerRef({ user, membership }: WeddingAccess): OwnerRef {
+  switch (membership.timelineRole) {
+    case "COUPLE_TIMELINE_ADMIN":
+      return { id: user.id, type: "couple", displayName: user.name };
+    case "PLANNER_TIMELINE_ADMIN":
+      return { id: user.id, type: "planner", displayName: user.name };
+    case "VENDOR_TIMELINE_COLLAB":
+      return { id: user.id, type: "vendor", displayName: membership.vendorName ?? user.name };
+    default:
+      return { id: user.id, type: "person", displayName: user.name };
+  }
+}
@@ -0,0 +1,31 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password for storage as `scrypt$<salt>$<hash>` (base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = await scrypt(password, Buffer.from(saltB64, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
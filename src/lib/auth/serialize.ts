@@ -0,0 +1,24 @@
+import type { User as UserRecord, WeddingMembership as MembershipRecord } from "@prisma/client";
+import type { User, WeddingMembership } from "@/types/wedding";
+
+// Public user fields - never send the password hash to the client
+export function serializeUser(user: UserRecord): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    avatarUrl: user.avatarUrl ?? undefined,
+  };
+}
+
+export function serializeMembership(membership: MembershipRecord): WeddingMembership {
+  return {
+    id: membership.id,
+    weddingId: membership.weddingId,
+    userId: membership.userId,
+    timelineRole: membership.timelineRole,
+    budgetRole: membership.budgetRole,
+    vendorName: membership.vendorName ?? undefined,
+    vendorType: membership.vendorType ?? undefined,
+  };
+}
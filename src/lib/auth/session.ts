@@ -0,0 +1,78 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import type { User } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { generateToken, hashToken } from "./token";
+
+export const SESSION_COOKIE = "wp_session";
+
+const SESSION_TTL_DAYS = 30;
+
+// Signing in as any user without a password is only allowed outside production
+export const isImpersonationEnabled = process.env.NODE_ENV !== "production";
+
+/**
+ * Start a new session for a user. Only the token's hash is stored.
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * End the session behind a cookie token (no-op if it doesn't exist)
+ */
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+/**
+ * Resolve the signed-in user from the session cookie, or null if there is none.
+ * Usable from any route handler.
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    // deleteMany so a parallel request cleaning up the same session doesn't throw
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  return session.user;
+}
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Generate a random URL-safe token for cookies and links
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hash a token for storage - only hashes are kept in the database
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,75 @@
+import { DateTime } from "luxon";
+import type { PaymentScheduleOptions, ScheduledPayment } from "@/types/cash";
+
+// Payment schedules for new contracts. Shared by the contracts API, which saves
+// the milestones, and the contract dialog, which previews them.
+
+export const MAX_INSTALLMENTS = 12;
+
+export type ScheduleContext = {
+  labelPrefix: string; // Usually the vendor name
+  startDate: string; // YYYY-MM-DD the deposit is due, e.g. the signed date
+  weddingDate: string; // YYYY-MM-DD
+};
+
+export function validatePaymentSchedule(options: PaymentScheduleOptions): string | null {
+  const { depositPercent, installmentCount, balanceDaysBefore } = options;
+
+  if (typeof depositPercent !== "number" || !(depositPercent >= 0 && depositPercent <= 100)) {
+    return "Deposit must be between 0% and 100%";
+  }
+  if (
+    !Number.isInteger(installmentCount) ||
+    installmentCount < 0 ||
+    installmentCount > MAX_INSTALLMENTS
+  ) {
+    return `Installments must be a whole number from 0 to ${MAX_INSTALLMENTS}`;
+  }
+  if (!Number.isInteger(balanceDaysBefore) || balanceDaysBefore < 0) {
+    return "Balance due date must be a whole number of days before the wedding";
+  }
+  return null;
+}
+
+/**
+ * Split a contract total into a deposit, installments and a final payment.
+ * Installments are spaced evenly between the deposit and the balance due date,
+ * and any rounding remainder lands on the final payment so the schedule always
+ * adds up to the total. When there's too little left to give every installment
+ * a cent, the installments are dropped and the final payment takes it all. A
+ * balance date that's already passed falls back to the start date.
+ */
+export function generatePaymentSchedule(
+  totalAmount: number,
+  options: PaymentScheduleOptions,
+  context: ScheduleContext
+): ScheduledPayment[] {
+  const start = DateTime.fromISO(context.startDate, { zone: "utc" }).startOf("day");
+  const wedding = DateTime.fromISO(context.weddingDate, { zone: "utc" }).startOf("day");
+  const balanceDue = DateTime.max(wedding.minus({ days: options.balanceDaysBefore }), start);
+
+  const payments: ScheduledPayment[] = [];
+  const add = (label: string, amount: number, due: DateTime) => {
+    payments.push({ label: `${context.labelPrefix} - ${label}`, amount, dueDate: due.toISODate()! });
+  };
+
+  const deposit = Math.round((totalAmount * options.depositPercent) / 100);
+  if (deposit > 0) add("Deposit", deposit, start);
+
+  const remaining = totalAmount - deposit;
+  if (remaining <= 0) return payments;
+
+  // Installments plus the final payment share what's left
+  const parts = options.installmentCount + 1;
+  const share = Math.floor(remaining / parts);
+  const installmentCount = share > 0 ? options.installmentCount : 0;
+  const spanDays = balanceDue.diff(start, "days").days;
+
+  for (let i = 1; i <= installmentCount; i++) {
+    const due = start.plus({ days: Math.round((spanDays * i) / parts) });
+    add(installmentCount === 1 ? "Installment" : `Installment ${i}`, share, due);
+  }
+
+  add("Final Payment", remaining - share * installmentCount, balanceDue);
+  return payments;
+}
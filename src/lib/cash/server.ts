@@ -0,0 +1,297 @@
+import type {
+  BudgetCategory as CategoryRecord,
+  BudgetFundingSource as FundingSourceRecord,
+  Contract as ContractRecord,
+  PaymentMilestone as MilestoneRecord,
+  PaymentTransaction as PaymentRecord,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { evaluateMilestoneStatus, venueToday } from "@/lib/cash/status";
+import type {
+  ContractUpdateRequest,
+  ContractWithSchedule,
+  FundingSource,
+  FundingSourceUpdateRequest,
+  MilestoneUpdateRequest,
+  PaymentMilestone,
+  PaymentTransaction,
+  PaymentTransactionCreateRequest,
+} from "@/types/cash";
+
+// Server-side helpers for the cash management routes
+
+export function serializeFundingSource(source: FundingSourceRecord): FundingSource {
+  return {
+    id: source.id,
+    weddingId: source.weddingId,
+    name: source.name,
+    committedAmount: source.committedAmount,
+    notes: source.notes ?? undefined,
+  };
+}
+
+export function serializeMilestone(milestone: MilestoneRecord): PaymentMilestone {
+  return {
+    id: milestone.id,
+    weddingId: milestone.weddingId,
+    categoryId: milestone.categoryId ?? undefined,
+    contractId: milestone.contractId ?? undefined,
+    fundingSourceId: milestone.fundingSourceId ?? undefined,
+    label: milestone.label,
+    amount: milestone.amount,
+    dueDate: milestone.dueDate.toISOString(),
+    status: milestone.status,
+    paidDate: milestone.paidDate?.toISOString(),
+    paidAmount: milestone.paidAmount ?? undefined,
+    paymentMethod: milestone.paymentMethod ?? undefined,
+    confirmationRef: milestone.confirmationRef ?? undefined,
+    notes: milestone.notes ?? undefined,
+  };
+}
+
+export function serializePayment(payment: PaymentRecord): PaymentTransaction {
+  return {
+    id: payment.id,
+    milestoneId: payment.milestoneId,
+    amount: payment.amount,
+    paidDate: payment.paidDate.toISOString(),
+    paymentMethod: payment.paymentMethod ?? undefined,
+    confirmationRef: payment.confirmationRef ?? undefined,
+    notes: payment.notes ?? undefined,
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
+
+export function serializeContract(
+  contract: ContractRecord & { category: CategoryRecord | null; milestones: MilestoneRecord[] }
+): ContractWithSchedule {
+  const scheduledAmount = contract.milestones.reduce((sum, m) => sum + m.amount, 0);
+  return {
+    id: contract.id,
+    weddingId: contract.weddingId,
+    categoryId: contract.categoryId ?? undefined,
+    categoryName: contract.category?.name,
+    vendorName: contract.vendorName,
+    vendorContact: contract.vendorContact ?? undefined,
+    vendorEmail: contract.vendorEmail ?? undefined,
+    vendorPhone: contract.vendorPhone ?? undefined,
+    totalAmount: contract.totalAmount,
+    notes: contract.notes ?? undefined,
+    signedDate: contract.signedDate?.toISOString().slice(0, 10),
+    milestones: [...contract.milestones]
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+      .map(serializeMilestone),
+    scheduledAmount,
+    scheduleMismatch: scheduledAmount !== contract.totalAmount,
+  };
+}
+
+// YYYY-MM-DD, stored as midnight UTC like the other budget dates
+export function parseDateOnly(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+export function isValidAmount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check a funding source create/update body. With `partial`, missing fields
+ * are left alone; otherwise name and committedAmount are required.
+ */
+export function validateFundingSource(
+  body: FundingSourceUpdateRequest,
+  partial: boolean
+): string | null {
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return "Name is required";
+    }
+  }
+
+  if (body.committedAmount !== undefined || !partial) {
+    if (!isValidAmount(body.committedAmount)) {
+      return "committedAmount must be a whole number of cents, zero or more";
+    }
+  }
+
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== "string") {
+    return "notes must be a string";
+  }
+
+  return null;
+}
+
+/**
+ * Check a contract create/update body. With `partial`, missing fields are left
+ * alone; otherwise vendorName and totalAmount are required.
+ */
+export function validateContract(body: ContractUpdateRequest, partial: boolean): string | null {
+  if (body.vendorName !== undefined || !partial) {
+    if (typeof body.vendorName !== "string" || !body.vendorName.trim()) {
+      return "Vendor name is required";
+    }
+  }
+
+  if (body.totalAmount !== undefined || !partial) {
+    if (!isValidAmount(body.totalAmount)) {
+      return "totalAmount must be a whole number of cents, zero or more";
+    }
+  }
+
+  if (body.signedDate !== undefined && body.signedDate !== null && !parseDateOnly(body.signedDate)) {
+    return "signedDate must be a date (YYYY-MM-DD)";
+  }
+
+  for (const field of ["vendorContact", "vendorEmail", "vendorPhone", "notes"] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a milestone create/update body. With `partial`, missing fields are left
+ * alone; otherwise label, amount and dueDate are required.
+ */
+export function validateMilestone(body: MilestoneUpdateRequest, partial: boolean): string | null {
+  if (body.label !== undefined || !partial) {
+    if (typeof body.label !== "string" || !body.label.trim()) {
+      return "Label is required";
+    }
+  }
+
+  if (body.amount !== undefined || !partial) {
+    if (!isValidAmount(body.amount) || body.amount === 0) {
+      return "amount must be a whole number of cents, more than zero";
+    }
+  }
+
+  if (body.dueDate !== undefined || !partial) {
+    if (typeof body.dueDate !== "string" || !parseDateOnly(body.dueDate)) {
+      return "dueDate must be a date (YYYY-MM-DD)";
+    }
+  }
+
+  if (body.status !== undefined && body.status !== "paid") {
+    return 'status can only be set to "paid"; remove payments to mark a milestone unpaid';
+  }
+
+  if (
+    body.paidDate !== undefined &&
+    body.paidDate !== null &&
+    (typeof body.paidDate !== "string" || !parseDateOnly(body.paidDate))
+  ) {
+    return "paidDate must be a date (YYYY-MM-DD)";
+  }
+
+  for (const field of [
+    "categoryId",
+    "contractId",
+    "fundingSourceId",
+    "paymentMethod",
+    "confirmationRef",
+    "notes",
+  ] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Make sure the category, contract and funding source a milestone points at
+ * belong to the same wedding. Returns the first problem, if any.
+ */
+export async function findMilestoneLinkError(
+  weddingId: string,
+  links: Pick<MilestoneUpdateRequest, "categoryId" | "contractId" | "fundingSourceId">
+): Promise<string | null> {
+  if (links.categoryId) {
+    const category = await prisma.budgetCategory.findUnique({ where: { id: links.categoryId } });
+    if (category?.weddingId !== weddingId) return "Budget category not found";
+  }
+
+  if (links.contractId) {
+    const contract = await prisma.contract.findUnique({ where: { id: links.contractId } });
+    if (contract?.weddingId !== weddingId) return "Contract not found";
+  }
+
+  if (links.fundingSourceId) {
+    const source = await prisma.budgetFundingSource.findUnique({
+      where: { id: links.fundingSourceId },
+    });
+    if (source?.weddingId !== weddingId) return "Funding source not found";
+  }
+
+  return null;
+}
+
+export function validatePayment(body: PaymentTransactionCreateRequest): string | null {
+  if (!isValidAmount(body.amount) || body.amount === 0) {
+    return "amount must be a whole number of cents, more than zero";
+  }
+
+  if (typeof body.paidDate !== "string" || !parseDateOnly(body.paidDate)) {
+    return "paidDate must be a date (YYYY-MM-DD)";
+  }
+
+  for (const field of ["paymentMethod", "confirmationRef", "notes"] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Recompute a milestone's paid fields from its payments: paidAmount is their
+ * sum, paymentMethod/confirmationRef come from the latest one, and it's "paid"
+ * (dated by the payment that finished it off) once the sum covers the amount.
+ * A milestone that's no longer covered gets the status its due date calls for.
+ */
+export async function syncMilestonePayments(
+  tx: Prisma.TransactionClient,
+  milestoneId: string,
+  now = new Date()
+): Promise<MilestoneRecord> {
+  const milestone = await tx.paymentMilestone.findUniqueOrThrow({
+    where: { id: milestoneId },
+    include: {
+      payments: { orderBy: [{ paidDate: "asc" }, { createdAt: "asc" }] },
+      wedding: { select: { venueTimezone: true } },
+    },
+  });
+
+  const paidAmount = milestone.payments.reduce((sum, p) => sum + p.amount, 0);
+  const latest = milestone.payments.at(-1);
+  const fullyPaid = paidAmount > 0 && paidAmount >= milestone.amount;
+
+  const status = evaluateMilestoneStatus(
+    milestone.dueDate,
+    fullyPaid,
+    venueToday(milestone.wedding.venueTimezone, now)
+  );
+
+  return tx.paymentMilestone.update({
+    where: { id: milestoneId },
+    data: {
+      paidAmount: paidAmount > 0 ? paidAmount : null,
+      paymentMethod: latest?.paymentMethod ?? null,
+      confirmationRef: latest?.confirmationRef ?? null,
+      status,
+      paidDate: fullyPaid ? latest!.paidDate : null,
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { DateTime } from "luxon";
+import { prisma } from "@/lib/db";
+import type { MilestoneStatus } from "@/types/cash";
+
+// Status lifecycle for unpaid payment milestones: planned until the due date
+// is within the due window, due until it passes, late after that. Paid is set
+// by the payments (see syncMilestonePayments) and never changed here.
+
+export const DEFAULT_DUE_WINDOW_DAYS = 14;
+
+// MILESTONE_DUE_WINDOW_DAYS overrides the default window
+export function getDueWindowDays(): number {
+  const raw = process.env.MILESTONE_DUE_WINDOW_DAYS;
+  const days = raw ? Number(raw) : NaN;
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_DUE_WINDOW_DAYS;
+}
+
+// Today's date (YYYY-MM-DD) at the venue, which is what due dates are in
+export function venueToday(venueTimezone: string, now = new Date()): string {
+  return DateTime.fromJSDate(now).setZone(venueTimezone).toISODate()!;
+}
+
+/**
+ * Work out a milestone's status on `today` (YYYY-MM-DD). A milestone due today
+ * is still due; it's late from the next day.
+ */
+export function evaluateMilestoneStatus(
+  dueDate: Date,
+  fullyPaid: boolean,
+  today: string,
+  windowDays = getDueWindowDays()
+): MilestoneStatus {
+  if (fullyPaid) return "paid";
+
+  const due = dueDate.toISOString().slice(0, 10);
+  if (due < today) return "late";
+
+  const windowEnd = DateTime.fromISO(today, { zone: "utc" }).plus({ days: windowDays }).toISODate()!;
+  return due <= windowEnd ? "due" : "planned";
+}
+
+export type MilestoneStatusChange = {
+  id: string;
+  weddingId: string;
+  from: MilestoneStatus;
+  to: MilestoneStatus;
+};
+
+/**
+ * Re-evaluate the unpaid milestones of one wedding, or of every wedding when
+ * weddingId is omitted, and save the ones whose status has moved on.
+ */
+export async function refreshMilestoneStatuses(
+  weddingId?: string,
+  now = new Date()
+): Promise<MilestoneStatusChange[]> {
+  const milestones = await prisma.paymentMilestone.findMany({
+    where: { weddingId, status: { not: "paid" } },
+    select: {
+      id: true,
+      weddingId: true,
+      status: true,
+      dueDate: true,
+      wedding: { select: { venueTimezone: true } },
+    },
+  });
+
+  const windowDays = getDueWindowDays();
+  const changes: MilestoneStatusChange[] = [];
+  for (const milestone of milestones) {
+    const today = venueToday(milestone.wedding.venueTimezone, now);
+    const status = evaluateMilestoneStatus(milestone.dueDate, false, today, windowDays);
+    if (status !== milestone.status) {
+      changes.push({
+        id: milestone.id,
+        weddingId: milestone.weddingId,
+        from: milestone.status,
+        to: status,
+      });
+    }
+  }
+
+  if (changes.length > 0) {
+    // One update per new status
+    const statuses = [...new Set(changes.map((c) => c.to))];
+    await prisma.$transaction(
+      statuses.map((status) =>
+        prisma.paymentMilestone.updateMany({
+          where: { id: { in: changes.filter((c) => c.to === status).map((c) => c.id) } },
+          data: { status },
+        })
+      )
+    );
+  }
+
+  return changes;
+}
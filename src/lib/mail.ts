@@ -0,0 +1,21 @@
+// Local stand-in for an email provider. Messages are written to the server
+// log so links can be copied from the terminal during development.
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  console.info(
+    [
+      "---------- outgoing mail ----------",
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "-----------------------------------",
+    ].join("\n")
+  );
+}
@@ -0,0 +1,115 @@
+import type {
+  MembershipAuditEntry as AuditRecord,
+  MembershipAuditAction,
+  Prisma,
+  User,
+  WeddingInvitation as InvitationRecord,
+  WeddingMembership as MembershipRecord,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { canEditBudget, canEditTimeline } from "@/types/wedding";
+import type {
+  InvitationStatus,
+  MembershipAuditEntry,
+  WeddingInvitation,
+} from "@/types/wedding";
+import type { TimelineRole } from "@/types/timeline";
+import type { BudgetRole } from "@/types/cash";
+
+// Server-side helpers for the membership and invitation routes
+
+export const INVITATION_TTL_DAYS = 7;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+export function invitationStatus(invitation: InvitationRecord, now = new Date()): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt < now) return "expired";
+  return "pending";
+}
+
+export function serializeInvitation(invitation: InvitationRecord): WeddingInvitation {
+  return {
+    id: invitation.id,
+    weddingId: invitation.weddingId,
+    email: invitation.email,
+    timelineRole: invitation.timelineRole,
+    budgetRole: invitation.budgetRole,
+    vendorName: invitation.vendorName ?? undefined,
+    vendorType: invitation.vendorType ?? undefined,
+    invitedBy: { id: invitation.invitedById, name: invitation.invitedByName },
+    status: invitationStatus(invitation),
+    expiresAt: invitation.expiresAt.toISOString(),
+    acceptedAt: invitation.acceptedAt?.toISOString(),
+    revokedAt: invitation.revokedAt?.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+export function serializeAuditEntry(entry: AuditRecord): MembershipAuditEntry {
+  return {
+    id: entry.id,
+    action: entry.action,
+    actor: { id: entry.actorId, name: entry.actorName },
+    subjectEmail: entry.subjectEmail,
+    timelineRole: entry.timelineRole ?? undefined,
+    budgetRole: entry.budgetRole ?? undefined,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Record who granted or removed which role. Pass a transaction client to
+ * write the entry together with the change it describes.
+ */
+export async function recordMembershipAudit(
+  weddingId: string,
+  actor: User,
+  action: MembershipAuditAction,
+  subject: { email: string; timelineRole?: TimelineRole; budgetRole?: BudgetRole },
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await client.membershipAuditEntry.create({
+    data: {
+      weddingId,
+      action,
+      actorId: actor.id,
+      actorName: actor.name,
+      subjectEmail: subject.email,
+      timelineRole: subject.timelineRole ?? null,
+      budgetRole: subject.budgetRole ?? null,
+    },
+  });
+}
+
+/**
+ * Would changing (or removing, when `next` is null) this membership leave the
+ * wedding without a timeline or budget admin?
+ */
+export async function wouldRemoveLastAdmin(
+  current: MembershipRecord,
+  next: { timelineRole: TimelineRole; budgetRole: BudgetRole } | null
+): Promise<boolean> {
+  const others = await prisma.weddingMembership.findMany({
+    where: { weddingId: current.weddingId, id: { not: current.id } },
+  });
+
+  const losesTimelineAdmin =
+    canEditTimeline(current.timelineRole) && !(next && canEditTimeline(next.timelineRole));
+  const losesBudgetAdmin =
+    canEditBudget(current.budgetRole) && !(next && canEditBudget(next.budgetRole));
+
+  return (
+    (losesTimelineAdmin && !others.some((m) => canEditTimeline(m.timelineRole))) ||
+    (losesBudgetAdmin && !others.some((m) => canEditBudget(m.budgetRole)))
+  );
+}
@@ -0,0 +1,221 @@
+// Minimal PDF writer for printable exports: text, lines and filled boxes on
+// fixed-size pages, using the built-in Helvetica fonts (no font embedding).
+// Coordinates are in points with the origin at the top-left of the page.
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOptions = {
+  size?: number;
+  font?: PdfFont;
+  gray?: number; // 0 = black, 1 = white
+};
+
+type PdfPage = {
+  ops: string[];
+};
+
+// US Letter, landscape
+export const PAGE_WIDTH = 792;
+export const PAGE_HEIGHT = 612;
+
+// Advance widths (per 1000 units of font size) for ASCII 32-126, from the
+// standard Helvetica AFM files. Anything else is measured as DEFAULT_WIDTH.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+/**
+ * Width of `text` in points when set in the given font and size
+ */
+export function measureText(text: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break `text` into lines no wider than `maxWidth`. Words longer than a line
+ * are split; explicit line breaks are kept.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular"
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = "";
+      // Hard-break a word that doesn't fit on a line of its own
+      let rest = word;
+      while (measureText(rest, size, font) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+  private current = -1;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page; later drawing calls go to it
+   */
+  addPage(): void {
+    this.pages.push({ ops: [] });
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Switch drawing back to an earlier page (0-based), e.g. to add page numbers
+   */
+  setPage(index: number): void {
+    this.current = index;
+  }
+
+  private get page(): PdfPage {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.current];
+  }
+
+  /**
+   * Draw a single line of text with its baseline at `y`
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const { size = 10, font = "regular", gray = 0 } = options;
+    const fontName = font === "bold" ? "F2" : "F1";
+    this.page.ops.push(
+      `BT ${num(gray)} g /${fontName} ${num(size)} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td <${encodeText(text)}> Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray: number = 0, width: number = 0.5) {
+    this.page.ops.push(
+      `${num(gray)} G ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, gray: number): void {
+    this.page.ops.push(
+      `${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  /**
+   * Serialize the document to PDF bytes
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) this.addPage();
+
+    // Objects 1-4 are fixed; each page then takes a page object and its content stream
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+    );
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    );
+
+    this.pages.forEach((page, i) => {
+      const content = page.ops.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Everything written is ASCII, so string offsets are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// Hex string in WinAnsiEncoding; characters the standard fonts can't show become "?"
+function encodeText(text: string): string {
+  let hex = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte =
+      WIN_ANSI_EXTRAS[char] ??
+      ((code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63);
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
@@ -93,6 +93,11 @@ export function validateEventTimes(
   const windowStart = DateTime.fromISO(windowStartUtc);
   const windowEnd = DateTime.fromISO(windowEndUtc);
 
+  // Check both times parse
+  if (!start.isValid || !end.isValid) {
+    return { valid: false, error: "Start and end must be valid ISO timestamps" };
+  }
+
   // Check start is before end
   if (end <= start) {
     return { valid: false, error: "End time must be after start time" };
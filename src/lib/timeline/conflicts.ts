@@ -0,0 +1,154 @@
+import type { TimelineEventItem, TimelineLane } from "@/types/timeline";
+
+export type ScheduleConflictKind = "owner_double_booked" | "lane_overlap" | "locked_changed";
+
+export type ScheduleConflictSeverity = "warning" | "error";
+
+export type ScheduleConflict = {
+  id: string;
+  kind: ScheduleConflictKind;
+  severity: ScheduleConflictSeverity;
+  eventIds: string[]; // events involved (a deleted locked event is listed but not on the canvas)
+  message: string;
+};
+
+/**
+ * Find scheduling problems in a (draft) timeline:
+ * - the same assigned owner in two overlapping events
+ * - overlapping events in one lane
+ * - locked events the draft changed or deleted, compared with `officialEvents`
+ */
+export function detectScheduleConflicts(
+  events: TimelineEventItem[],
+  lanes: TimelineLane[],
+  officialEvents: TimelineEventItem[]
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const laneNames = new Map(lanes.map((l) => [l.id, l.name]));
+
+  const byOwner = groupBy(
+    events.filter((e) => e.assignedOwner?.trim()),
+    (e) => e.assignedOwner!.trim()
+  );
+  for (const [owner, ownerEvents] of byOwner) {
+    for (const [a, b] of overlappingPairs(ownerEvents)) {
+      conflicts.push({
+        id: `owner:${a.id}:${b.id}`,
+        kind: "owner_double_booked",
+        severity: "warning",
+        eventIds: [a.id, b.id],
+        message: `${owner} is booked for "${a.title}" and "${b.title}" at the same time`,
+      });
+    }
+  }
+
+  for (const [laneId, laneEvents] of groupBy(events, (e) => e.laneId)) {
+    const laneName = laneNames.get(laneId) ?? "the same lane";
+    for (const [a, b] of overlappingPairs(laneEvents)) {
+      conflicts.push({
+        id: `lane:${a.id}:${b.id}`,
+        kind: "lane_overlap",
+        severity: "warning",
+        eventIds: [a.id, b.id],
+        message: `"${a.title}" overlaps "${b.title}" in ${laneName}`,
+      });
+    }
+  }
+
+  conflicts.push(...findLockedChanges(officialEvents, events));
+
+  return conflicts;
+}
+
+/**
+ * Locked events that differ between the official timeline and a draft of it
+ */
+export function findLockedChanges(
+  officialEvents: TimelineEventItem[],
+  draftEvents: TimelineEventItem[]
+): ScheduleConflict[] {
+  const draft = new Map(draftEvents.map((e) => [e.id, e]));
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const original of officialEvents) {
+    if (!original.locked) continue;
+
+    const current = draft.get(original.id);
+    if (current && !lockedFieldsChanged(original, current)) continue;
+
+    conflicts.push({
+      id: `locked:${original.id}`,
+      kind: "locked_changed",
+      severity: "error",
+      eventIds: [original.id],
+      message: current
+        ? `"${original.title}" is locked but has been changed`
+        : `"${original.title}" is locked but has been deleted`,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Index conflicts by the events they involve
+ */
+export function conflictsByEvent(
+  conflicts: ScheduleConflict[]
+): Record<string, ScheduleConflict[]> {
+  const result: Record<string, ScheduleConflict[]> = {};
+  for (const conflict of conflicts) {
+    for (const eventId of conflict.eventIds) {
+      (result[eventId] ??= []).push(conflict);
+    }
+  }
+  return result;
+}
+
+function lockedFieldsChanged(a: TimelineEventItem, b: TimelineEventItem): boolean {
+  return (
+    !sameInstant(a.startUtc, b.startUtc) ||
+    !sameInstant(a.endUtc, b.endUtc) ||
+    a.laneId !== b.laneId ||
+    a.title !== b.title ||
+    (a.assignedOwner ?? null) !== (b.assignedOwner ?? null) ||
+    a.category !== b.category ||
+    (a.locationLabel ?? null) !== (b.locationLabel ?? null) ||
+    (a.locationLat ?? null) !== (b.locationLat ?? null) ||
+    (a.locationLng ?? null) !== (b.locationLng ?? null)
+  );
+}
+
+// Every pair of events whose time ranges overlap (touching end-to-start is fine)
+function overlappingPairs(events: TimelineEventItem[]): [TimelineEventItem, TimelineEventItem][] {
+  const sorted = [...events].sort((a, b) => toMs(a.startUtc) - toMs(b.startUtc));
+  const pairs: [TimelineEventItem, TimelineEventItem][] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const end = toMs(sorted[i].endUtc);
+    for (let j = i + 1; j < sorted.length && toMs(sorted[j].startUtc) < end; j++) {
+      pairs.push([sorted[i], sorted[j]]);
+    }
+  }
+
+  return pairs;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return toMs(a) === toMs(b);
+}
+
+function toMs(utcIso: string): number {
+  return new Date(utcIso).getTime();
+}
@@ -0,0 +1,311 @@
+import { DateTime } from "luxon";
+import { v4 as uuidv4 } from "uuid";
+import { LANE_TYPE_LABELS } from "@/types/timeline";
+import type { LaneType, PatchOp, TimelineEventItem, TimelineLane } from "@/types/timeline";
+
+// Turns a planner's spreadsheet schedule (CSV, or cells pasted from a
+// spreadsheet) into create_lane/create_event ops for the draft
+
+export type ImportColumn =
+  | "start"
+  | "end"
+  | "duration"
+  | "title"
+  | "lane"
+  | "owner"
+  | "notes"
+  | "location";
+
+export type ImportContext = {
+  lanes: TimelineLane[]; // Lanes in the current draft
+  venueTimezone: string;
+  windowStartUtc: string;
+  windowEndUtc: string;
+};
+
+export type ImportRow = {
+  rowNumber: number; // 1-based row in the sheet, counting the header
+  title: string;
+  startUtc: string | null;
+  endUtc: string | null;
+  laneName: string;
+  newLane: boolean; // The lane will be created by the import
+  errors: string[];
+};
+
+export type ImportResult = {
+  rows: ImportRow[];
+  ops: PatchOp[]; // Only for rows without errors
+  newLanes: string[];
+  error: string | null; // The file as a whole couldn't be read
+};
+
+// Header spellings we recognise, after lowercasing and dropping punctuation
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  start: ["time", "start", "start time", "starts", "from", "begin"],
+  end: ["end", "end time", "ends", "until", "to", "finish"],
+  duration: ["duration", "length", "how long", "mins", "minutes"],
+  title: ["title", "event", "activity", "item", "what", "name"],
+  lane: ["lane", "track", "category", "department", "team", "group"],
+  owner: ["owner", "who", "assigned", "assigned to", "assignee", "responsible", "vendor"],
+  notes: ["notes", "note", "details", "description", "comments"],
+  location: ["location", "where", "place", "venue"],
+};
+
+// Used when a row doesn't name a lane
+const DEFAULT_LANE_NAME = "Imported";
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells (with doubled quotes,
+ * commas and line breaks inside) and picks tab or semicolon delimiters when the
+ * text was pasted from a spreadsheet or exported with a European locale.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes("\t")
+    ? "\t"
+    : count(firstLine, ";") > count(firstLine, ",")
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a duration like "45 min", "1.5 hours", "1h 30m", "1:30" or "90" (minutes)
+ */
+export function parseDuration(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  const clock = value.match(/^(\d+):(\d{2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.round(Number(value));
+
+  let minutes = 0;
+  let matched = false;
+  const parts = value.matchAll(/(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/g);
+  for (const [, amount, unit] of parts) {
+    matched = true;
+    minutes += Number(amount) * (unit.startsWith("h") ? 60 : 1);
+  }
+
+  return matched && minutes > 0 ? Math.round(minutes) : null;
+}
+
+/**
+ * Parse a venue-local time of day ("2:30 PM", "2pm", "14:30") within the
+ * timeline window. Times before the window opens (3 AM) belong to the next day.
+ */
+export function parseVenueTime(
+  text: string,
+  venueTimezone: string,
+  windowStartUtc: string
+): DateTime | null {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0];
+
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "p" ? 12 : 0);
+  } else if (hour > 23 || match[2] === undefined) {
+    // A bare number is too ambiguous to be a time
+    return null;
+  }
+
+  const windowStart = DateTime.fromISO(windowStartUtc, { zone: "utc" }).setZone(venueTimezone);
+  const time = windowStart.set({ hour, minute, second: 0, millisecond: 0 });
+  return time < windowStart ? time.plus({ days: 1 }) : time;
+}
+
+/**
+ * Read an imported schedule and build the ops that add it to the draft.
+ * Rows with problems are reported and left out; the rest go in as tentative events.
+ */
+export function buildImportOps(text: string, context: ImportContext): ImportResult {
+  // Keep each row's line number for error messages, then drop blank rows
+  const [header, ...body] = parseCsv(text)
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.some((c) => c.trim() !== ""));
+  const empty = { rows: [], ops: [], newLanes: [] };
+
+  if (!header) {
+    return { ...empty, error: "The file is empty" };
+  }
+
+  const columns = mapColumns(header.cells);
+  if (columns.start === undefined || columns.title === undefined) {
+    return {
+      ...empty,
+      error: "The first row needs column names, including a start time and a title",
+    };
+  }
+
+  const windowEnd = DateTime.fromISO(context.windowEndUtc, { zone: "utc" });
+  const lanesByName = new Map(context.lanes.map((lane) => [normalize(lane.name), lane]));
+  let nextSortOrder = Math.max(-1, ...context.lanes.map((lane) => lane.sortOrder)) + 1;
+
+  const laneOps: PatchOp[] = [];
+  const eventOps: PatchOp[] = [];
+  const newLanes: string[] = [];
+
+  const rows = body.map(({ cells, rowNumber }): ImportRow => {
+    const cell = (column: ImportColumn) => {
+      const i = columns[column];
+      return i === undefined ? "" : (cells[i] ?? "").trim();
+    };
+
+    const errors: string[] = [];
+    const title = cell("title");
+    const laneName = cell("lane") || DEFAULT_LANE_NAME;
+    if (!title) errors.push("Title is missing");
+
+    const start = parseVenueTime(cell("start"), context.venueTimezone, context.windowStartUtc);
+    if (!start) errors.push(`Can't read start time "${cell("start")}"`);
+
+    let end: DateTime | null = null;
+    if (start && cell("end")) {
+      end = parseVenueTime(cell("end"), context.venueTimezone, context.windowStartUtc);
+      if (!end) errors.push(`Can't read end time "${cell("end")}"`);
+    } else if (start && cell("duration")) {
+      const minutes = parseDuration(cell("duration"));
+      if (minutes) end = start.plus({ minutes });
+      else errors.push(`Can't read duration "${cell("duration")}"`);
+    } else if (start) {
+      errors.push("Needs an end time or a duration");
+    }
+
+    if (start && end) {
+      if (end <= start) errors.push("Ends before it starts");
+      else if (end > windowEnd) errors.push("Runs past the end of the day-of timeline");
+    }
+
+    const existingLane = lanesByName.get(normalize(laneName));
+    const row: ImportRow = {
+      rowNumber,
+      title,
+      startUtc: start?.toUTC().toISO() ?? null,
+      endUtc: end?.toUTC().toISO() ?? null,
+      laneName: existingLane?.name ?? laneName,
+      newLane: !existingLane,
+      errors,
+    };
+    if (errors.length > 0 || !start || !end) return row;
+
+    // Unknown lanes are created once, on the first row that uses them
+    let lane = existingLane;
+    if (!lane) {
+      lane = {
+        id: uuidv4(),
+        weddingId: "", // Will be set by the API
+        name: laneName,
+        laneType: guessLaneType(laneName),
+        sortOrder: nextSortOrder++,
+      };
+      lanesByName.set(normalize(laneName), lane);
+      laneOps.push({ op: "create_lane", lane });
+      newLanes.push(laneName);
+    }
+
+    const event: TimelineEventItem = {
+      id: uuidv4(),
+      weddingId: "", // Will be set by the API
+      title,
+      startUtc: row.startUtc!,
+      endUtc: row.endUtc!,
+      laneId: lane.id,
+      category: lane.laneType,
+      assignedOwner: cell("owner") || null,
+      status: "tentative",
+      notes: cell("notes") || null,
+      locationLabel: cell("location") || null,
+    };
+    eventOps.push({ op: "create_event", event });
+
+    return row;
+  });
+
+  return { rows, ops: [...laneOps, ...eventOps], newLanes, error: null };
+}
+
+// Which column holds what, by header name
+function mapColumns(header: string[]): Partial<Record<ImportColumn, number>> {
+  const columns: Partial<Record<ImportColumn, number>> = {};
+  header.forEach((name, index) => {
+    const key = normalize(name);
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [ImportColumn, string[]][]) {
+      if (columns[column] === undefined && aliases.includes(key)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+  return columns;
+}
+
+// "Photography" or "photo" -> photo; anything unrecognised is misc
+function guessLaneType(name: string): LaneType {
+  const key = normalize(name);
+  const match = (Object.entries(LANE_TYPE_LABELS) as [LaneType, string][]).find(
+    ([type, label]) => normalize(label) === key || normalize(type) === key
+  );
+  return match?.[0] ?? "misc";
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
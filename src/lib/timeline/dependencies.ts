@@ -0,0 +1,133 @@
+import type { TimelineEventDependency, TimelineEventItem } from "@/types/timeline";
+
+type DependencyLink = Pick<TimelineEventDependency, "fromEventId" | "toEventId">;
+
+export type EventTimeChange = {
+  eventId: string;
+  startUtc: string;
+  endUtc: string;
+};
+
+/**
+ * Would linking `fromEventId` -> `toEventId` close a loop? True when the
+ * upstream event already (transitively) depends on the downstream one.
+ */
+export function wouldCreateCycle(
+  dependencies: DependencyLink[],
+  fromEventId: string,
+  toEventId: string
+): boolean {
+  if (fromEventId === toEventId) return true;
+
+  const outgoing = groupBy(dependencies, (d) => d.fromEventId);
+  const seen = new Set<string>();
+  const stack = [toEventId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === fromEventId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const dep of outgoing.get(id) ?? []) stack.push(dep.toEventId);
+  }
+
+  return false;
+}
+
+/**
+ * Work out where every downstream event lands when `eventId` moves to the
+ * given times. Dependents shift by the same amount the upstream event's end
+ * moved (forward or back), but never start before any of their upstream
+ * events end plus the gap. Returns only the events that actually move, in
+ * dependency order; the moved event itself is not included.
+ */
+export function computeRipple(
+  events: TimelineEventItem[],
+  dependencies: TimelineEventDependency[],
+  eventId: string,
+  startUtc: string,
+  endUtc: string
+): EventTimeChange[] {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const moved = byId.get(eventId);
+  if (!moved) return [];
+
+  const delta = toMs(endUtc) - toMs(moved.endUtc);
+  if (delta === 0) return [];
+
+  const outgoing = groupBy(dependencies, (d) => d.fromEventId);
+  const incoming = groupBy(dependencies, (d) => d.toEventId);
+
+  // Everything downstream of the moved event
+  const affected = new Set<string>();
+  const stack = [eventId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const dep of outgoing.get(id) ?? []) {
+      if (!affected.has(dep.toEventId) && dep.toEventId !== eventId && byId.has(dep.toEventId)) {
+        affected.add(dep.toEventId);
+        stack.push(dep.toEventId);
+      }
+    }
+  }
+
+  // Visit each affected event once all of its affected upstream events are placed
+  const pending = new Map<string, number>();
+  for (const id of affected) {
+    const upstream = (incoming.get(id) ?? []).filter((d) => affected.has(d.fromEventId));
+    pending.set(id, upstream.length);
+  }
+
+  const times = new Map([[eventId, { start: toMs(startUtc), end: toMs(endUtc) }]]);
+  const queue = Array.from(affected).filter((id) => pending.get(id) === 0);
+  const changes: EventTimeChange[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (times.has(id)) continue;
+
+    const event = byId.get(id)!;
+    const duration = toMs(event.endUtc) - toMs(event.startUtc);
+    let start = toMs(event.startUtc) + delta;
+
+    for (const dep of incoming.get(id) ?? []) {
+      const upstream = byId.get(dep.fromEventId);
+      const upstreamEnd = times.get(dep.fromEventId)?.end ?? (upstream ? toMs(upstream.endUtc) : null);
+      if (upstreamEnd === null) continue;
+      start = Math.max(start, upstreamEnd + dep.gapMinutes * 60000);
+    }
+
+    times.set(id, { start, end: start + duration });
+    if (start !== toMs(event.startUtc)) {
+      changes.push({
+        eventId: id,
+        startUtc: new Date(start).toISOString(),
+        endUtc: new Date(start + duration).toISOString(),
+      });
+    }
+
+    for (const dep of outgoing.get(id) ?? []) {
+      if (!affected.has(dep.toEventId)) continue;
+      const remaining = (pending.get(dep.toEventId) ?? 0) - 1;
+      pending.set(dep.toEventId, remaining);
+      if (remaining <= 0) queue.push(dep.toEventId);
+    }
+  }
+
+  return changes;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function toMs(utcIso: string): number {
+  return new Date(utcIso).getTime();
+}
@@ -0,0 +1,270 @@
+import type {
+  PatchOp,
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+  TimelineSnapshot,
+} from "@/types/timeline";
+import { LANE_TYPE_LABELS } from "@/types/timeline";
+import { applyDraftToEvents, applyDraftToLanes } from "./draft";
+
+// How an event is affected by a set of patch ops, used to style the preview
+export type EventDiffKind = "added" | "moved" | "edited" | "removed" | "ghost";
+
+export type TimelinePreview = {
+  events: TimelineEventItem[];
+  lanes: TimelineLane[];
+  marks: Record<string, EventDiffKind>;
+};
+
+// Prefix for the faded copy left at a moved event's original position
+export const GHOST_ID_PREFIX = "ghost-";
+
+/**
+ * Build a before/after preview of patch ops over the official timeline.
+ * Moved events keep a ghost at their old position and deleted events stay
+ * visible (struck through) so reviewers can see what would change.
+ */
+export function buildTimelinePreview(
+  events: TimelineEventItem[],
+  lanes: TimelineLane[],
+  patchOps: PatchOp[]
+): TimelinePreview {
+  const afterEvents = applyDraftToEvents(events, patchOps);
+  const afterLanes = applyDraftToLanes(lanes, patchOps);
+
+  const before = new Map(events.map((e) => [e.id, e]));
+  const after = new Map(afterEvents.map((e) => [e.id, e]));
+  const marks: Record<string, EventDiffKind> = {};
+  const previewEvents: TimelineEventItem[] = [];
+
+  for (const event of afterEvents) {
+    const original = before.get(event.id);
+    if (!original) {
+      marks[event.id] = "added";
+    } else if (
+      original.startUtc !== event.startUtc ||
+      original.endUtc !== event.endUtc ||
+      original.laneId !== event.laneId
+    ) {
+      marks[event.id] = "moved";
+      const ghostId = `${GHOST_ID_PREFIX}${event.id}`;
+      previewEvents.push({ ...original, id: ghostId });
+      marks[ghostId] = "ghost";
+    } else if (
+      original.title !== event.title ||
+      original.assignedOwner !== event.assignedOwner ||
+      original.status !== event.status ||
+      original.locked !== event.locked ||
+      original.notes !== event.notes ||
+      original.category !== event.category ||
+      original.locationLabel !== event.locationLabel ||
+      original.locationLat !== event.locationLat ||
+      original.locationLng !== event.locationLng
+    ) {
+      marks[event.id] = "edited";
+    }
+    previewEvents.push(event);
+  }
+
+  // Keep removed events on the canvas, as long as their lane still exists
+  const laneIds = new Set(afterLanes.map((l) => l.id));
+  for (const event of events) {
+    if (!after.has(event.id) && laneIds.has(event.laneId)) {
+      marks[event.id] = "removed";
+      previewEvents.push(event);
+    }
+  }
+
+  return { events: previewEvents, lanes: afterLanes, marks };
+}
+
+/**
+ * Patch ops that turn the `before` timeline into `after` - used to show what
+ * changed between two versions and to restore an older one. Lanes are created
+ * before events move into them and deleted only after their events are gone;
+ * an event is unlocked before it is edited and locked again afterwards.
+ */
+export function diffTimelines(before: TimelineSnapshot, after: TimelineSnapshot): PatchOp[] {
+  const ops: PatchOp[] = [];
+  const beforeLanes = new Map(before.lanes.map((l) => [l.id, l]));
+  const afterLanes = new Map(after.lanes.map((l) => [l.id, l]));
+  const beforeEvents = new Map(before.events.map((e) => [e.id, e]));
+  const afterEvents = new Map(after.events.map((e) => [e.id, e]));
+  const afterDeps = new Map(after.dependencies.map((d) => [d.id, d]));
+  const beforeDeps = new Map(before.dependencies.map((d) => [d.id, d]));
+  const sameDep = (a: TimelineEventDependency, b: TimelineEventDependency) =>
+    a.fromEventId === b.fromEventId && a.toEventId === b.toEventId && a.gapMinutes === b.gapMinutes;
+
+  for (const lane of after.lanes) {
+    const original = beforeLanes.get(lane.id);
+    if (!original) {
+      ops.push({ op: "create_lane", lane });
+      continue;
+    }
+    const ownerChanged = lane.owner && lane.owner.id !== original.owner?.id;
+    if (lane.name !== original.name || lane.sortOrder !== original.sortOrder || ownerChanged) {
+      ops.push({
+        op: "update_lane",
+        laneId: lane.id,
+        ...(lane.name !== original.name && { name: lane.name }),
+        ...(lane.sortOrder !== original.sortOrder && { sortOrder: lane.sortOrder }),
+        ...(ownerChanged && lane.owner && { owner: lane.owner }),
+      });
+    }
+  }
+
+  // Drop changed links first so a reshuffle never trips the cycle check
+  for (const dep of before.dependencies) {
+    const kept = afterDeps.get(dep.id);
+    if (!kept || !sameDep(dep, kept)) {
+      ops.push({ op: "delete_dependency", dependencyId: dep.id });
+    }
+  }
+
+  for (const event of after.events) {
+    const original = beforeEvents.get(event.id);
+    if (original) {
+      ops.push(...diffEvent(original, event));
+    } else {
+      ops.push({ op: "create_event", event });
+    }
+  }
+
+  for (const event of before.events) {
+    if (!afterEvents.has(event.id)) {
+      ops.push({ op: "delete_event", eventId: event.id });
+    }
+  }
+
+  for (const lane of before.lanes) {
+    if (!afterLanes.has(lane.id)) {
+      ops.push({ op: "delete_lane", laneId: lane.id });
+    }
+  }
+
+  for (const dep of after.dependencies) {
+    const original = beforeDeps.get(dep.id);
+    if (!original || !sameDep(original, dep)) {
+      ops.push({ op: "create_dependency", dependency: dep });
+    }
+  }
+
+  return ops;
+}
+
+// Field-by-field edits from one version of an event to another
+function diffEvent(before: TimelineEventItem, after: TimelineEventItem): PatchOp[] {
+  const eventId = after.id;
+  const edits: PatchOp[] = [];
+
+  if (before.startUtc !== after.startUtc || before.endUtc !== after.endUtc) {
+    edits.push({ op: "update_event_time", eventId, startUtc: after.startUtc, endUtc: after.endUtc });
+  }
+  if (before.laneId !== after.laneId) {
+    edits.push({ op: "update_event_lane", eventId, laneId: after.laneId });
+  }
+  if (before.title !== after.title) {
+    edits.push({ op: "update_event_title", eventId, title: after.title });
+  }
+  if ((before.assignedOwner ?? null) !== (after.assignedOwner ?? null)) {
+    edits.push({ op: "update_event_owner", eventId, owner: after.assignedOwner ?? "" });
+  }
+  if (after.status && before.status !== after.status) {
+    edits.push({ op: "update_event_status", eventId, status: after.status });
+  }
+  if ((before.notes ?? null) !== (after.notes ?? null)) {
+    edits.push({ op: "update_event_notes", eventId, notes: after.notes ?? null });
+  }
+  if (after.category && before.category !== after.category) {
+    edits.push({ op: "update_event_category", eventId, category: after.category });
+  }
+  if (
+    (before.locationLabel ?? null) !== (after.locationLabel ?? null) ||
+    (before.locationLat ?? null) !== (after.locationLat ?? null) ||
+    (before.locationLng ?? null) !== (after.locationLng ?? null)
+  ) {
+    edits.push({
+      op: "update_event_location",
+      eventId,
+      locationLabel: after.locationLabel ?? null,
+      locationLat: after.locationLat ?? null,
+      locationLng: after.locationLng ?? null,
+    });
+  }
+
+  const wasLocked = before.locked ?? false;
+  const isLocked = after.locked ?? false;
+  if (wasLocked && !isLocked) {
+    edits.unshift({ op: "update_event_locked", eventId, locked: false });
+  } else if (!wasLocked && isLocked) {
+    edits.push({ op: "update_event_locked", eventId, locked: true });
+  }
+
+  return edits;
+}
+
+/**
+ * Human-readable one-line description of a patch op
+ */
+export function describePatchOp(
+  op: PatchOp,
+  events: TimelineEventItem[],
+  lanes: TimelineLane[],
+  formatTime: (utcIso: string) => string,
+  dependencies: TimelineEventDependency[] = []
+): string {
+  const eventTitle = (eventId: string) =>
+    events.find((e) => e.id === eventId)?.title ?? "Unknown event";
+  const laneName = (laneId: string) =>
+    lanes.find((l) => l.id === laneId)?.name ?? "Unknown lane";
+
+  switch (op.op) {
+    case "create_event":
+      return `Add "${op.event.title}" at ${formatTime(op.event.startUtc)}–${formatTime(op.event.endUtc)}`;
+    case "update_event_time":
+      return `Move "${eventTitle(op.eventId)}" to ${formatTime(op.startUtc)}–${formatTime(op.endUtc)}`;
+    case "update_event_lane":
+      return `Move "${eventTitle(op.eventId)}" to lane ${laneName(op.laneId)}`;
+    case "update_event_title":
+      return `Rename "${eventTitle(op.eventId)}" to "${op.title}"`;
+    case "update_event_owner":
+      return `Assign "${eventTitle(op.eventId)}" to ${op.owner}`;
+    case "update_event_status":
+      return `Mark "${eventTitle(op.eventId)}" as ${op.status}`;
+    case "update_event_locked":
+      return `${op.locked ? "Lock" : "Unlock"} "${eventTitle(op.eventId)}"`;
+    case "update_event_notes":
+      return op.notes
+        ? `Update notes on "${eventTitle(op.eventId)}"`
+        : `Clear notes on "${eventTitle(op.eventId)}"`;
+    case "update_event_category":
+      return `Set category of "${eventTitle(op.eventId)}" to ${LANE_TYPE_LABELS[op.category] ?? op.category}`;
+    case "update_event_location": {
+      const place =
+        op.locationLabel || (op.locationLat !== null ? `${op.locationLat}, ${op.locationLng}` : null);
+      return place
+        ? `Set location of "${eventTitle(op.eventId)}" to ${place}`
+        : `Clear location of "${eventTitle(op.eventId)}"`;
+    }
+    case "delete_event":
+      return `Delete "${eventTitle(op.eventId)}"`;
+    case "create_lane":
+      return `Add lane ${op.lane.name}`;
+    case "update_lane":
+      return `Update lane ${laneName(op.laneId)}`;
+    case "delete_lane":
+      return `Delete lane ${laneName(op.laneId)} and its events`;
+    case "create_dependency": {
+      const dep = op.dependency;
+      const gap = dep.gapMinutes > 0 ? ` (${dep.gapMinutes} min gap)` : "";
+      return `Start "${eventTitle(dep.toEventId)}" after "${eventTitle(dep.fromEventId)}" ends${gap}`;
+    }
+    case "delete_dependency": {
+      const dep = dependencies.find((d) => d.id === op.dependencyId);
+      return dep
+        ? `Unlink "${eventTitle(dep.toEventId)}" from "${eventTitle(dep.fromEventId)}"`
+        : "Remove an event dependency";
+    }
+  }
+}
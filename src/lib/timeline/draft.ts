@@ -1,4 +1,9 @@
-import type { PatchOp, TimelineEventItem, TimelineLane } from "@/types/timeline";
+import type {
+  PatchOp,
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+} from "@/types/timeline";
 
 export type DraftState = {
   baseVersion: number;
@@ -87,9 +92,51 @@ export function applyDraftToEvents(
         );
         break;
 
+      case "update_event_status":
+        result = result.map((e) =>
+          e.id === op.eventId ? { ...e, status: op.status } : e
+        );
+        break;
+
+      case "update_event_locked":
+        result = result.map((e) =>
+          e.id === op.eventId ? { ...e, locked: op.locked } : e
+        );
+        break;
+
+      case "update_event_notes":
+        result = result.map((e) =>
+          e.id === op.eventId ? { ...e, notes: op.notes } : e
+        );
+        break;
+
+      case "update_event_category":
+        result = result.map((e) =>
+          e.id === op.eventId ? { ...e, category: op.category } : e
+        );
+        break;
+
+      case "update_event_location":
+        result = result.map((e) =>
+          e.id === op.eventId
+            ? {
+                ...e,
+                locationLabel: op.locationLabel,
+                locationLat: op.locationLat,
+                locationLng: op.locationLng,
+              }
+            : e
+        );
+        break;
+
       case "delete_event":
         result = result.filter((e) => e.id !== op.eventId);
         break;
+
+      case "delete_lane":
+        // The server deletes a lane's events with it
+        result = result.filter((e) => e.laneId !== op.laneId);
+        break;
     }
   }
 
@@ -131,3 +178,35 @@ export function applyDraftToLanes(
 
   return result;
 }
+
+/**
+ * Apply draft patches to event dependencies for preview
+ */
+export function applyDraftToDependencies(
+  dependencies: TimelineEventDependency[],
+  patchOps: PatchOp[]
+): TimelineEventDependency[] {
+  let result = [...dependencies];
+
+  for (const op of patchOps) {
+    switch (op.op) {
+      case "create_dependency":
+        // A link restored by undo may still be listed if its lane was deleted
+        result = [...result.filter((d) => d.id !== op.dependency.id), op.dependency];
+        break;
+
+      case "delete_dependency":
+        result = result.filter((d) => d.id !== op.dependencyId);
+        break;
+
+      case "delete_event":
+        // Links to a deleted event go with it
+        result = result.filter(
+          (d) => d.fromEventId !== op.eventId && d.toEventId !== op.eventId
+        );
+        break;
+    }
+  }
+
+  return result;
+}
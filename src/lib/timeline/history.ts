@@ -1,19 +1,35 @@
-import type { PatchOp } from "@/types/timeline";
+import type { PatchOp, TimelineSnapshot } from "@/types/timeline";
+import { diffTimelines } from "./diff";
+import { applyDraftToDependencies, applyDraftToEvents, applyDraftToLanes } from "./draft";
 
-export type HistoryState = {
-  past: PatchOp[][];
-  future: PatchOp[][];
+// One undoable action: the ops it made and the ops that reverse them
+export type HistoryEntry = {
+  ops: PatchOp[];
+  inverse: PatchOp[];
+};
+
+type HistoryStacks = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export type HistoryState = HistoryStacks & {
   maxSize: number;
+  // The stacks as of the last publish - what a discard goes back to
+  published: HistoryStacks;
 };
 
 /**
  * Create initial history state
  */
-export function createHistory(maxSize: number = 50): HistoryState {
+export function createHistory(
+  maxSize: number = 50,
+  published: HistoryStacks = { past: [], future: [] }
+): HistoryState {
   return {
-    past: [],
-    future: [],
+    ...published,
     maxSize,
+    published,
   };
 }
 
@@ -22,9 +38,10 @@ export function createHistory(maxSize: number = 50): HistoryState {
  */
 export function recordAction(
   history: HistoryState,
-  patchOps: PatchOp[]
+  patchOps: PatchOp[],
+  inverse: PatchOp[]
 ): HistoryState {
-  const newPast = [...history.past, patchOps];
+  const newPast = [...history.past, { ops: patchOps, inverse }];
 
   // Trim to max size
   while (newPast.length > history.maxSize) {
@@ -44,9 +61,9 @@ export function recordAction(
  */
 export function undo(
   history: HistoryState
-): { newHistory: HistoryState; patchOps: PatchOp[] | null } {
+): { newHistory: HistoryState; patchOps: PatchOp[] | null; entry: HistoryEntry | null } {
   if (history.past.length === 0) {
-    return { newHistory: history, patchOps: null };
+    return { newHistory: history, patchOps: null, entry: null };
   }
 
   const lastAction = history.past[history.past.length - 1];
@@ -59,18 +76,20 @@ export function undo(
       past: newPast,
       future: newFuture,
     },
-    patchOps: lastAction,
+    patchOps: lastAction.inverse,
+    entry: lastAction,
   };
 }
 
 /**
  * Redo the last undone action
+ * Returns the action's original patch ops, to be applied again
  */
 export function redo(
   history: HistoryState
-): { newHistory: HistoryState; patchOps: PatchOp[] | null } {
+): { newHistory: HistoryState; patchOps: PatchOp[] | null; entry: HistoryEntry | null } {
   if (history.future.length === 0) {
-    return { newHistory: history, patchOps: null };
+    return { newHistory: history, patchOps: null, entry: null };
   }
 
   const nextAction = history.future[0];
@@ -83,7 +102,8 @@ export function redo(
       past: newPast,
       future: newFuture,
     },
-    patchOps: nextAction,
+    patchOps: nextAction.ops,
+    entry: nextAction,
   };
 }
 
@@ -105,9 +125,116 @@ export function canRedo(history: HistoryState): boolean {
  * Clear all history
  */
 export function clearHistory(history: HistoryState): HistoryState {
+  return createHistory(history.maxSize);
+}
+
+/**
+ * Everything recorded so far is now on the server - keep it across a discard
+ */
+export function markPublished(history: HistoryState): HistoryState {
+  return {
+    ...history,
+    published: { past: history.past, future: history.future },
+  };
+}
+
+/**
+ * Drop what was recorded since the last publish (the draft was thrown away)
+ */
+export function revertToPublished(history: HistoryState): HistoryState {
   return {
     ...history,
-    past: [],
-    future: [],
+    ...history.published,
+  };
+}
+
+/**
+ * Does `ops` end with exactly the ops of `tail` (same objects, same order)?
+ */
+export function endsWith(ops: PatchOp[], tail: PatchOp[]): boolean {
+  if (tail.length === 0 || tail.length > ops.length) return false;
+  const offset = ops.length - tail.length;
+  return tail.every((op, i) => ops[offset + i] === op);
+}
+
+function applyOps(state: TimelineSnapshot, ops: PatchOp[]): TimelineSnapshot {
+  return {
+    lanes: applyDraftToLanes(state.lanes, ops),
+    events: applyDraftToEvents(state.events, ops),
+    dependencies: applyDraftToDependencies(state.dependencies, ops),
   };
 }
+
+/**
+ * Drop history that no longer lines up with the timeline. Someone may have
+ * changed what an entry touched since it was recorded, and its absolute-value
+ * ops would then quietly overwrite their change. Working out from `current`,
+ * an undo entry is kept only if undoing and redoing it lands back on the same
+ * timeline (redo then undo for the redo stack); the first that doesn't is
+ * dropped along with everything behind it.
+ */
+export function dropStaleEntries(
+  stacks: HistoryStacks,
+  current: TimelineSnapshot
+): HistoryStacks {
+  const past: HistoryEntry[] = [];
+  let state = current;
+  for (const entry of [...stacks.past].reverse()) {
+    const before = applyOps(state, entry.inverse);
+    if (diffTimelines(state, applyOps(before, entry.ops)).length > 0) break;
+    past.unshift(entry);
+    state = before;
+  }
+
+  const future: HistoryEntry[] = [];
+  state = current;
+  for (const entry of stacks.future) {
+    const after = applyOps(state, entry.ops);
+    if (diffTimelines(state, applyOps(after, entry.inverse)).length > 0) break;
+    future.push(entry);
+    state = after;
+  }
+
+  return { past, future };
+}
+
+// Per user as well as per wedding: people can share a browser, or switch users
+const storageKey = (weddingId: string, userId: string) =>
+  `timeline-history:${weddingId}:${userId}`;
+
+/**
+ * Published history saved in this browser, so undo works after a reload.
+ * Entries that clash with the `current` published timeline are left out.
+ */
+export function loadPublishedHistory(
+  weddingId: string,
+  userId: string,
+  current: TimelineSnapshot
+): HistoryStacks | undefined {
+  if (typeof window === "undefined") return undefined;
+
+  try {
+    const stored = window.localStorage.getItem(storageKey(weddingId, userId));
+    if (!stored) return undefined;
+    const parsed = JSON.parse(stored) as HistoryStacks;
+    return Array.isArray(parsed.past) && Array.isArray(parsed.future)
+      ? dropStaleEntries(parsed, current)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function savePublishedHistory(
+  weddingId: string,
+  userId: string,
+  history: HistoryState
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(storageKey(weddingId, userId), JSON.stringify(history.published));
+  } catch {
+    // Storage full or disabled - undo still works until the page is reloaded
+  }
+}
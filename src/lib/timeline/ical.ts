@@ -0,0 +1,208 @@
+import { DateTime } from "luxon";
+import type { TimelineEventItem, TimelineLane } from "@/types/timeline";
+
+// iCalendar (RFC 5545) rendering of a wedding timeline for calendar subscriptions
+
+export type CalendarWedding = {
+  id: string;
+  name: string;
+  weddingDate: string;
+  venueName: string | null;
+  venueAddress: string | null;
+  venueTimezone: string;
+  timelineVersion: number;
+};
+
+export type CalendarFilter = {
+  laneId?: string | null;
+  assignedOwnerName?: string | null;
+};
+
+const PRODUCT_ID = "-//Wedding Planning App//Timeline//EN";
+
+// How often subscribed calendars should check for changes
+const REFRESH_INTERVAL = "PT1H";
+
+/**
+ * Events matching a feed's filters. Assignees match by name, ignoring case.
+ */
+export function filterCalendarEvents(
+  events: TimelineEventItem[],
+  filter: CalendarFilter
+): TimelineEventItem[] {
+  const owner = filter.assignedOwnerName?.trim().toLowerCase();
+  return events.filter(
+    (event) =>
+      (!filter.laneId || event.laneId === filter.laneId) &&
+      (!owner || event.assignedOwner?.trim().toLowerCase() === owner)
+  );
+}
+
+/**
+ * Render events as an iCalendar document. Start and end times are written in
+ * UTC; the venue's VTIMEZONE and X-WR-TIMEZONE tell clients which zone to show
+ * them in. UIDs come from event ids, so a refreshed feed updates entries in place.
+ */
+export function renderTimelineCalendar(
+  wedding: CalendarWedding,
+  lanes: TimelineLane[],
+  events: TimelineEventItem[],
+  calendarName: string
+): string {
+  const laneNames = new Map(lanes.map((lane) => [lane.id, lane.name]));
+  const venue = [wedding.venueName, wedding.venueAddress].filter(Boolean).join(", ");
+  const stamp = formatUtc(new Date().toISOString());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${wedding.venueTimezone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...renderTimezone(wedding.venueTimezone, wedding.weddingDate),
+  ];
+
+  for (const event of events) {
+    const laneName = laneNames.get(event.laneId);
+    const description = [
+      laneName && `Lane: ${laneName}`,
+      event.assignedOwner && `Owner: ${event.assignedOwner}`,
+      event.notes,
+    ].filter(Boolean);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@${wedding.id}.timeline`,
+      // Bumped on every publish so clients replace their copy
+      `SEQUENCE:${wedding.timelineVersion}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(event.startUtc)}`,
+      `DTEND:${formatUtc(event.endUtc)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `STATUS:${event.status === "confirmed" ? "CONFIRMED" : "TENTATIVE"}`
+    );
+
+    const location = event.locationLabel || venue;
+    if (location) lines.push(`LOCATION:${escapeText(location)}`);
+    if (event.locationLat != null && event.locationLng != null) {
+      lines.push(`GEO:${event.locationLat};${event.locationLng}`);
+    }
+    if (description.length > 0) {
+      lines.push(`DESCRIPTION:${escapeText(description.join("\n"))}`);
+    }
+    if (laneName) lines.push(`CATEGORIES:${escapeText(laneName)}`);
+
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * VTIMEZONE for an IANA zone, listing its actual UTC offset changes from the
+ * year before the wedding to the year after (plenty for a one-day timeline)
+ */
+function renderTimezone(zone: string, weddingDate: string): string[] {
+  const year = DateTime.fromISO(weddingDate, { zone }).year;
+  const rangeStart = DateTime.fromObject({ year: year - 1 }, { zone: "UTC" }).toMillis();
+  const rangeEnd = DateTime.fromObject({ year: year + 2 }, { zone: "UTC" }).toMillis();
+
+  const first = DateTime.fromMillis(rangeStart, { zone });
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${zone}`];
+
+  // The offset in force before the first change (or all along, for zones without DST)
+  lines.push(...renderObservance(first, first.offset, "19700101T000000"));
+
+  const day = 24 * 60 * 60 * 1000;
+  let previousOffset = first.offset;
+  for (let t = rangeStart + day; t <= rangeEnd; t += day) {
+    const offset = DateTime.fromMillis(t, { zone }).offset;
+    if (offset === previousOffset) continue;
+
+    // Narrow the change down to the minute
+    const minute = 60 * 1000;
+    let low = (t - day) / minute;
+    let high = t / minute;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (DateTime.fromMillis(mid * minute, { zone }).offset === previousOffset) low = mid;
+      else high = mid;
+    }
+    high *= minute;
+
+    const onset = DateTime.fromMillis(high, { zone });
+    // DTSTART is the wall-clock time of the change, read with the old offset
+    const localStart = DateTime.fromMillis(high + previousOffset * 60 * 1000, { zone: "UTC" });
+    lines.push(
+      ...renderObservance(onset, previousOffset, localStart.toFormat("yyyyMMdd'T'HHmmss"))
+    );
+    previousOffset = offset;
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function renderObservance(onset: DateTime, offsetFrom: number, localStart: string): string[] {
+  const kind = onset.isInDST ? "DAYLIGHT" : "STANDARD";
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${localStart}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(onset.offset)}`,
+    `TZNAME:${escapeText(onset.offsetNameShort ?? formatOffset(onset.offset))}`,
+    `END:${kind}`,
+  ];
+}
+
+// e.g. -0400
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+  return `${sign}${hours}${String(abs % 60).padStart(2, "0")}`;
+}
+
+// e.g. 20260620T183000Z
+function formatUtc(utcIso: string): string {
+  return DateTime.fromISO(utcIso, { zone: "UTC" }).toFormat("yyyyMMdd'T'HHmmss'Z'");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,141 @@
+import type {
+  PatchOp,
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+} from "@/types/timeline";
+import {
+  applyDraftToDependencies,
+  applyDraftToEvents,
+  applyDraftToLanes,
+} from "./draft";
+
+type TimelineSnapshot = {
+  events: TimelineEventItem[];
+  lanes: TimelineLane[];
+  dependencies: TimelineEventDependency[];
+};
+
+/**
+ * Compute the ops that reverse `patchOps` when applied on top of them.
+ * `before` is the timeline the ops are applied to; each op is inverted against
+ * the state left by the ops ahead of it, and the inverses run in reverse order.
+ */
+export function invertPatchOps(before: TimelineSnapshot, patchOps: PatchOp[]): PatchOp[] {
+  let state = before;
+  const inverses: PatchOp[][] = [];
+
+  for (const op of patchOps) {
+    inverses.push(invertPatchOp(state, op));
+    const events = applyDraftToEvents(state.events, [op]);
+    const eventIds = new Set(events.map((e) => e.id));
+    state = {
+      events,
+      lanes: applyDraftToLanes(state.lanes, [op]),
+      // Links to events removed with their lane go too
+      dependencies: applyDraftToDependencies(state.dependencies, [op]).filter(
+        (d) => eventIds.has(d.fromEventId) && eventIds.has(d.toEventId)
+      ),
+    };
+  }
+
+  return inverses.reverse().flat();
+}
+
+function invertPatchOp(state: TimelineSnapshot, op: PatchOp): PatchOp[] {
+  switch (op.op) {
+    case "create_event":
+      return [{ op: "delete_event", eventId: op.event.id }];
+
+    case "delete_event": {
+      const event = state.events.find((e) => e.id === op.eventId);
+      if (!event) return [];
+      // Deleting an event drops its links, so bring those back too
+      return [{ op: "create_event", event }, ...recreateLinks(state, [op.eventId])];
+    }
+
+    case "create_lane":
+      return [{ op: "delete_lane", laneId: op.lane.id }];
+
+    case "update_lane": {
+      const lane = state.lanes.find((l) => l.id === op.laneId);
+      if (!lane) return [];
+      const inverse: Extract<PatchOp, { op: "update_lane" }> = {
+        op: "update_lane",
+        laneId: op.laneId,
+      };
+      if (op.name !== undefined) inverse.name = lane.name;
+      if (op.sortOrder !== undefined) inverse.sortOrder = lane.sortOrder;
+      // A lane with no owner can't be given "no owner" back, so leave it as is
+      if (op.owner !== undefined && lane.owner) inverse.owner = lane.owner;
+      return [inverse];
+    }
+
+    case "delete_lane": {
+      const lane = state.lanes.find((l) => l.id === op.laneId);
+      if (!lane) return [];
+      // Deleting a lane takes its events and their links with it
+      const laneEvents = state.events.filter((e) => e.laneId === op.laneId);
+      return [
+        { op: "create_lane", lane },
+        ...laneEvents.map((event): PatchOp => ({ op: "create_event", event })),
+        ...recreateLinks(state, laneEvents.map((e) => e.id)),
+      ];
+    }
+
+    case "create_dependency":
+      return [{ op: "delete_dependency", dependencyId: op.dependency.id }];
+
+    case "delete_dependency": {
+      const dependency = state.dependencies.find((d) => d.id === op.dependencyId);
+      return dependency ? [{ op: "create_dependency", dependency }] : [];
+    }
+
+    default: {
+      const event = state.events.find((e) => e.id === op.eventId);
+      return event ? [invertEventEdit(event, op)] : [];
+    }
+  }
+}
+
+type EventEditOp = Exclude<Extract<PatchOp, { eventId: string }>, { op: "delete_event" }>;
+
+// The same kind of op, carrying the event's values from before the edit
+function invertEventEdit(event: TimelineEventItem, op: EventEditOp): PatchOp {
+  const eventId = event.id;
+
+  switch (op.op) {
+    case "update_event_time":
+      return { op: "update_event_time", eventId, startUtc: event.startUtc, endUtc: event.endUtc };
+    case "update_event_lane":
+      return { op: "update_event_lane", eventId, laneId: event.laneId };
+    case "update_event_title":
+      return { op: "update_event_title", eventId, title: event.title };
+    case "update_event_owner":
+      return { op: "update_event_owner", eventId, owner: event.assignedOwner ?? "" };
+    case "update_event_status":
+      return { op: "update_event_status", eventId, status: event.status ?? "tentative" };
+    case "update_event_locked":
+      return { op: "update_event_locked", eventId, locked: event.locked ?? false };
+    case "update_event_notes":
+      return { op: "update_event_notes", eventId, notes: event.notes ?? null };
+    case "update_event_category":
+      return { op: "update_event_category", eventId, category: event.category ?? "misc" };
+    case "update_event_location":
+      return {
+        op: "update_event_location",
+        eventId,
+        locationLabel: event.locationLabel ?? null,
+        locationLat: event.locationLat ?? null,
+        locationLng: event.locationLng ?? null,
+      };
+  }
+}
+
+// Links touching any of `eventIds`, each recreated once
+function recreateLinks(state: TimelineSnapshot, eventIds: string[]): PatchOp[] {
+  const ids = new Set(eventIds);
+  return state.dependencies
+    .filter((d) => ids.has(d.fromEventId) || ids.has(d.toEventId))
+    .map((dependency) => ({ op: "create_dependency", dependency }));
+}
@@ -0,0 +1,51 @@
+import type { TimelineStreamEvent } from "@/types/timeline";
+
+// In-process pub/sub behind the timeline stream. Each open stream subscribes to
+// its wedding; publishes are fanned out to every subscriber on this server.
+
+type Listener = (event: TimelineStreamEvent) => void;
+
+/**
+ * An in-memory map, by wedding id, that every route handler sees. Handlers can
+ * be bundled separately, each with its own copy of a module, so the map is
+ * kept on globalThis under `key`.
+ */
+export function sharedRegistry<T>(key: string): Map<string, T> {
+  const registries = globalThis as unknown as Record<string, Map<string, T> | undefined>;
+  return (registries[key] ??= new Map<string, T>());
+}
+
+const listeners = sharedRegistry<Set<Listener>>("timelineListeners");
+
+/**
+ * Listen for events on a wedding's timeline. Returns the unsubscribe function.
+ */
+export function subscribeToTimeline(weddingId: string, listener: Listener): () => void {
+  let weddingListeners = listeners.get(weddingId);
+  if (!weddingListeners) {
+    weddingListeners = new Set();
+    listeners.set(weddingId, weddingListeners);
+  }
+  weddingListeners.add(listener);
+
+  return () => {
+    weddingListeners.delete(listener);
+    if (weddingListeners.size === 0) {
+      listeners.delete(weddingId);
+    }
+  };
+}
+
+/**
+ * Send an event to everyone listening on a wedding's timeline
+ */
+export function broadcastTimelineEvent(weddingId: string, event: TimelineStreamEvent): void {
+  for (const listener of listeners.get(weddingId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      // One broken stream must not stop the others
+      console.error("Error delivering timeline event:", error);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { TimelineViewer } from "@/types/timeline";
+import { broadcastTimelineEvent, sharedRegistry } from "./live";
+
+// Who has each wedding's timeline open, kept in memory on this server. A viewer
+// joins with their first stream connection and leaves with their last one.
+
+// An event selection (soft lock) lapses after this long without activity
+export const SOFT_LOCK_TIMEOUT_MS = 90_000;
+
+type PresenceEntry = {
+  viewer: TimelineViewer;
+  connections: number;
+  lockTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const presence = sharedRegistry<Map<string, PresenceEntry>>("timelinePresence");
+
+/**
+ * Everyone currently viewing a wedding's timeline
+ */
+export function getTimelineViewers(weddingId: string): TimelineViewer[] {
+  return [...(presence.get(weddingId)?.values() ?? [])].map((entry) => entry.viewer);
+}
+
+/**
+ * Mark a user as viewing the timeline (one call per open connection).
+ * Returns the function to call when the connection closes.
+ */
+export function joinTimeline(
+  weddingId: string,
+  viewer: Omit<TimelineViewer, "selectedEventId">
+): () => void {
+  let viewers = presence.get(weddingId);
+  if (!viewers) {
+    viewers = new Map();
+    presence.set(weddingId, viewers);
+  }
+
+  const entry = viewers.get(viewer.userId);
+  if (entry) {
+    entry.connections += 1;
+  } else {
+    viewers.set(viewer.userId, {
+      viewer: { ...viewer, selectedEventId: null },
+      connections: 1,
+      lockTimer: null,
+    });
+  }
+  broadcastPresence(weddingId);
+
+  let left = false;
+  return () => {
+    if (left) return;
+    left = true;
+    leaveTimeline(weddingId, viewer.userId);
+  };
+}
+
+/**
+ * Record which event a viewer has open (or null). Each call restarts the
+ * inactivity timeout. Returns false if the user isn't viewing the timeline.
+ */
+export function selectTimelineEvent(
+  weddingId: string,
+  userId: string,
+  selectedEventId: string | null
+): boolean {
+  const entry = presence.get(weddingId)?.get(userId);
+  if (!entry) return false;
+
+  if (entry.lockTimer) clearTimeout(entry.lockTimer);
+  entry.lockTimer = selectedEventId
+    ? setTimeout(() => selectTimelineEvent(weddingId, userId, null), SOFT_LOCK_TIMEOUT_MS)
+    : null;
+
+  if (entry.viewer.selectedEventId !== selectedEventId) {
+    entry.viewer = { ...entry.viewer, selectedEventId };
+    broadcastPresence(weddingId);
+  }
+  return true;
+}
+
+function leaveTimeline(weddingId: string, userId: string) {
+  const viewers = presence.get(weddingId);
+  const entry = viewers?.get(userId);
+  if (!viewers || !entry) return;
+
+  entry.connections -= 1;
+  if (entry.connections > 0) return;
+
+  if (entry.lockTimer) clearTimeout(entry.lockTimer);
+  viewers.delete(userId);
+  if (viewers.size === 0) {
+    presence.delete(weddingId);
+  }
+  broadcastPresence(weddingId);
+}
+
+function broadcastPresence(weddingId: string) {
+  broadcastTimelineEvent(weddingId, {
+    type: "presence",
+    viewers: getTimelineViewers(weddingId),
+  });
+}
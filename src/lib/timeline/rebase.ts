@@ -0,0 +1,380 @@
+import type {
+  PatchOp,
+  TimelineEventDependency,
+  TimelineEventItem,
+  TimelineLane,
+} from "@/types/timeline";
+import { applyDraftToEvents } from "./draft";
+
+export type ConflictKind = "both_moved" | "both_edited" | "event_deleted" | "lane_deleted";
+
+export type ConflictChoice = "mine" | "theirs";
+
+export type RebaseConflict = {
+  id: string;
+  kind: ConflictKind;
+  targetId: string; // event or lane id
+  label: string; // event title or lane name, for display
+  mineEvent?: TimelineEventItem; // event as the local draft would leave it
+  theirsEvent?: TimelineEventItem; // event as it is on the server now
+  prelude: PatchOp[]; // ops needed before "mine" can apply (restore what was deleted)
+};
+
+export type RebasePlan = {
+  entries: { op: PatchOp; conflictId: string | null }[];
+  conflicts: RebaseConflict[];
+  remoteLaneIds: string[];
+  remoteEventIds: string[];
+};
+
+type TimelineSnapshot = {
+  events: TimelineEventItem[];
+  lanes: TimelineLane[];
+  dependencies: TimelineEventDependency[];
+};
+
+type EventOp = Extract<PatchOp, { eventId: string }>;
+
+type DependencyOp = Extract<PatchOp, { op: "create_dependency" | "delete_dependency" }>;
+
+/**
+ * Replay local draft ops on top of a newer server timeline (three-way merge).
+ * `base` is the timeline the draft was made against, `theirs` is the current
+ * server state. Ops that don't clash are kept as-is; clashes are grouped into
+ * conflicts the user resolves with resolveRebase().
+ */
+export function planRebase(
+  base: TimelineSnapshot,
+  theirs: TimelineSnapshot,
+  patchOps: PatchOp[]
+): RebasePlan {
+  const baseEvents = new Map(base.events.map((e) => [e.id, e]));
+  const theirEvents = new Map(theirs.events.map((e) => [e.id, e]));
+  const baseLanes = new Map(base.lanes.map((l) => [l.id, l]));
+  const theirLaneIds = new Set(theirs.lanes.map((l) => l.id));
+  const baseDependencyIds = new Set(base.dependencies.map((d) => d.id));
+  const theirDependencies = new Map(theirs.dependencies.map((d) => [d.id, d]));
+
+  const createdEvents = new Set<string>();
+  const conflicts = new Map<string, RebaseConflict>();
+  // Events whose existence depends on a conflict - every later op on them follows it
+  const eventConflict = new Map<string, string>();
+  const entries: RebasePlan["entries"] = [];
+  // Locally created links, and the conflict (if any) their existence hangs on
+  const createdDependencies = new Map<string, string | null>();
+
+  const laneDeletedRemotely = (laneId: string) =>
+    baseLanes.has(laneId) && !theirLaneIds.has(laneId);
+
+  const laneConflict = (laneId: string): string => {
+    const id = `lane:${laneId}`;
+    if (!conflicts.has(id)) {
+      const lane = baseLanes.get(laneId)!;
+      conflicts.set(id, {
+        id,
+        kind: "lane_deleted",
+        targetId: laneId,
+        label: lane.name,
+        prelude: [{ op: "create_lane", lane }],
+      });
+    }
+    return id;
+  };
+
+  const deletedEventConflict = (event: TimelineEventItem): string => {
+    // Events in a deleted lane are restored together with the lane
+    if (laneDeletedRemotely(event.laneId)) {
+      const id = laneConflict(event.laneId);
+      conflicts.get(id)!.prelude.push({ op: "create_event", event });
+      return id;
+    }
+    const id = `event:${event.id}`;
+    conflicts.set(id, {
+      id,
+      kind: "event_deleted",
+      targetId: event.id,
+      label: event.title,
+      prelude: [{ op: "create_event", event }],
+    });
+    return id;
+  };
+
+  const fieldConflict = (event: TimelineEventItem, kind: ConflictKind, field: string) => {
+    const id = `event:${event.id}:${field}`;
+    if (!conflicts.has(id)) {
+      conflicts.set(id, { id, kind, targetId: event.id, label: event.title, prelude: [] });
+    }
+    return id;
+  };
+
+  // A link needs both of its events - restore them if the server deleted one
+  const endpointConflict = (eventId: string): string | null => {
+    const existing = eventConflict.get(eventId);
+    if (existing) return existing;
+    const baseEvent = baseEvents.get(eventId);
+    if (createdEvents.has(eventId) || !baseEvent || theirEvents.has(eventId)) return null;
+    const id = deletedEventConflict(baseEvent);
+    eventConflict.set(eventId, id);
+    return id;
+  };
+
+  const planDependencyOp = (op: DependencyOp) => {
+    if (op.op === "create_dependency") {
+      const dep = op.dependency;
+      // Someone else already linked the same pair
+      const alreadyLinked = Array.from(theirDependencies.values()).some(
+        (d) => d.fromEventId === dep.fromEventId && d.toEventId === dep.toEventId
+      );
+      if (alreadyLinked) return;
+      const conflictId = endpointConflict(dep.fromEventId) ?? endpointConflict(dep.toEventId);
+      createdDependencies.set(dep.id, conflictId);
+      entries.push({ op, conflictId });
+      return;
+    }
+
+    if (createdDependencies.has(op.dependencyId)) {
+      entries.push({ op, conflictId: createdDependencies.get(op.dependencyId)! });
+      return;
+    }
+    // Skipped as a duplicate, or already removed on the server
+    if (!baseDependencyIds.has(op.dependencyId) || !theirDependencies.has(op.dependencyId)) return;
+    entries.push({ op, conflictId: null });
+  };
+
+  for (const op of patchOps) {
+    switch (op.op) {
+      case "create_event": {
+        createdEvents.add(op.event.id);
+        if (laneDeletedRemotely(op.event.laneId)) {
+          const id = laneConflict(op.event.laneId);
+          eventConflict.set(op.event.id, id);
+          entries.push({ op, conflictId: id });
+        } else {
+          entries.push({ op, conflictId: null });
+        }
+        break;
+      }
+
+      case "update_event_time":
+      case "update_event_lane":
+      case "update_event_title":
+      case "update_event_owner":
+      case "update_event_status":
+      case "update_event_locked":
+      case "update_event_notes":
+      case "update_event_category":
+      case "update_event_location":
+      case "delete_event": {
+        const existing = eventConflict.get(op.eventId);
+        if (existing) {
+          entries.push({ op, conflictId: existing });
+          break;
+        }
+
+        // Moving into a lane that no longer exists
+        if (op.op === "update_event_lane" && laneDeletedRemotely(op.laneId)) {
+          const id = laneConflict(op.laneId);
+          eventConflict.set(op.eventId, id);
+          entries.push({ op, conflictId: id });
+          break;
+        }
+
+        const baseEvent = baseEvents.get(op.eventId);
+        const theirEvent = theirEvents.get(op.eventId);
+        if (createdEvents.has(op.eventId) || !baseEvent) {
+          entries.push({ op, conflictId: null });
+          break;
+        }
+
+        if (!theirEvent) {
+          // Deleting something that is already gone is a no-op
+          if (op.op === "delete_event") break;
+          const id = deletedEventConflict(baseEvent);
+          eventConflict.set(op.eventId, id);
+          entries.push({ op, conflictId: id });
+          break;
+        }
+
+        const clash = findClash(op, baseEvent, theirEvent);
+        entries.push({
+          op,
+          conflictId: clash ? fieldConflict(baseEvent, clash.kind, clash.field) : null,
+        });
+        break;
+      }
+
+      case "create_lane":
+        entries.push({ op, conflictId: null });
+        break;
+
+      case "update_lane":
+        entries.push({
+          op,
+          conflictId: laneDeletedRemotely(op.laneId) ? laneConflict(op.laneId) : null,
+        });
+        break;
+
+      case "delete_lane":
+        // Already deleted on the server
+        if (laneDeletedRemotely(op.laneId)) break;
+        entries.push({ op, conflictId: null });
+        break;
+
+      case "create_dependency":
+      case "delete_dependency":
+        planDependencyOp(op);
+        break;
+    }
+  }
+
+  // Attach before/after snapshots for the conflict dialog
+  const mineEvents = new Map(applyDraftToEvents(base.events, patchOps).map((e) => [e.id, e]));
+  for (const conflict of conflicts.values()) {
+    if (conflict.kind === "lane_deleted") continue;
+    conflict.mineEvent = mineEvents.get(conflict.targetId);
+    conflict.theirsEvent = theirEvents.get(conflict.targetId);
+  }
+
+  return {
+    entries,
+    conflicts: Array.from(conflicts.values()),
+    remoteLaneIds: Array.from(theirLaneIds),
+    remoteEventIds: Array.from(theirEvents.keys()),
+  };
+}
+
+/**
+ * Build the final patch op list from a rebase plan and the user's choices.
+ * Conflicts without a "mine" choice keep the server's version.
+ */
+export function resolveRebase(
+  plan: RebasePlan,
+  choices: Record<string, ConflictChoice>
+): PatchOp[] {
+  const conflicts = new Map(plan.conflicts.map((c) => [c.id, c]));
+  const emitted = new Set<string>();
+  const ops: PatchOp[] = [];
+
+  for (const { op, conflictId } of plan.entries) {
+    if (conflictId) {
+      if (choices[conflictId] !== "mine") continue;
+      if (!emitted.has(conflictId)) {
+        ops.push(...conflicts.get(conflictId)!.prelude);
+        emitted.add(conflictId);
+      }
+    }
+    ops.push(op);
+  }
+
+  return dropDanglingRefs(ops, plan.remoteLaneIds, plan.remoteEventIds);
+}
+
+// Remove ops that would put events into lanes, or link events, that won't exist after the merge
+function dropDanglingRefs(
+  ops: PatchOp[],
+  remoteLaneIds: string[],
+  remoteEventIds: string[]
+): PatchOp[] {
+  const lanes = new Set(remoteLaneIds);
+  const events = new Set(remoteEventIds);
+  const droppedEvents = new Set<string>();
+  const droppedDependencies = new Set<string>();
+  const result: PatchOp[] = [];
+
+  for (const op of ops) {
+    if (op.op === "create_lane") lanes.add(op.lane.id);
+    if (op.op === "delete_lane") lanes.delete(op.laneId);
+
+    if (op.op === "create_event" && !lanes.has(op.event.laneId)) {
+      droppedEvents.add(op.event.id);
+      continue;
+    }
+    if ("eventId" in op && droppedEvents.has(op.eventId)) continue;
+    if (op.op === "update_event_lane" && !lanes.has(op.laneId)) continue;
+
+    if (op.op === "create_event") events.add(op.event.id);
+    if (op.op === "delete_event") events.delete(op.eventId);
+
+    if (op.op === "create_dependency") {
+      const dep = op.dependency;
+      if (!events.has(dep.fromEventId) || !events.has(dep.toEventId)) {
+        droppedDependencies.add(dep.id);
+        continue;
+      }
+    }
+    if (op.op === "delete_dependency" && droppedDependencies.has(op.dependencyId)) continue;
+
+    result.push(op);
+  }
+
+  return result;
+}
+
+// Did the server change the same thing this op changes (to a different value)?
+function findClash(
+  op: EventOp,
+  baseEvent: TimelineEventItem,
+  theirEvent: TimelineEventItem
+): { kind: ConflictKind; field: string } | null {
+  switch (op.op) {
+    case "update_event_time":
+    case "update_event_lane": {
+      const theyMoved =
+        !sameInstant(baseEvent.startUtc, theirEvent.startUtc) ||
+        !sameInstant(baseEvent.endUtc, theirEvent.endUtc) ||
+        baseEvent.laneId !== theirEvent.laneId;
+      const sameResult =
+        op.op === "update_event_time"
+          ? sameInstant(op.startUtc, theirEvent.startUtc) &&
+            sameInstant(op.endUtc, theirEvent.endUtc)
+          : op.laneId === theirEvent.laneId;
+      return theyMoved && !sameResult ? { kind: "both_moved", field: "move" } : null;
+    }
+    case "update_event_title":
+      return baseEvent.title !== theirEvent.title && op.title !== theirEvent.title
+        ? { kind: "both_edited", field: "title" }
+        : null;
+    case "update_event_owner":
+      return baseEvent.assignedOwner !== theirEvent.assignedOwner &&
+        op.owner !== theirEvent.assignedOwner
+        ? { kind: "both_edited", field: "owner" }
+        : null;
+    case "update_event_status":
+      return baseEvent.status !== theirEvent.status && op.status !== theirEvent.status
+        ? { kind: "both_edited", field: "status" }
+        : null;
+    case "update_event_locked":
+      return baseEvent.locked !== theirEvent.locked && op.locked !== theirEvent.locked
+        ? { kind: "both_edited", field: "locked" }
+        : null;
+    case "update_event_notes":
+      return baseEvent.notes !== theirEvent.notes && op.notes !== theirEvent.notes
+        ? { kind: "both_edited", field: "notes" }
+        : null;
+    case "update_event_category":
+      return baseEvent.category !== theirEvent.category && op.category !== theirEvent.category
+        ? { kind: "both_edited", field: "category" }
+        : null;
+    case "update_event_location": {
+      const theyMoved = !sameLocation(baseEvent, theirEvent);
+      const sameResult = sameLocation(op, theirEvent);
+      return theyMoved && !sameResult ? { kind: "both_edited", field: "location" } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+type EventLocation = Pick<TimelineEventItem, "locationLabel" | "locationLat" | "locationLng">;
+
+function sameLocation(a: EventLocation, b: EventLocation): boolean {
+  return (
+    (a.locationLabel ?? null) === (b.locationLabel ?? null) &&
+    (a.locationLat ?? null) === (b.locationLat ?? null) &&
+    (a.locationLng ?? null) === (b.locationLng ?? null)
+  );
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
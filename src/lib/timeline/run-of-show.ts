@@ -0,0 +1,237 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, wrapText } from "@/lib/pdf";
+import type { PdfFont } from "@/lib/pdf";
+import { formatVenueDate, getTimezoneAbbr, utcToVenueDateTime, utcToVenueTime } from "@/lib/time";
+import type { TimelineEventItem, TimelineLane, TimelineSnapshot } from "@/types/timeline";
+
+export type RunOfShowWedding = {
+  name: string;
+  weddingDate: string;
+  venueName: string | null;
+  venueAddress: string | null;
+  venueTimezone: string;
+};
+
+export type RunOfShowOptions = {
+  pageBreakPerLane: boolean; // Each lane on its own page(s) instead of one combined schedule
+  laneIds?: string[]; // Only these lanes (e.g. one vendor's)
+  subtitle?: string; // Shown under the header, e.g. who the copy is for
+};
+
+type Column = {
+  label: string;
+  width: number;
+  value: (event: TimelineEventItem) => string;
+  font?: PdfFont;
+};
+
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - MARGIN / 2;
+
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const HEADER_ROW_HEIGHT = 18;
+const GROUP_ROW_HEIGHT = 16;
+
+const STATUS_LABELS: Record<string, string> = {
+  tentative: "Tentative",
+  confirmed: "Confirmed",
+};
+
+/**
+ * Render a printable run-of-show for the day: events in time order, grouped by
+ * the hour they start, with times in the venue's timezone.
+ */
+export function renderRunOfShowPdf(
+  wedding: RunOfShowWedding,
+  snapshot: Pick<TimelineSnapshot, "lanes" | "events">,
+  options: RunOfShowOptions
+): Uint8Array<ArrayBuffer> {
+  const tz = wedding.venueTimezone;
+  const laneFilter = options.laneIds ? new Set(options.laneIds) : null;
+  const lanes = snapshot.lanes
+    .filter((lane) => !laneFilter || laneFilter.has(lane.id))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+  const laneById = new Map(lanes.map((lane) => [lane.id, lane]));
+  const laneOrder = new Map(lanes.map((lane, index) => [lane.id, index]));
+
+  const events = snapshot.events
+    .filter((event) => laneById.has(event.laneId))
+    .sort(
+      (a, b) =>
+        toMs(a.startUtc) - toMs(b.startUtc) ||
+        (laneOrder.get(a.laneId) ?? 0) - (laneOrder.get(b.laneId) ?? 0) ||
+        toMs(a.endUtc) - toMs(b.endUtc)
+    );
+
+  const columns: Column[] = [
+    {
+      label: "Time",
+      width: 84,
+      value: (e) => `${utcToVenueTime(e.startUtc, tz)} – ${utcToVenueTime(e.endUtc, tz)}`,
+    },
+    { label: "Event", width: 150, value: (e) => e.title, font: "bold" },
+    { label: "Lane", width: 90, value: (e) => laneById.get(e.laneId)?.name ?? "" },
+    { label: "Owner", width: 90, value: (e) => e.assignedOwner ?? "" },
+    { label: "Location", width: 106, value: formatLocation },
+    { label: "Notes", width: 140, value: (e) => e.notes ?? "" },
+    { label: "Status", width: 60, value: formatStatus },
+  ];
+
+  const doc = new PdfDocument();
+  let y = 0;
+
+  const startPage = () => {
+    doc.addPage();
+    if (doc.pageCount === 1) {
+      y = drawTitleBlock(doc, wedding, options.subtitle);
+    } else {
+      // Continuation pages carry a short running header
+      doc.text(MARGIN, MARGIN + 8, `${wedding.name} · ${formatVenueDate(wedding.weddingDate, tz)}`, {
+        size: 8,
+        gray: 0.4,
+      });
+      y = MARGIN + 20;
+    }
+  };
+
+  // Start a new page if `height` won't fit; returns whether it did
+  const ensureSpace = (height: number, repeatHeader: boolean): boolean => {
+    if (y + height <= FOOTER_Y - LINE_HEIGHT) return false;
+    startPage();
+    if (repeatHeader) y = drawColumnHeader(doc, columns, y);
+    return true;
+  };
+
+  const drawSection = (sectionEvents: TimelineEventItem[], heading?: string) => {
+    if (heading) {
+      ensureSpace(24 + HEADER_ROW_HEIGHT + GROUP_ROW_HEIGHT + LINE_HEIGHT * 2, false);
+      doc.text(MARGIN, y + 14, heading, { size: 13, font: "bold" });
+      y += 22;
+    }
+    y = drawColumnHeader(doc, columns, y);
+
+    if (sectionEvents.length === 0) {
+      doc.text(MARGIN + CELL_PADDING, y + 12, "Nothing scheduled", { size: FONT_SIZE, gray: 0.4 });
+      y += GROUP_ROW_HEIGHT;
+      return;
+    }
+
+    let currentHour: string | null = null;
+    for (const event of sectionEvents) {
+      const cells = columns.map((column) =>
+        wrapText(column.value(event), column.width - CELL_PADDING * 2, FONT_SIZE, column.font)
+      );
+      const rowHeight = Math.max(...cells.map((lines) => lines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+
+      const hour = utcToVenueDateTime(event.startUtc, tz).startOf("hour");
+      const hourKey = hour.toISO();
+      const needsGroupRow = hourKey !== currentHour;
+
+      const newPage = ensureSpace(rowHeight + GROUP_ROW_HEIGHT, true);
+
+      if (needsGroupRow || newPage) {
+        // Hour heading, repeated at the top of a continued page
+        doc.fillRect(MARGIN, y, CONTENT_WIDTH, GROUP_ROW_HEIGHT, 0.93);
+        doc.text(MARGIN + CELL_PADDING, y + 11.5, hour.toFormat("h a"), {
+          size: FONT_SIZE,
+          font: "bold",
+        });
+        y += GROUP_ROW_HEIGHT;
+        currentHour = hourKey;
+      }
+
+      let x = MARGIN;
+      columns.forEach((column, i) => {
+        cells[i].forEach((line, lineIndex) => {
+          doc.text(x + CELL_PADDING, y + CELL_PADDING + LINE_HEIGHT * (lineIndex + 1) - 2, line, {
+            size: FONT_SIZE,
+            font: column.font,
+          });
+        });
+        x += column.width;
+      });
+      y += rowHeight;
+      doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, 0.8);
+    }
+  };
+
+  startPage();
+
+  if (options.pageBreakPerLane) {
+    lanes.forEach((lane, index) => {
+      if (index > 0) startPage();
+      drawSection(
+        events.filter((event) => event.laneId === lane.id),
+        laneHeading(lane)
+      );
+    });
+    if (lanes.length === 0) drawSection([]);
+  } else {
+    drawSection(events);
+  }
+
+  // Page numbers, now that the page count is known
+  for (let i = 0; i < doc.pageCount; i++) {
+    doc.setPage(i);
+    const label = `Page ${i + 1} of ${doc.pageCount}`;
+    doc.text(PAGE_WIDTH - MARGIN - 60, FOOTER_Y, label, { size: 8, gray: 0.4 });
+  }
+
+  return doc.toBytes();
+}
+
+// Wedding name, venue and date across the top of the first page
+function drawTitleBlock(doc: PdfDocument, wedding: RunOfShowWedding, subtitle?: string): number {
+  const tz = wedding.venueTimezone;
+  let y = MARGIN + 18;
+
+  doc.text(MARGIN, y, wedding.name, { size: 18, font: "bold" });
+  y += 18;
+  doc.text(MARGIN, y, "Run of Show", { size: 11, gray: 0.3 });
+  y += 16;
+
+  const venue = [wedding.venueName, wedding.venueAddress].filter(Boolean).join(", ");
+  doc.text(MARGIN, y, [formatVenueDate(wedding.weddingDate, tz), venue].filter(Boolean).join(" · "), {
+    size: 10,
+  });
+  y += 14;
+
+  const zone = getTimezoneAbbr(tz, utcToVenueDateTime(`${wedding.weddingDate}T12:00:00Z`, tz));
+  const details = [subtitle, `All times ${zone} (${tz})`].filter(Boolean).join(" · ");
+  doc.text(MARGIN, y, details, { size: 9, gray: 0.4 });
+
+  return y + 14;
+}
+
+function drawColumnHeader(doc: PdfDocument, columns: Column[], y: number): number {
+  doc.fillRect(MARGIN, y, CONTENT_WIDTH, HEADER_ROW_HEIGHT, 0.2);
+  let x = MARGIN;
+  for (const column of columns) {
+    doc.text(x + CELL_PADDING, y + 12.5, column.label, { size: FONT_SIZE, font: "bold", gray: 1 });
+    x += column.width;
+  }
+  return y + HEADER_ROW_HEIGHT;
+}
+
+function laneHeading(lane: TimelineLane): string {
+  return lane.owner ? `${lane.name} — ${lane.owner.displayName}` : lane.name;
+}
+
+function formatLocation(event: TimelineEventItem): string {
+  if (event.locationLabel) return event.locationLabel;
+  if (event.locationLat != null && event.locationLng != null) {
+    return `${event.locationLat.toFixed(5)}, ${event.locationLng.toFixed(5)}`;
+  }
+  return "";
+}
+
+function formatStatus(event: TimelineEventItem): string {
+  const status = STATUS_LABELS[event.status ?? "tentative"] ?? event.status ?? "";
+  return event.locked ? `${status} (locked)` : status;
+}
+
+function toMs(utcIso: string): number {
+  return new Date(utcIso).getTime();
+}
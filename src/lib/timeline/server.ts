@@ -0,0 +1,629 @@
+import type {
+  Prisma,
+  TimelineCalendarFeed as CalendarFeedRecord,
+  TimelineProposal as ProposalRecord,
+  TimelineTemplate as TemplateRecord,
+  TimelineVersion as VersionRecord,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getTimelineWindow } from "@/lib/time";
+import type {
+  OwnerRef,
+  PatchOp,
+  PatchOpError,
+  TimelineCalendarFeed,
+  TimelineProposal,
+  TimelineSnapshot,
+  TimelineTemplate,
+  TimelineTemplateEvent,
+  TimelineTemplateLane,
+  TimelineVersionSource,
+  TimelineVersionSummary,
+} from "@/types/timeline";
+import { validatePatchOps } from "./validate";
+import { computeSunBands, SOLAR_BAND_TYPES } from "./solar";
+import { broadcastTimelineEvent } from "./live";
+import { filterCalendarEvents, renderTimelineCalendar } from "./ical";
+import type { CalendarFilter, CalendarWedding } from "./ical";
+
+// Server-side timeline helpers shared by the timeline and proposal routes
+
+type WeddingTimelineInfo = {
+  timelineVersion: number;
+  venueTimezone: string;
+  weddingDate: string;
+};
+
+// Who published a version and how it came about
+export type Publication = {
+  publishedBy: Pick<OwnerRef, "id" | "displayName">;
+  source: Exclude<TimelineVersionSource, "baseline">;
+  proposalId?: string;
+  restoredFromVersion?: number;
+};
+
+/**
+ * Load the full timeline (lanes, events, bands) for a wedding
+ */
+export async function getFullTimeline(weddingId: string, wedding: WeddingTimelineInfo) {
+  const [snapshot, bands] = await Promise.all([
+    loadTimelineSnapshot(weddingId),
+    prisma.timelineBackgroundBand.findMany({
+      where: { weddingId },
+    }),
+  ]);
+
+  const { windowStartUtc, windowEndUtc } = getTimelineWindow(
+    wedding.weddingDate,
+    wedding.venueTimezone
+  );
+
+  return {
+    version: wedding.timelineVersion,
+    venueTimezone: wedding.venueTimezone,
+    weddingDate: wedding.weddingDate,
+    windowStartUtc,
+    windowEndUtc,
+    ...snapshot,
+    bands: bands.map((band) => ({
+      id: band.id,
+      weddingId: band.weddingId,
+      bandType: band.bandType,
+      startUtc: band.startUtc.toISOString(),
+      endUtc: band.endUtc.toISOString(),
+      label: band.label,
+    })),
+  };
+}
+
+/**
+ * Load the lanes, events and dependencies of a wedding's official timeline
+ */
+export async function loadTimelineSnapshot(
+  weddingId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<TimelineSnapshot> {
+  const [lanes, events, dependencies] = await Promise.all([
+    client.timelineLane.findMany({
+      where: { weddingId },
+      orderBy: { sortOrder: "asc" },
+    }),
+    client.timelineEvent.findMany({
+      where: { weddingId },
+      orderBy: { startUtc: "asc" },
+    }),
+    client.timelineEventDependency.findMany({
+      where: { weddingId },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    lanes: lanes.map((lane) => ({
+      id: lane.id,
+      weddingId: lane.weddingId,
+      name: lane.name,
+      laneType: lane.type,
+      owner: lane.ownerId
+        ? {
+            id: lane.ownerId,
+            type: lane.ownerType,
+            displayName: lane.ownerName,
+          }
+        : null,
+      sortOrder: lane.sortOrder,
+    })),
+    events: events.map((event) => ({
+      id: event.id,
+      weddingId: event.weddingId,
+      title: event.title,
+      startUtc: event.startUtc.toISOString(),
+      endUtc: event.endUtc.toISOString(),
+      laneId: event.laneId,
+      category: event.category,
+      assignedOwner: event.assignedOwnerName || null,
+      status: event.status,
+      locked: event.locked,
+      notes: event.notes,
+      locationLabel: event.locationLabel,
+      locationLat: event.locationLat,
+      locationLng: event.locationLng,
+    })),
+    dependencies: dependencies.map((dep) => ({
+      id: dep.id,
+      weddingId: dep.weddingId,
+      fromEventId: dep.fromEventId,
+      toEventId: dep.toEventId,
+      gapMinutes: dep.gapMinutes,
+    })),
+  };
+}
+
+/**
+ * The ids the ops would create that another wedding already uses. Ids are
+ * chosen by the client but unique across all weddings.
+ */
+async function findIdsTakenElsewhere(
+  tx: Prisma.TransactionClient,
+  weddingId: string,
+  patchOps: PatchOp[]
+): Promise<Set<string>> {
+  const eventIds: string[] = [];
+  const laneIds: string[] = [];
+  const dependencyIds: string[] = [];
+  for (const op of patchOps) {
+    if (op.op === "create_event" && op.event?.id) eventIds.push(op.event.id);
+    if (op.op === "create_lane" && op.lane?.id) laneIds.push(op.lane.id);
+    if (op.op === "create_dependency" && op.dependency?.id) dependencyIds.push(op.dependency.id);
+  }
+
+  const elsewhere = { weddingId: { not: weddingId } };
+  const [events, lanes, dependencies] = await Promise.all([
+    eventIds.length > 0
+      ? tx.timelineEvent.findMany({ where: { id: { in: eventIds }, ...elsewhere }, select: { id: true } })
+      : [],
+    laneIds.length > 0
+      ? tx.timelineLane.findMany({ where: { id: { in: laneIds }, ...elsewhere }, select: { id: true } })
+      : [],
+    dependencyIds.length > 0
+      ? tx.timelineEventDependency.findMany({
+          where: { id: { in: dependencyIds }, ...elsewhere },
+          select: { id: true },
+        })
+      : [],
+  ]);
+
+  return new Set([...events, ...lanes, ...dependencies].map((record) => record.id));
+}
+
+export type PublishResult =
+  | { ok: true; version: number }
+  | { ok: false; reason: "conflict" }
+  | { ok: false; reason: "invalid"; opErrors: PatchOpError[] };
+
+/**
+ * Validate and apply a list of patch operations to the official timeline,
+ * bumping the version and recording it in the version history, all in one
+ * transaction. `wedding.timelineVersion` is the version the ops were made
+ * against - if another publish got there first nothing is written and a
+ * conflict is returned. Locked events can only be changed with `overrideLocks`.
+ */
+export async function publishPatchOps(
+  weddingId: string,
+  wedding: WeddingTimelineInfo,
+  patchOps: PatchOp[],
+  publication: Publication,
+  overrideLocks: boolean = false
+): Promise<PublishResult> {
+  const { windowStartUtc, windowEndUtc } = getTimelineWindow(
+    wedding.weddingDate,
+    wedding.venueTimezone
+  );
+
+  const result = await prisma.$transaction(async (tx): Promise<PublishResult> => {
+    const [events, lanes, dependencies] = await Promise.all([
+      tx.timelineEvent.findMany({
+        where: { weddingId },
+        select: { id: true, laneId: true, locked: true },
+      }),
+      tx.timelineLane.findMany({
+        where: { weddingId },
+        select: { id: true },
+      }),
+      tx.timelineEventDependency.findMany({
+        where: { weddingId },
+        select: { id: true, fromEventId: true, toEventId: true },
+      }),
+    ]);
+
+    const takenIds = await findIdsTakenElsewhere(tx, weddingId, patchOps);
+
+    const opErrors = validatePatchOps(
+      patchOps,
+      { events, laneIds: lanes.map((l) => l.id), dependencies, takenIds },
+      windowStartUtc,
+      windowEndUtc,
+      overrideLocks
+    );
+    if (opErrors.length > 0) {
+      return { ok: false, reason: "invalid", opErrors };
+    }
+
+    // Bump the version only if nobody else published in the meantime
+    const bumped = await tx.wedding.updateMany({
+      where: { id: weddingId, timelineVersion: wedding.timelineVersion },
+      data: { timelineVersion: { increment: 1 } },
+    });
+    if (bumped.count === 0) {
+      return { ok: false, reason: "conflict" };
+    }
+
+    // The first recorded publish also keeps the state it started from, so it can be diffed and restored
+    const recordedVersions = await tx.timelineVersion.count({ where: { weddingId } });
+    if (recordedVersions === 0) {
+      await tx.timelineVersion.create({
+        data: {
+          weddingId,
+          version: wedding.timelineVersion,
+          source: "baseline",
+          publishedById: "system",
+          publishedByName: "System",
+          patchOps: "[]",
+          snapshot: JSON.stringify(await loadTimelineSnapshot(weddingId, tx)),
+        },
+      });
+    }
+
+    for (const op of patchOps) {
+      await applyPatchOp(tx, weddingId, op);
+    }
+
+    const version = wedding.timelineVersion + 1;
+    await tx.timelineVersion.create({
+      data: {
+        weddingId,
+        version,
+        source: publication.source,
+        proposalId: publication.proposalId,
+        restoredFromVersion: publication.restoredFromVersion,
+        publishedById: publication.publishedBy.id,
+        publishedByName: publication.publishedBy.displayName,
+        patchOps: JSON.stringify(patchOps),
+        snapshot: JSON.stringify(await loadTimelineSnapshot(weddingId, tx)),
+      },
+    });
+
+    return { ok: true, version };
+  });
+
+  // Tell open timelines about the new version once it is committed
+  if (result.ok) {
+    broadcastTimelineEvent(weddingId, {
+      type: "version",
+      version: result.version,
+      previousVersion: wedding.timelineVersion,
+      source: publication.source,
+      patchOps,
+      publishedBy: {
+        id: publication.publishedBy.id,
+        displayName: publication.publishedBy.displayName,
+      },
+      publishedAt: new Date().toISOString(),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Replace the computed sun bands for a wedding. Hand-entered bands (meal,
+ * custom) are left alone. Without venue coordinates the sun bands are removed.
+ */
+export async function regenerateSunBands(
+  weddingId: string,
+  wedding: { weddingDate: string; venueTimezone: string; lat: number | null; lng: number | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await client.timelineBackgroundBand.deleteMany({
+    where: { weddingId, bandType: { in: SOLAR_BAND_TYPES } },
+  });
+
+  if (wedding.lat === null || wedding.lng === null) return;
+
+  const bands = computeSunBands(wedding.weddingDate, wedding.venueTimezone, wedding.lat, wedding.lng);
+  await client.timelineBackgroundBand.createMany({
+    data: bands.map((band) => ({
+      weddingId,
+      bandType: band.bandType,
+      startUtc: new Date(band.startUtc),
+      endUtc: new Date(band.endUtc),
+      label: band.label,
+    })),
+  });
+}
+
+/**
+ * Convert a stored proposal row into the API shape (parses the patch op JSON)
+ */
+export function serializeProposal(proposal: ProposalRecord): TimelineProposal {
+  return {
+    id: proposal.id,
+    weddingId: proposal.weddingId,
+    createdBy: {
+      id: proposal.createdById,
+      type: proposal.createdByType,
+      displayName: proposal.createdByName,
+    },
+    baseVersion: proposal.baseVersion,
+    patchOps: JSON.parse(proposal.patchOps) as PatchOp[],
+    message: proposal.message ?? undefined,
+    status: proposal.status,
+    appliedAt: proposal.appliedAt?.toISOString(),
+    appliedById: proposal.appliedById ?? undefined,
+    createdAt: proposal.createdAt.toISOString(),
+  };
+}
+
+// The columns a version summary needs, so listing versions skips the snapshots
+export const VERSION_SUMMARY_SELECT = {
+  version: true,
+  source: true,
+  proposalId: true,
+  restoredFromVersion: true,
+  publishedById: true,
+  publishedByName: true,
+  patchOps: true,
+  createdAt: true,
+} satisfies Prisma.TimelineVersionSelect;
+
+/**
+ * Convert a stored version row into the API summary (without its snapshot)
+ */
+export function serializeTimelineVersion(
+  record: Pick<VersionRecord, keyof typeof VERSION_SUMMARY_SELECT>
+): TimelineVersionSummary {
+  return {
+    version: record.version,
+    source: record.source,
+    proposalId: record.proposalId ?? undefined,
+    restoredFromVersion: record.restoredFromVersion ?? undefined,
+    publishedBy: { id: record.publishedById, displayName: record.publishedByName },
+    changeCount: (JSON.parse(record.patchOps) as PatchOp[]).length,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a stored calendar feed row into the API shape (never includes the token)
+ */
+export function serializeCalendarFeed(
+  record: CalendarFeedRecord & { lane: { name: string } | null }
+): TimelineCalendarFeed {
+  return {
+    id: record.id,
+    laneId: record.laneId,
+    laneName: record.lane?.name ?? null,
+    assignedOwnerName: record.assignedOwnerName,
+    lastFetchedAt: record.lastFetchedAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a stored template row into the API shape (parses the lane/event JSON)
+ */
+export function serializeTemplate(record: TemplateRecord): TimelineTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    anchorLabel: record.anchorLabel,
+    builtIn: false,
+    lanes: JSON.parse(record.lanes) as TimelineTemplateLane[],
+    events: JSON.parse(record.events) as TimelineTemplateEvent[],
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Render the official timeline as an ICS calendar, narrowed by a feed's filters
+ */
+export async function loadTimelineCalendar(
+  wedding: CalendarWedding,
+  filter: CalendarFilter
+): Promise<string> {
+  const { lanes, events } = await loadTimelineSnapshot(wedding.id);
+
+  const lane = filter.laneId ? lanes.find((l) => l.id === filter.laneId) : undefined;
+  const calendarName = [wedding.name, lane?.name, filter.assignedOwnerName?.trim()]
+    .filter(Boolean)
+    .join(" - ");
+
+  return renderTimelineCalendar(
+    wedding,
+    lanes,
+    filterCalendarEvents(events, filter),
+    calendarName
+  );
+}
+
+/**
+ * Serve an ICS calendar, for a download or a calendar app subscription
+ */
+export function calendarResponse(calendar: string, filename: string): Response {
+  return new Response(calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// Apply a single, already validated patch operation
+async function applyPatchOp(tx: Prisma.TransactionClient, weddingId: string, op: PatchOp) {
+  switch (op.op) {
+    case "create_event": {
+      const event = op.event;
+      await tx.timelineEvent.create({
+        data: {
+          id: event.id,
+          weddingId,
+          title: event.title,
+          startUtc: snapToMinute(event.startUtc),
+          endUtc: snapToMinute(event.endUtc),
+          laneId: event.laneId,
+          category: event.category || "misc",
+          assignedOwnerType: "couple",
+          assignedOwnerId: "system",
+          assignedOwnerName: event.assignedOwner || "Couple",
+          status: event.status || "tentative",
+          locked: event.locked || false,
+          notes: event.notes,
+          locationLabel: event.locationLabel,
+          locationLat: event.locationLat,
+          locationLng: event.locationLng,
+        },
+      });
+      break;
+    }
+
+    case "update_event_time": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { startUtc: snapToMinute(op.startUtc), endUtc: snapToMinute(op.endUtc) },
+      });
+      break;
+    }
+
+    case "update_event_lane": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { laneId: op.laneId },
+      });
+      break;
+    }
+
+    case "update_event_title": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { title: op.title },
+      });
+      break;
+    }
+
+    case "update_event_owner": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: {
+          assignedOwnerName: op.owner,
+        },
+      });
+      break;
+    }
+
+    case "update_event_status": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { status: op.status },
+      });
+      break;
+    }
+
+    case "update_event_locked": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { locked: op.locked },
+      });
+      break;
+    }
+
+    case "update_event_notes": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { notes: op.notes },
+      });
+      break;
+    }
+
+    case "update_event_category": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: { category: op.category },
+      });
+      break;
+    }
+
+    case "update_event_location": {
+      await tx.timelineEvent.update({
+        where: { id: op.eventId },
+        data: {
+          locationLabel: op.locationLabel,
+          locationLat: op.locationLat,
+          locationLng: op.locationLng,
+        },
+      });
+      break;
+    }
+
+    case "delete_event": {
+      await tx.timelineEvent.delete({
+        where: { id: op.eventId },
+      });
+      break;
+    }
+
+    case "create_lane": {
+      const lane = op.lane;
+      await tx.timelineLane.create({
+        data: {
+          id: lane.id,
+          weddingId,
+          name: lane.name,
+          type: lane.laneType,
+          ownerType: lane.owner?.type || "couple",
+          ownerId: lane.owner?.id || "system",
+          ownerName: lane.owner?.displayName || "Couple",
+          sortOrder: lane.sortOrder,
+        },
+      });
+      break;
+    }
+
+    case "update_lane": {
+      const updates: Record<string, unknown> = {};
+      if (op.name !== undefined) updates.name = op.name;
+      if (op.sortOrder !== undefined) updates.sortOrder = op.sortOrder;
+      if (op.owner !== undefined) {
+        updates.ownerType = op.owner.type;
+        updates.ownerId = op.owner.id;
+        updates.ownerName = op.owner.displayName;
+      }
+
+      await tx.timelineLane.update({
+        where: { id: op.laneId },
+        data: updates,
+      });
+      break;
+    }
+
+    case "delete_lane": {
+      // First delete all events in the lane
+      await tx.timelineEvent.deleteMany({
+        where: { laneId: op.laneId },
+      });
+      await tx.timelineLane.delete({
+        where: { id: op.laneId },
+      });
+      break;
+    }
+
+    case "create_dependency": {
+      const dep = op.dependency;
+      await tx.timelineEventDependency.create({
+        data: {
+          id: dep.id,
+          weddingId,
+          fromEventId: dep.fromEventId,
+          toEventId: dep.toEventId,
+          gapMinutes: dep.gapMinutes,
+        },
+      });
+      break;
+    }
+
+    case "delete_dependency": {
+      await tx.timelineEventDependency.delete({
+        where: { id: op.dependencyId },
+      });
+      break;
+    }
+  }
+}
+
+// Drop seconds so stored times line up with the canvas' minute grid
+function snapToMinute(utcIso: string): Date {
+  const date = new Date(utcIso);
+  date.setSeconds(0, 0);
+  return date;
+}
@@ -0,0 +1,152 @@
+import { DateTime } from "luxon";
+import type { BandType, TimelineBackgroundBand } from "@/types/timeline";
+import { getTimelineWindow, utcToVenueTime } from "@/lib/time";
+
+// Offline sun position (NOAA solar calculator equations) and the light bands
+// photographers plan around. Accurate to about a minute, which matches the
+// timeline's snapping.
+
+export type SunBand = Omit<TimelineBackgroundBand, "id" | "weddingId">;
+
+// Band types generated from the sun - everything else is entered by hand
+export const SOLAR_BAND_TYPES: BandType[] = [
+  "night",
+  "blue_hour",
+  "civil_twilight",
+  "golden_hour",
+  "sunrise",
+  "sunset",
+];
+
+// Sun elevation (degrees) at which each band starts, from darkest to lightest.
+// -0.833° is sunrise/sunset once refraction and the sun's radius are included.
+const HORIZON = -0.833;
+const ELEVATION_BANDS: { type: BandType; label: string; below: number }[] = [
+  { type: "night", label: "Night", below: -6 },
+  { type: "blue_hour", label: "Blue Hour", below: -4 },
+  { type: "civil_twilight", label: "Civil Twilight", below: HORIZON },
+  { type: "golden_hour", label: "Golden Hour", below: 6 },
+];
+
+// Sunrise/sunset markers are drawn this many minutes either side of the moment
+const MARKER_HALF_WIDTH_MINUTES = 5;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Sun elevation above the horizon in degrees (geometric, no refraction)
+ */
+export function solarElevation(date: Date, lat: number, lng: number): number {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525; // Julian centuries since J2000
+
+  const meanLong = (((280.46646 + t * (36000.76983 + t * 0.0003032)) % 360) + 360) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const center =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLong = toRadians(meanLong + center - 0.00569 - 0.00478 * Math.sin(omega));
+
+  const meanObliquity =
+    23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLong));
+
+  // Equation of time in minutes
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLong);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  const utcMinutes =
+    date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const trueSolarTime = (((utcMinutes + equationOfTime + 4 * lng) % 1440) + 1440) % 1440;
+  const hourAngle = toRadians(trueSolarTime / 4 - 180);
+
+  const latRad = toRadians(lat);
+  const cosZenith =
+    Math.sin(latRad) * Math.sin(declination) +
+    Math.cos(latRad) * Math.cos(declination) * Math.cos(hourAngle);
+
+  return 90 - toDegrees(Math.acos(Math.min(1, Math.max(-1, cosZenith))));
+}
+
+/**
+ * Compute the sun bands for a wedding day's timeline window at the venue.
+ * Handles polar day/night naturally: bands only appear if the sun gets there.
+ */
+export function computeSunBands(
+  weddingDate: string,
+  venueTimezone: string,
+  lat: number,
+  lng: number
+): SunBand[] {
+  const { windowStartUtc, windowEndUtc } = getTimelineWindow(weddingDate, venueTimezone);
+  const start = DateTime.fromISO(windowStartUtc, { zone: "utc" });
+  const totalMinutes = Math.round(
+    DateTime.fromISO(windowEndUtc, { zone: "utc" }).diff(start, "minutes").minutes
+  );
+
+  const minuteAt = (i: number) => start.plus({ minutes: i });
+  const elevations = Array.from({ length: totalMinutes + 1 }, (_, i) =>
+    solarElevation(minuteAt(i).toJSDate(), lat, lng)
+  );
+
+  // Classify each minute by the elevation at its midpoint and merge runs
+  const classify = (i: number) => {
+    const elevation = (elevations[i] + elevations[i + 1]) / 2;
+    return ELEVATION_BANDS.find((band) => elevation < band.below) ?? null;
+  };
+
+  const bands: SunBand[] = [];
+  let runStart = 0;
+  let runBand = classify(0);
+  for (let i = 1; i <= totalMinutes; i++) {
+    const band = i < totalMinutes ? classify(i) : null;
+    if (i < totalMinutes && band === runBand) continue;
+    if (runBand) {
+      bands.push({
+        bandType: runBand.type,
+        startUtc: minuteAt(runStart).toISO()!,
+        endUtc: minuteAt(i).toISO()!,
+        label: runBand.label,
+      });
+    }
+    runStart = i;
+    runBand = band;
+  }
+
+  // Sunrise and sunset markers where the sun crosses the horizon
+  for (let i = 0; i < totalMinutes; i++) {
+    const [before, after] = [elevations[i], elevations[i + 1]];
+    const rising = before < HORIZON && after >= HORIZON;
+    const setting = before >= HORIZON && after < HORIZON;
+    if (!rising && !setting) continue;
+
+    const moment = minuteAt(i + Math.round((HORIZON - before) / (after - before)));
+    const type: BandType = rising ? "sunrise" : "sunset";
+    bands.push({
+      bandType: type,
+      startUtc: moment.minus({ minutes: MARKER_HALF_WIDTH_MINUTES }).toISO()!,
+      endUtc: moment.plus({ minutes: MARKER_HALF_WIDTH_MINUTES }).toISO()!,
+      label: `${rising ? "Sunrise" : "Sunset"} ${utcToVenueTime(moment.toISO()!, venueTimezone)}`,
+    });
+  }
+
+  return bands.sort((a, b) => a.startUtc.localeCompare(b.startUtc));
+}
@@ -0,0 +1,275 @@
+import { DateTime } from "luxon";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  PatchOp,
+  TimelineEventItem,
+  TimelineLane,
+  TimelineTemplate,
+  TimelineTemplateEvent,
+  TimelineTemplateLane,
+} from "@/types/timeline";
+
+// Timeline templates: common wedding-day formats as offsets from the ceremony
+// start, laid onto a wedding's draft as create_lane/create_event ops
+
+const CEREMONY_START = "Ceremony start";
+
+const LANES = {
+  prep: { key: "prep", name: "Getting Ready", laneType: "prep" },
+  photo: { key: "photo", name: "Photography", laneType: "photo" },
+  ceremony: { key: "ceremony", name: "Ceremony", laneType: "ceremony" },
+  transport: { key: "transport", name: "Transportation", laneType: "transport" },
+  meal: { key: "meal", name: "Reception", laneType: "meal" },
+  music: { key: "music", name: "Music & Entertainment", laneType: "music" },
+} satisfies Record<string, TimelineTemplateLane>;
+
+function event(
+  laneKey: keyof typeof LANES,
+  title: string,
+  offsetMinutes: number,
+  durationMinutes: number,
+  notes?: string
+): TimelineTemplateEvent {
+  return { laneKey, title, offsetMinutes, durationMinutes, notes: notes ?? null };
+}
+
+export const BUILT_IN_TEMPLATES: TimelineTemplate[] = [
+  {
+    id: "builtin-catholic-mass",
+    name: "Catholic ceremony (full Mass)",
+    description: "Church ceremony with a Nuptial Mass, then travel to a separate reception venue.",
+    anchorLabel: CEREMONY_START,
+    builtIn: true,
+    createdAt: null,
+    lanes: [LANES.prep, LANES.photo, LANES.ceremony, LANES.transport, LANES.meal, LANES.music],
+    events: [
+      event("prep", "Hair & makeup", -300, 180),
+      event("photo", "Detail photos", -210, 45),
+      event("prep", "Groom & groomsmen get ready", -180, 60),
+      event("photo", "Bride & bridesmaids portraits", -120, 45),
+      event("transport", "Travel to church", -60, 30),
+      event("ceremony", "Guests arrive & seating", -30, 30),
+      event("ceremony", "Nuptial Mass", 0, 60, "Confirm readers and gift bearers with the parish"),
+      event("ceremony", "Receiving line", 60, 20),
+      event("photo", "Family photos at the church", 80, 30),
+      event("transport", "Travel to reception", 110, 30),
+      event("meal", "Cocktail hour", 120, 60),
+      event("music", "Grand entrance", 180, 15),
+      event("meal", "Dinner", 195, 75),
+      event("music", "First dance", 270, 10),
+      event("meal", "Toasts", 280, 20),
+      event("meal", "Cake cutting", 300, 15),
+      event("music", "Open dancing", 315, 165),
+      event("transport", "Send-off", 480, 15),
+    ],
+  },
+  {
+    id: "builtin-first-look",
+    name: "First look",
+    description:
+      "Couple sees each other before the ceremony, so most photos are done early and they can join cocktail hour.",
+    anchorLabel: CEREMONY_START,
+    builtIn: true,
+    createdAt: null,
+    lanes: [LANES.prep, LANES.photo, LANES.ceremony, LANES.meal, LANES.music],
+    events: [
+      event("prep", "Hair & makeup", -300, 180),
+      event("photo", "Getting ready photos", -180, 30),
+      event("photo", "First look", -150, 20),
+      event("photo", "Couple portraits", -130, 40),
+      event("photo", "Wedding party photos", -90, 40),
+      event("photo", "Family photos", -50, 20),
+      event("ceremony", "Guests arrive & seating", -30, 30),
+      event("ceremony", "Ceremony", 0, 30),
+      event("meal", "Cocktail hour", 30, 60, "Couple joins guests"),
+      event("music", "Grand entrance", 90, 15),
+      event("meal", "Dinner", 105, 75),
+      event("meal", "Toasts", 180, 20),
+      event("music", "First dance", 200, 10),
+      event("music", "Open dancing", 210, 150),
+      event("music", "Send-off", 360, 15),
+    ],
+  },
+  {
+    id: "builtin-traditional",
+    name: "Traditional (no first look)",
+    description:
+      "Couple first sees each other at the aisle; family, party and couple photos happen during cocktail hour.",
+    anchorLabel: CEREMONY_START,
+    builtIn: true,
+    createdAt: null,
+    lanes: [LANES.prep, LANES.photo, LANES.ceremony, LANES.meal, LANES.music],
+    events: [
+      event("prep", "Hair & makeup", -240, 180),
+      event("photo", "Detail photos", -150, 45),
+      event("photo", "Getting ready photos", -90, 45),
+      event("ceremony", "Guests arrive & seating", -30, 30),
+      event("ceremony", "Ceremony", 0, 30),
+      event("photo", "Family photos", 30, 30),
+      event("photo", "Wedding party photos", 60, 30),
+      event("photo", "Couple portraits", 90, 30),
+      event("meal", "Cocktail hour", 30, 90),
+      event("music", "Grand entrance", 120, 15),
+      event("meal", "Dinner", 135, 75),
+      event("meal", "Toasts", 210, 20),
+      event("music", "First dance", 230, 10),
+      event("music", "Open dancing", 240, 150),
+      event("music", "Send-off", 390, 15),
+    ],
+  },
+  {
+    id: "builtin-cocktail-reception",
+    name: "Cocktail-hour-only reception",
+    description: "Short ceremony followed by a standing cocktail reception instead of a seated dinner.",
+    anchorLabel: CEREMONY_START,
+    builtIn: true,
+    createdAt: null,
+    lanes: [LANES.prep, LANES.photo, LANES.ceremony, LANES.meal],
+    events: [
+      event("prep", "Getting ready", -180, 120),
+      event("photo", "Portraits", -60, 40),
+      event("ceremony", "Guests arrive", -20, 20),
+      event("ceremony", "Ceremony", 0, 25),
+      event("meal", "Cocktail reception", 25, 150, "Heavy hors d'oeuvres and stations"),
+      event("meal", "Toasts", 85, 15),
+      event("meal", "Cake cutting", 110, 15),
+      event("meal", "Send-off", 175, 15),
+    ],
+  },
+];
+
+export type TemplateApplyContext = {
+  lanes: TimelineLane[]; // Lanes in the current draft
+  windowStartUtc: string;
+  windowEndUtc: string;
+};
+
+/**
+ * Ops that add a template's events to a draft with its anchor at `anchorUtc`.
+ * Template lanes reuse a draft lane with the same name or are created.
+ * Events that would fall outside the day-of window are left out and listed.
+ */
+export function applyTemplate(
+  template: Pick<TimelineTemplate, "lanes" | "events">,
+  anchorUtc: string,
+  context: TemplateApplyContext
+): { ops: PatchOp[]; skipped: string[] } {
+  const anchor = DateTime.fromISO(anchorUtc, { zone: "utc" });
+  const windowStart = DateTime.fromISO(context.windowStartUtc, { zone: "utc" });
+  const windowEnd = DateTime.fromISO(context.windowEndUtc, { zone: "utc" });
+
+  const draftLanes = new Map(context.lanes.map((lane) => [lane.name.trim().toLowerCase(), lane]));
+  let nextSortOrder = Math.max(-1, ...context.lanes.map((lane) => lane.sortOrder)) + 1;
+
+  const laneOps: PatchOp[] = [];
+  const eventOps: PatchOp[] = [];
+  const skipped: string[] = [];
+  const laneIds = new Map<string, string>();
+
+  // Only create the lanes that end up with events
+  const laneFor = (key: string): string | null => {
+    const existing = laneIds.get(key);
+    if (existing) return existing;
+
+    const templateLane = template.lanes.find((lane) => lane.key === key);
+    if (!templateLane) return null;
+
+    let lane = draftLanes.get(templateLane.name.trim().toLowerCase());
+    if (!lane) {
+      lane = {
+        id: uuidv4(),
+        weddingId: "", // Will be set by the API
+        name: templateLane.name,
+        laneType: templateLane.laneType,
+        sortOrder: nextSortOrder++,
+      };
+      laneOps.push({ op: "create_lane", lane });
+    }
+    laneIds.set(key, lane.id);
+    return lane.id;
+  };
+
+  for (const templateEvent of template.events) {
+    const start = anchor.plus({ minutes: templateEvent.offsetMinutes });
+    const end = start.plus({ minutes: templateEvent.durationMinutes });
+    if (start < windowStart || end > windowEnd) {
+      skipped.push(templateEvent.title);
+      continue;
+    }
+
+    const laneId = laneFor(templateEvent.laneKey);
+    if (!laneId) {
+      skipped.push(templateEvent.title);
+      continue;
+    }
+
+    const lane = template.lanes.find((l) => l.key === templateEvent.laneKey)!;
+    const newEvent: TimelineEventItem = {
+      id: uuidv4(),
+      weddingId: "", // Will be set by the API
+      title: templateEvent.title,
+      startUtc: start.toISO()!,
+      endUtc: end.toISO()!,
+      laneId,
+      category: templateEvent.category ?? lane.laneType,
+      status: "tentative",
+      notes: templateEvent.notes ?? null,
+    };
+    eventOps.push({ op: "create_event", event: newEvent });
+  }
+
+  return { ops: [...laneOps, ...eventOps], skipped };
+}
+
+/**
+ * Turn a wedding's timeline into template lanes and events, measured from the
+ * start of `anchorEventId`. Owners and locations belong to that wedding, so
+ * they're left out.
+ */
+export function templateFromTimeline(
+  lanes: TimelineLane[],
+  events: TimelineEventItem[],
+  anchorEventId: string
+): Pick<TimelineTemplate, "lanes" | "events"> | null {
+  const anchorEvent = events.find((e) => e.id === anchorEventId);
+  if (!anchorEvent) return null;
+
+  const anchor = Date.parse(anchorEvent.startUtc);
+  const usedLaneIds = new Set(events.map((e) => e.laneId));
+
+  return {
+    lanes: [...lanes]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .filter((lane) => usedLaneIds.has(lane.id))
+      .map((lane) => ({ key: lane.id, name: lane.name, laneType: lane.laneType })),
+    events: [...events]
+      .sort((a, b) => Date.parse(a.startUtc) - Date.parse(b.startUtc))
+      .map((e) => ({
+        laneKey: e.laneId,
+        title: e.title,
+        offsetMinutes: Math.round((Date.parse(e.startUtc) - anchor) / 60000),
+        durationMinutes: Math.round((Date.parse(e.endUtc) - Date.parse(e.startUtc)) / 60000),
+        category: e.category,
+        notes: e.notes ?? null,
+      })),
+  };
+}
+
+/**
+ * The event a timeline is most likely anchored on: the first ceremony-titled
+ * event in a ceremony lane, else any ceremony-titled event, else the first
+ * event in a ceremony lane
+ */
+export function findCeremonyEvent(
+  events: TimelineEventItem[],
+  lanes: TimelineLane[]
+): TimelineEventItem | null {
+  const ceremonyLanes = new Set(lanes.filter((l) => l.laneType === "ceremony").map((l) => l.id));
+  const sorted = [...events].sort((a, b) => Date.parse(a.startUtc) - Date.parse(b.startUtc));
+  return (
+    sorted.find((e) => /ceremony|mass|vows/i.test(e.title) && ceremonyLanes.has(e.laneId)) ??
+    sorted.find((e) => /ceremony|mass|vows/i.test(e.title)) ??
+    sorted.find((e) => ceremonyLanes.has(e.laneId)) ??
+    null
+  );
+}
@@ -0,0 +1,337 @@
+import type { OwnerRef, OwnerType, PatchOp, PatchOpError } from "@/types/timeline";
+import { LANE_TYPE_LABELS } from "@/types/timeline";
+import { validateEventTimes } from "@/lib/time";
+import { wouldCreateCycle } from "./dependencies";
+
+type DependencyShape = { id: string; fromEventId: string; toEventId: string };
+
+type TimelineShape = {
+  events: { id: string; laneId: string; locked?: boolean }[];
+  laneIds: string[];
+  dependencies: DependencyShape[];
+  // Ids already taken by another wedding's events, lanes or links - ids are global
+  takenIds?: Set<string>;
+};
+
+const OWNER_TYPES: OwnerType[] = ["couple", "planner", "vendor", "person", "group", "system"];
+
+/**
+ * Check a list of patch operations against the current timeline, in order.
+ * Returns one error per failing op (empty when everything is valid).
+ * Changes to locked events are refused unless `allowLockedChanges` is set.
+ */
+export function validatePatchOps(
+  patchOps: PatchOp[],
+  current: TimelineShape,
+  windowStartUtc: string,
+  windowEndUtc: string,
+  allowLockedChanges: boolean = false
+): PatchOpError[] {
+  const errors: PatchOpError[] = [];
+  // eventId -> laneId, updated as ops are replayed
+  const events = new Map(current.events.map((e) => [e.id, e.laneId]));
+  const lanes = new Set(current.laneIds);
+  const locked = new Set(current.events.filter((e) => e.locked).map((e) => e.id));
+  const dependencies = new Map(current.dependencies.map((d) => [d.id, d]));
+  const isTaken = (id: string) => current.takenIds?.has(id) ?? false;
+
+  // Links to a removed event go with it
+  const dropDependenciesOf = (eventId: string) => {
+    for (const [id, dep] of dependencies) {
+      if (dep.fromEventId === eventId || dep.toEventId === eventId) dependencies.delete(id);
+    }
+  };
+
+  patchOps.forEach((op, index) => {
+    const fail = (
+      reason: string,
+      ids: { eventId?: string; laneId?: string; dependencyId?: string } = {}
+    ) => {
+      errors.push({ index, op: op.op, ...ids, reason });
+    };
+    const isLocked = (eventId: string) => !allowLockedChanges && locked.has(eventId);
+    const failLocked = (eventId: string) => {
+      errors.push({ index, op: op.op, eventId, reason: "Event is locked", locked: true });
+    };
+
+    switch (op.op) {
+      case "create_event": {
+        const event = op.event;
+        if (!event?.id) {
+          fail("Event id is required");
+          break;
+        }
+        if (events.has(event.id) || isTaken(event.id)) {
+          fail("An event with this id already exists", { eventId: event.id });
+        } else if (!event.title?.trim()) {
+          fail("Title is required", { eventId: event.id });
+        } else if (
+          event.category &&
+          (typeof event.category !== "string" || !Object.hasOwn(LANE_TYPE_LABELS, event.category))
+        ) {
+          fail("Unknown category", { eventId: event.id });
+        } else if (event.status && event.status !== "tentative" && event.status !== "confirmed") {
+          fail("Status must be tentative or confirmed", { eventId: event.id });
+        } else if (!lanes.has(event.laneId)) {
+          fail("Lane does not exist", { eventId: event.id, laneId: event.laneId });
+        } else {
+          const times = validateEventTimes(event.startUtc, event.endUtc, windowStartUtc, windowEndUtc);
+          if (!times.valid) fail(times.error!, { eventId: event.id });
+        }
+        // Track it even when invalid so later ops on it don't report a second error
+        events.set(event.id, event.laneId);
+        break;
+      }
+
+      case "update_event_time": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+          break;
+        }
+        if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+          break;
+        }
+        const times = validateEventTimes(op.startUtc, op.endUtc, windowStartUtc, windowEndUtc);
+        if (!times.valid) fail(times.error!, { eventId: op.eventId });
+        break;
+      }
+
+      case "update_event_lane": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        } else if (!lanes.has(op.laneId)) {
+          fail("Lane does not exist", { eventId: op.eventId, laneId: op.laneId });
+        } else {
+          events.set(op.eventId, op.laneId);
+        }
+        break;
+      }
+
+      case "update_event_title": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        } else if (!op.title?.trim()) {
+          fail("Title is required", { eventId: op.eventId });
+        }
+        break;
+      }
+
+      case "update_event_owner": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        }
+        break;
+      }
+
+      case "update_event_status": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        } else if (op.status !== "tentative" && op.status !== "confirmed") {
+          fail("Status must be tentative or confirmed", { eventId: op.eventId });
+        }
+        break;
+      }
+
+      case "update_event_locked": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (typeof op.locked !== "boolean") {
+          fail("Locked must be true or false", { eventId: op.eventId });
+        } else if (op.locked) {
+          locked.add(op.eventId);
+        } else {
+          // Unlocking is itself an admin decision - later ops may change the event
+          locked.delete(op.eventId);
+        }
+        break;
+      }
+
+      case "update_event_notes": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        } else if (op.notes !== null && typeof op.notes !== "string") {
+          fail("Notes must be text", { eventId: op.eventId });
+        }
+        break;
+      }
+
+      case "update_event_category": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+        } else if (
+          typeof op.category !== "string" ||
+          !Object.hasOwn(LANE_TYPE_LABELS, op.category)
+        ) {
+          fail("Unknown category", { eventId: op.eventId });
+        }
+        break;
+      }
+
+      case "update_event_location": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+          break;
+        }
+        if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+          break;
+        }
+        const location = validateLocation(op.locationLabel, op.locationLat, op.locationLng);
+        if (location) fail(location, { eventId: op.eventId });
+        break;
+      }
+
+      case "delete_event": {
+        if (!events.has(op.eventId)) {
+          fail("Event does not exist", { eventId: op.eventId });
+        } else if (isLocked(op.eventId)) {
+          failLocked(op.eventId);
+          break;
+        }
+        events.delete(op.eventId);
+        dropDependenciesOf(op.eventId);
+        break;
+      }
+
+      case "create_lane": {
+        if (!op.lane?.id) {
+          fail("Lane id is required");
+          break;
+        }
+        if (lanes.has(op.lane.id) || isTaken(op.lane.id)) {
+          fail("A lane with this id already exists", { laneId: op.lane.id });
+        } else if (!op.lane.name?.trim()) {
+          fail("Lane name is required", { laneId: op.lane.id });
+        } else if (op.lane.owner !== undefined && !isOwnerRef(op.lane.owner)) {
+          fail("Owner must have an id, a type and a display name", { laneId: op.lane.id });
+        }
+        lanes.add(op.lane.id);
+        break;
+      }
+
+      case "update_lane": {
+        if (!lanes.has(op.laneId)) {
+          fail("Lane does not exist", { laneId: op.laneId });
+        } else if (op.name !== undefined && !op.name.trim()) {
+          fail("Lane name is required", { laneId: op.laneId });
+        } else if (op.owner !== undefined && !isOwnerRef(op.owner)) {
+          fail("Owner must have an id, a type and a display name", { laneId: op.laneId });
+        }
+        break;
+      }
+
+      case "delete_lane": {
+        const lockedInLane = Array.from(events).find(
+          ([eventId, laneId]) => laneId === op.laneId && isLocked(eventId)
+        );
+        if (!lanes.has(op.laneId)) {
+          fail("Lane does not exist", { laneId: op.laneId });
+        } else if (lockedInLane) {
+          errors.push({
+            index,
+            op: op.op,
+            eventId: lockedInLane[0],
+            laneId: op.laneId,
+            reason: "Lane contains a locked event",
+            locked: true,
+          });
+          break;
+        }
+        lanes.delete(op.laneId);
+        // Events in the lane go with it
+        for (const [eventId, laneId] of events) {
+          if (laneId === op.laneId) {
+            events.delete(eventId);
+            dropDependenciesOf(eventId);
+          }
+        }
+        break;
+      }
+
+      case "create_dependency": {
+        const dep = op.dependency;
+        if (!dep?.id) {
+          fail("Dependency id is required");
+          break;
+        }
+        const ids = { dependencyId: dep.id, eventId: dep.toEventId };
+        const links = Array.from(dependencies.values());
+        if (dependencies.has(dep.id) || isTaken(dep.id)) {
+          fail("A dependency with this id already exists", ids);
+        } else if (!events.has(dep.fromEventId) || !events.has(dep.toEventId)) {
+          fail("Event does not exist", ids);
+        } else if (!Number.isInteger(dep.gapMinutes) || dep.gapMinutes < 0) {
+          fail("Gap must be a whole number of minutes, zero or more", ids);
+        } else if (
+          links.some((d) => d.fromEventId === dep.fromEventId && d.toEventId === dep.toEventId)
+        ) {
+          fail("These events are already linked", ids);
+        } else if (wouldCreateCycle(links, dep.fromEventId, dep.toEventId)) {
+          fail("This link would make the events depend on each other", ids);
+        } else {
+          dependencies.set(dep.id, dep);
+        }
+        break;
+      }
+
+      case "delete_dependency": {
+        if (!dependencies.has(op.dependencyId)) {
+          fail("Dependency does not exist", { dependencyId: op.dependencyId });
+        }
+        dependencies.delete(op.dependencyId);
+        break;
+      }
+
+      default:
+        fail(`Unknown operation "${(op as { op: string }).op}"`);
+    }
+  });
+
+  return errors;
+}
+
+function isOwnerRef(owner: unknown): owner is OwnerRef {
+  if (typeof owner !== "object" || owner === null) return false;
+  const { id, type, displayName } = owner as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    !!id &&
+    OWNER_TYPES.includes(type as OwnerType) &&
+    typeof displayName === "string" &&
+    !!displayName.trim()
+  );
+}
+
+// Returns why an event location is invalid, or null when it is fine
+function validateLocation(
+  label: string | null,
+  lat: number | null,
+  lng: number | null
+): string | null {
+  if (label !== null && typeof label !== "string") {
+    return "Location label must be text";
+  }
+  if ((lat === null) !== (lng === null)) {
+    return "Latitude and longitude must be set together";
+  }
+  if (lat !== null && (typeof lat !== "number" || !Number.isFinite(lat) || lat < -90 || lat > 90)) {
+    return "Latitude must be between -90 and 90";
+  }
+  if (lng !== null && (typeof lng !== "number" || !Number.isFinite(lng) || lng < -180 || lng > 180)) {
+    return "Longitude must be between -180 and 180";
+  }
+  return null;
+}
@@ -1,7 +1,9 @@
 // Cash Management Module Type Definitions
 // Based on the Cash Management MVP spec
 
-export type MilestoneStatus = "planned" | "due" | "paid";
+// Unpaid milestones move from planned to due to late on their own as the due
+// date approaches and passes (see lib/cash/status.ts)
+export type MilestoneStatus = "planned" | "due" | "late" | "paid";
 
 export type BudgetRole = "COUPLE_BUDGET_ADMIN" | "NONE";
 
@@ -50,12 +52,35 @@ export type PaymentMilestone = {
   dueDate: string; // ISO date
   status: MilestoneStatus;
   paidDate?: string;
-  paidAmount?: number; // for partial payments (v1)
+  paidAmount?: number; // Sum of its payments so far
+  paymentMethod?: string; // Of the latest payment
+  confirmationRef?: string;
+  notes?: string;
+};
+
+// One payment toward a milestone
+export type PaymentTransaction = {
+  id: string;
+  milestoneId: string;
+  amount: number; // in cents
+  paidDate: string; // ISO date
   paymentMethod?: string;
   confirmationRef?: string;
   notes?: string;
+  createdAt: string;
 };
 
+export type PaymentTransactionCreateRequest = {
+  amount: number; // in cents, no more than the remaining balance
+  paidDate: string; // YYYY-MM-DD
+  paymentMethod?: string | null;
+  confirmationRef?: string | null;
+  notes?: string | null;
+};
+
+// Suggestions for a payment's method
+export const PAYMENT_METHODS = ["Card", "Check", "ACH", "Cash", "Other"] as const;
+
 // Calculated summary metrics
 export type CashSummary = {
   totalCommitted: number;
@@ -103,6 +128,8 @@ export type MilestoneWithDetails = PaymentMilestone & {
   categoryName?: string;
   vendorName?: string;
   fundingSourceName?: string;
+  remainingAmount: number; // amount - paidAmount
+  payments: PaymentTransaction[];
 };
 
 // API response types
@@ -110,21 +137,96 @@ export type CashOverviewResponse = {
   summary: CashSummary;
   fundingSources: FundingSourceWithUsage[];
   categories: BudgetCategory[];
+  contracts: Contract[];
+  milestones: MilestoneWithDetails[]; // Every milestone, by due date
   upcomingMilestones: MilestoneWithDetails[];
   monthlyData: MonthlyCashflow[];
   alerts: CashAlert[];
 };
 
-export type MilestoneUpdateRequest = {
-  dueDate?: string;
-  amount?: number;
-  fundingSourceId?: string | null;
-  status?: MilestoneStatus;
-  paidDate?: string;
-  label?: string;
+export type FundingSourceCreateRequest = {
+  name: string;
+  committedAmount: number; // in cents
   notes?: string;
 };
 
+export type FundingSourceUpdateRequest = Partial<FundingSourceCreateRequest>;
+
+export type FundingSourceResponse = {
+  fundingSource: FundingSource;
+};
+
+// How a new contract's payments are spread out: a deposit now, evenly split
+// installments, and the balance due some days before the wedding
+export type PaymentScheduleOptions = {
+  depositPercent: number; // 0-100
+  installmentCount: number; // Between the deposit and the balance
+  balanceDaysBefore: number; // Days before the wedding date
+};
+
+export const DEFAULT_PAYMENT_SCHEDULE: PaymentScheduleOptions = {
+  depositPercent: 30,
+  installmentCount: 1,
+  balanceDaysBefore: 30,
+};
+
+// A generated milestone, before it's saved
+export type ScheduledPayment = {
+  label: string;
+  amount: number; // in cents
+  dueDate: string; // YYYY-MM-DD
+};
+
+// Contract with its payment schedule
+export type ContractWithSchedule = Contract & {
+  categoryName?: string;
+  milestones: PaymentMilestone[];
+  scheduledAmount: number; // Sum of the milestones
+  scheduleMismatch: boolean; // Milestones don't add up to totalAmount
+};
+
+export type ContractsResponse = {
+  contracts: ContractWithSchedule[];
+  categories: BudgetCategory[];
+  weddingDate: string; // YYYY-MM-DD, for previewing schedules
+};
+
+export type ContractCreateRequest = {
+  vendorName: string;
+  vendorContact?: string;
+  vendorEmail?: string;
+  vendorPhone?: string;
+  categoryId?: string | null;
+  totalAmount: number; // in cents
+  signedDate?: string | null; // YYYY-MM-DD
+  notes?: string;
+  schedule?: PaymentScheduleOptions | null; // Omit or null to add payments later
+};
+
+export type ContractUpdateRequest = Partial<Omit<ContractCreateRequest, "schedule">>;
+
+export type MilestoneCreateRequest = {
+  label: string;
+  amount: number; // in cents, more than zero
+  dueDate: string; // YYYY-MM-DD
+  categoryId?: string | null;
+  contractId?: string | null; // Category defaults to the contract's
+  fundingSourceId?: string | null;
+  notes?: string | null;
+};
+
+// Every editable field; null clears an optional one. What's been paid comes
+// from the milestone's payments: setting status to "paid" records a payment
+// for the remaining balance (dated paidDate, today if omitted). To unpay a
+// milestone, delete its payments one at a time; unpaid statuses follow the due
+// date and can't be set.
+export type MilestoneUpdateRequest = Partial<MilestoneCreateRequest> & {
+  status?: "paid";
+  paidDate?: string | null; // YYYY-MM-DD
+  paymentMethod?: string | null;
+  confirmationRef?: string | null;
+};
+
 // Display formatting helpers
 export function formatCurrency(cents: number): string {
   return new Intl.NumberFormat("en-US", {
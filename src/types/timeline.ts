@@ -47,9 +47,19 @@ export type TimelineEventItem = {
   locationLng?: number | null;
 };
 
+// Finish-to-start link: `toEventId` starts at least `gapMinutes` after `fromEventId` ends
+export type TimelineEventDependency = {
+  id: string;
+  weddingId: string;
+  fromEventId: string;
+  toEventId: string;
+  gapMinutes: number;
+};
+
 export type BandType =
   | "night"
   | "golden_hour"
+  | "sunrise"
   | "sunset"
   | "civil_twilight"
   | "blue_hour"
@@ -79,10 +89,34 @@ export type PatchOp =
   | { op: "update_event_lane"; eventId: string; laneId: string }
   | { op: "update_event_title"; eventId: string; title: string }
   | { op: "update_event_owner"; eventId: string; owner: string }
+  | { op: "update_event_status"; eventId: string; status: EventStatus }
+  | { op: "update_event_locked"; eventId: string; locked: boolean }
+  | { op: "update_event_notes"; eventId: string; notes: string | null }
+  | { op: "update_event_category"; eventId: string; category: LaneType }
+  | {
+      op: "update_event_location";
+      eventId: string;
+      locationLabel: string | null;
+      locationLat: number | null;
+      locationLng: number | null;
+    }
   | { op: "delete_event"; eventId: string }
   | { op: "create_lane"; lane: TimelineLane }
   | { op: "update_lane"; laneId: string; name?: string; owner?: OwnerRef; sortOrder?: number }
-  | { op: "delete_lane"; laneId: string };
+  | { op: "delete_lane"; laneId: string }
+  | { op: "create_dependency"; dependency: TimelineEventDependency }
+  | { op: "delete_dependency"; dependencyId: string };
+
+// Why a patch operation was rejected by the server (422 response)
+export type PatchOpError = {
+  index: number; // Position in the submitted patchOps array
+  op: PatchOp["op"];
+  eventId?: string;
+  laneId?: string;
+  dependencyId?: string;
+  reason: string;
+  locked?: boolean; // Rejected only because the event is locked - an admin may override
+};
 
 // Proposal status
 export type ProposalStatus = "pending" | "applied" | "rejected" | "needs_review";
@@ -100,6 +134,26 @@ export type TimelineProposal = {
   createdAt: string;
 };
 
+// Lanes, events and dependencies as of one timeline version
+export type TimelineSnapshot = {
+  lanes: TimelineLane[];
+  events: TimelineEventItem[];
+  dependencies: TimelineEventDependency[];
+};
+
+// What produced a timeline version
+export type TimelineVersionSource = "baseline" | "publish" | "proposal" | "restore";
+
+export type TimelineVersionSummary = {
+  version: number;
+  source: TimelineVersionSource;
+  proposalId?: string;
+  restoredFromVersion?: number;
+  publishedBy: Pick<OwnerRef, "id" | "displayName">;
+  changeCount: number; // Patch ops in the publish
+  createdAt: string;
+};
+
 // API response types
 export type TimelineResponse = {
   version: number;
@@ -109,12 +163,19 @@ export type TimelineResponse = {
   windowEndUtc: string;
   lanes: TimelineLane[];
   events: TimelineEventItem[];
+  dependencies: TimelineEventDependency[];
   bands: TimelineBackgroundBand[];
 };
 
 export type TimelineUpdateRequest = {
   baseVersion: number;
   patchOps: PatchOp[];
+  overrideLocks?: boolean; // Allow changes to locked events
+};
+
+export type PatchValidationErrorResponse = {
+  error: string;
+  opErrors: PatchOpError[];
 };
 
 export type ProposalCreateRequest = {
@@ -123,6 +184,139 @@ export type ProposalCreateRequest = {
   message?: string;
 };
 
+export type ProposalApplyRequest = {
+  force?: boolean; // Apply even though the proposal was made against an older version
+  opIndexes?: number[]; // Accept only these ops; the rest are dropped
+  overrideLocks?: boolean; // Allow changes to locked events
+};
+
+export type TimelineVersionsResponse = {
+  currentVersion: number;
+  versions: TimelineVersionSummary[]; // Newest first
+};
+
+// The ops that turn one version into another
+export type TimelineVersionDiffResponse = {
+  fromVersion: number;
+  toVersion: number;
+  patchOps: PatchOp[];
+  before: TimelineSnapshot;
+  after: TimelineSnapshot;
+};
+
+// Pushed over the timeline stream after every publish
+export type TimelineVersionEvent = {
+  type: "version";
+  version: number;
+  previousVersion: number;
+  source: TimelineVersionSource;
+  patchOps: PatchOp[];
+  publishedBy: Pick<OwnerRef, "id" | "displayName">;
+  publishedAt: string;
+};
+
+// Someone with the timeline open
+export type TimelineViewer = {
+  userId: string;
+  displayName: string;
+  avatarUrl: string | null;
+  selectedEventId: string | null; // Soft lock: the event open in their inspector
+};
+
+// Pushed over the timeline stream whenever someone arrives, leaves or selects an event
+export type TimelinePresenceEvent = {
+  type: "presence";
+  viewers: TimelineViewer[];
+};
+
+export type TimelineStreamEvent = TimelineVersionEvent | TimelinePresenceEvent;
+
+export type TimelinePresenceUpdateRequest = {
+  selectedEventId: string | null;
+};
+
+// The caller's autosaved draft, if any
+export type TimelineDraftResponse = {
+  draft: {
+    baseVersion: number;
+    patchOps: PatchOp[];
+    updatedAt: string;
+    base: TimelineSnapshot | null; // The timeline it was made against, when that version is recorded
+  } | null;
+};
+
+export type TimelineDraftSaveRequest = {
+  baseVersion: number;
+  patchOps: PatchOp[];
+};
+
+export type TimelineRestoreRequest = {
+  baseVersion: number; // The version the restore was requested against
+  overrideLocks?: boolean; // Allow changes to locked events
+};
+
+// A calendar subscription (ICS) URL the caller created; the URL itself is only
+// returned once, when the feed is created
+export type TimelineCalendarFeed = {
+  id: string;
+  laneId: string | null;
+  laneName: string | null;
+  assignedOwnerName: string | null;
+  lastFetchedAt: string | null;
+  createdAt: string;
+};
+
+export type TimelineCalendarFeedsResponse = {
+  feeds: TimelineCalendarFeed[];
+};
+
+export type TimelineCalendarFeedCreateRequest = {
+  laneId?: string | null;
+  assignedOwnerName?: string | null;
+};
+
+export type TimelineCalendarFeedCreateResponse = {
+  feed: TimelineCalendarFeed;
+  feedUrl: string;
+};
+
+// Timeline templates - lanes and events relative to an anchor time
+export type TimelineTemplateLane = {
+  key: string; // Referenced by the template's events
+  name: string;
+  laneType: LaneType;
+};
+
+export type TimelineTemplateEvent = {
+  laneKey: string;
+  title: string;
+  offsetMinutes: number; // Start, relative to the anchor (negative = before it)
+  durationMinutes: number;
+  category?: LaneType;
+  notes?: string | null;
+};
+
+export type TimelineTemplate = {
+  id: string;
+  name: string;
+  description: string | null;
+  anchorLabel: string;
+  builtIn: boolean; // Ships with the app; saved templates can be deleted
+  lanes: TimelineTemplateLane[];
+  events: TimelineTemplateEvent[];
+  createdAt: string | null;
+};
+
+export type TimelineTemplatesResponse = {
+  templates: TimelineTemplate[];
+};
+
+export type TimelineTemplateSaveRequest = {
+  name: string;
+  description?: string;
+  anchorEventId: string; // Offsets are measured from this event's start
+};
+
 // Duration presets for Add Block form
 export const DURATION_PRESETS = [
   { label: "15 min", minutes: 15 },
@@ -17,6 +17,17 @@ export type Wedding = {
   updatedAt: string;
 };
 
+// PATCH /api/weddings/[weddingId] body - null clears the venue coordinates
+export type WeddingUpdateRequest = {
+  name?: string;
+  weddingDate?: string;
+  venueName?: string | null;
+  venueAddress?: string | null;
+  venueTimezone?: string;
+  lat?: number | null;
+  lng?: number | null;
+};
+
 export type User = {
   id: string;
   email: string;
@@ -35,7 +46,7 @@ export type WeddingMembership = {
   user?: User;
 };
 
-// Current user context (for mock auth)
+// Current user context (from the session)
 export type CurrentUser = {
   id: string;
   email: string;
@@ -47,6 +58,113 @@ export type CurrentUser = {
   budgetRole?: BudgetRole;
 };
 
+// GET /api/auth/session response
+export type SessionResponse = {
+  user: User | null;
+  memberships: WeddingMembership[];
+  canImpersonate: boolean; // Dev-only "sign in as" switch is available
+};
+
+// Users offered by the dev impersonation switch
+export type ImpersonationUser = User & {
+  memberships: Pick<WeddingMembership, "weddingId" | "timelineRole" | "budgetRole">[];
+};
+
+// People management
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export type WeddingInvitation = {
+  id: string;
+  weddingId: string;
+  email: string;
+  timelineRole: TimelineRole;
+  budgetRole: BudgetRole;
+  vendorName?: string;
+  vendorType?: string;
+  invitedBy: { id: string; name: string };
+  status: InvitationStatus;
+  expiresAt: string;
+  acceptedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+};
+
+export type MembershipAuditAction =
+  | "invitation_sent"
+  | "invitation_revoked"
+  | "invitation_accepted"
+  | "role_changed"
+  | "access_revoked";
+
+export type MembershipAuditEntry = {
+  id: string;
+  action: MembershipAuditAction;
+  actor: { id: string; name: string };
+  subjectEmail: string;
+  timelineRole?: TimelineRole;
+  budgetRole?: BudgetRole;
+  createdAt: string;
+};
+
+// GET /api/weddings/[weddingId]/members response
+export type PeopleResponse = {
+  members: (WeddingMembership & { user: User })[];
+  invitations: WeddingInvitation[]; // pending only
+  audit: MembershipAuditEntry[]; // newest first
+};
+
+export type InvitationCreateRequest = {
+  email: string;
+  timelineRole: TimelineRole;
+  budgetRole: BudgetRole;
+  vendorName?: string;
+  vendorType?: string;
+};
+
+export type InvitationCreateResponse = {
+  invitation: WeddingInvitation;
+  inviteUrl?: string; // Dev only - the link the mail stand-in delivered
+};
+
+export type MembershipUpdateRequest = {
+  timelineRole?: TimelineRole;
+  budgetRole?: BudgetRole;
+  vendorName?: string | null;
+  vendorType?: string | null;
+};
+
+// GET /api/invitations/[token] response
+export type InvitationDetails = {
+  weddingId: string;
+  weddingName: string;
+  email: string;
+  timelineRole: TimelineRole;
+  budgetRole: BudgetRole;
+  invitedByName: string;
+  status: InvitationStatus;
+  expiresAt: string;
+  hasAccount: boolean; // An account already exists for the invited email
+};
+
+// New accounts set a name and password when accepting
+export type InvitationAcceptRequest = {
+  name?: string;
+  password?: string;
+};
+
+export const TIMELINE_ROLE_LABELS: Record<TimelineRole, string> = {
+  COUPLE_TIMELINE_ADMIN: "Couple (admin)",
+  PLANNER_TIMELINE_ADMIN: "Planner (admin)",
+  VENDOR_TIMELINE_COLLAB: "Vendor collaborator",
+  VIEW_ONLY: "View only",
+};
+
+export const BUDGET_ROLE_LABELS: Record<BudgetRole, string> = {
+  COUPLE_BUDGET_ADMIN: "Budget admin",
+  NONE: "No access",
+};
+
 // Wedding with membership info for dashboard
 export type WeddingWithMembership = Wedding & {
   membership: WeddingMembership;